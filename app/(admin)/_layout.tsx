@@ -0,0 +1,54 @@
+import { Tabs } from 'expo-router';
+import { ShieldCheck, User } from 'lucide-react-native';
+import { RoleGuard } from '@/components/RoleGuard';
+
+export default function AdminLayout() {
+  return (
+    <RoleGuard role="admin">
+      <Tabs
+        screenOptions={{
+          headerShown: false,
+          tabBarActiveTintColor: '#5603BD',
+          tabBarInactiveTintColor: '#64748B',
+          tabBarStyle: {
+            backgroundColor: '#FFFFFF',
+            borderTopWidth: 1,
+            borderTopColor: '#E2E8F0',
+            paddingTop: 8,
+            paddingBottom: 8,
+            height: 80,
+          },
+          tabBarLabelStyle: {
+            fontSize: 12,
+            fontWeight: '500',
+            marginTop: 4,
+          },
+        }}>
+        <Tabs.Screen
+          name="review"
+          options={{
+            title: 'Verification',
+            tabBarIcon: ({ color, size }) => (
+              <ShieldCheck color={color} size={size} />
+            ),
+          }}
+        />
+        <Tabs.Screen
+          name="account"
+          options={{
+            title: 'Account',
+            tabBarIcon: ({ color, size }) => (
+              <User color={color} size={size} />
+            ),
+          }}
+        />
+        <Tabs.Screen
+          name="application"
+          options={{
+            href: null,
+          }}
+        />
+      </Tabs>
+    </RoleGuard>
+  );
+}
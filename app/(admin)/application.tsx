@@ -0,0 +1,338 @@
+import React, { useContext, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  SafeAreaView,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+  Linking,
+} from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { ArrowLeft, FileText, ExternalLink, CircleCheck as CheckCircle, Circle as XCircle } from 'lucide-react-native';
+import { AuthContext } from '@/contexts/AuthContext';
+import {
+  CredentialDocument,
+  DoctorApplication,
+  fetchCredentialDocuments,
+  fetchDoctorApplication,
+  getCredentialDocumentUrl,
+  reviewDoctorApplication,
+} from '@/lib/doctorVerification';
+
+export default function DoctorApplicationScreen() {
+  const { user } = useContext(AuthContext);
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const [application, setApplication] = useState<DoctorApplication | null>(null);
+  const [documents, setDocuments] = useState<CredentialDocument[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    const loadApplication = async () => {
+      if (!id) return;
+      setLoading(true);
+      const [details, files] = await Promise.all([
+        fetchDoctorApplication(id),
+        fetchCredentialDocuments(id),
+      ]);
+      setApplication(details);
+      setDocuments(files);
+      setReason(details?.verificationNotes || '');
+      setLoading(false);
+    };
+
+    loadApplication();
+  }, [id]);
+
+  const handleOpenDocument = async (document: CredentialDocument) => {
+    try {
+      const url = await getCredentialDocumentUrl(document.path);
+      await Linking.openURL(url);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to open document');
+    }
+  };
+
+  const handleDecision = (decision: 'approved' | 'rejected') => {
+    if (!user || !application) return;
+    if (decision === 'rejected' && !reason.trim()) {
+      Alert.alert('Reason Required', 'Please explain why this registration is being rejected.');
+      return;
+    }
+
+    Alert.alert(
+      decision === 'approved' ? 'Approve Doctor' : 'Reject Doctor',
+      `${decision === 'approved' ? 'Approve' : 'Reject'} ${application.name}'s registration?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: decision === 'approved' ? 'Approve' : 'Reject',
+          style: decision === 'approved' ? 'default' : 'destructive',
+          onPress: async () => {
+            setSubmitting(true);
+            try {
+              await reviewDoctorApplication(application.id, decision, reason.trim());
+              router.back();
+            } catch (error: any) {
+              Alert.alert('Error', error.message || 'Failed to save decision');
+            } finally {
+              setSubmitting(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={[styles.container, { justifyContent: 'center', alignItems: 'center' }]}>
+        <ActivityIndicator size="large" color="#5603BD" />
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <ArrowLeft color="#111827" size={24} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Review Application</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {!application ? (
+        <View style={styles.centerContainer}>
+          <Text style={styles.emptyText}>Application not found</Text>
+        </View>
+      ) : (
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          <View style={styles.section}>
+            <Text style={styles.doctorName}>{application.name}</Text>
+            <Text style={styles.doctorEmail}>{application.email}</Text>
+            <Text style={styles.statusText}>Status: {application.status.toUpperCase()}</Text>
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Registration Details</Text>
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Registration No.</Text>
+              <Text style={styles.detailValue}>{application.registrationNo || '—'}</Text>
+            </View>
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Council</Text>
+              <Text style={styles.detailValue}>{application.councilName || '—'}</Text>
+            </View>
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Year of Registration</Text>
+              <Text style={styles.detailValue}>{application.yearOfRegistration || '—'}</Text>
+            </View>
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Specialty</Text>
+              <Text style={styles.detailValue}>{application.specialty || '—'}</Text>
+            </View>
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Hospital</Text>
+              <Text style={styles.detailValue}>{application.hospital || '—'}</Text>
+            </View>
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Uploaded Certificates</Text>
+            {documents.length === 0 ? (
+              <Text style={styles.emptyText}>No documents uploaded</Text>
+            ) : (
+              documents.map((document) => (
+                <TouchableOpacity
+                  key={document.path}
+                  style={styles.documentRow}
+                  onPress={() => handleOpenDocument(document)}
+                >
+                  <FileText color="#5603BD" size={20} />
+                  <Text style={styles.documentName} numberOfLines={1}>{document.name}</Text>
+                  <ExternalLink color="#94A3B8" size={16} />
+                </TouchableOpacity>
+              ))
+            )}
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Decision Notes</Text>
+            <TextInput
+              style={styles.reasonInput}
+              placeholder="Reason for approval or rejection"
+              value={reason}
+              onChangeText={setReason}
+              multiline
+              placeholderTextColor="#9CA3AF"
+            />
+            {submitting ? (
+              <ActivityIndicator color="#5603BD" />
+            ) : (
+              <View style={styles.actionsRow}>
+                <TouchableOpacity
+                  style={[styles.actionButton, styles.rejectButton]}
+                  onPress={() => handleDecision('rejected')}
+                >
+                  <XCircle color="#EF4444" size={18} />
+                  <Text style={[styles.actionButtonText, styles.rejectButtonText]}>Reject</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.actionButton, styles.approveButton]}
+                  onPress={() => handleDecision('approved')}
+                >
+                  <CheckCircle color="#FFFFFF" size={18} />
+                  <Text style={styles.actionButtonText}>Approve</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </View>
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E2E8F0',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1E293B',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+  },
+  section: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1E293B',
+    marginBottom: 12,
+  },
+  doctorName: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#1E293B',
+  },
+  doctorEmail: {
+    fontSize: 14,
+    color: '#64748B',
+    marginTop: 2,
+  },
+  statusText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#5603BD',
+    marginTop: 8,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F1F5F9',
+  },
+  detailLabel: {
+    fontSize: 14,
+    color: '#64748B',
+  },
+  detailValue: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#1E293B',
+    flexShrink: 1,
+    textAlign: 'right',
+  },
+  documentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 10,
+  },
+  documentName: {
+    flex: 1,
+    fontSize: 14,
+    color: '#374151',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#64748B',
+  },
+  reasonInput: {
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: '#1F2937',
+    minHeight: 80,
+    textAlignVertical: 'top',
+    marginBottom: 16,
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 14,
+    borderRadius: 12,
+  },
+  approveButton: {
+    backgroundColor: '#10B981',
+  },
+  rejectButton: {
+    backgroundColor: '#FEF2F2',
+  },
+  actionButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  rejectButtonText: {
+    color: '#EF4444',
+  },
+});
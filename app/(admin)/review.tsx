@@ -0,0 +1,227 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  SafeAreaView,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { router, useFocusEffect } from 'expo-router';
+import { Stethoscope, ChevronRight, Clock } from 'lucide-react-native';
+import {
+  DoctorApplication,
+  VerificationStatus,
+  fetchDoctorApplications,
+} from '@/lib/doctorVerification';
+
+const STATUS_TABS: { status: VerificationStatus; label: string }[] = [
+  { status: 'pending', label: 'Pending' },
+  { status: 'approved', label: 'Approved' },
+  { status: 'rejected', label: 'Rejected' },
+];
+
+export default function VerificationQueueScreen() {
+  const [status, setStatus] = useState<VerificationStatus>('pending');
+  const [applications, setApplications] = useState<DoctorApplication[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadApplications = async () => {
+    setApplications(await fetchDoctorApplications(status));
+    setLoading(false);
+  };
+
+  // Reload on focus so decisions made on the detail screen drop out of the queue
+  useFocusEffect(
+    useCallback(() => {
+      loadApplications();
+    }, [status])
+  );
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadApplications();
+    setRefreshing(false);
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Doctor Verification</Text>
+        <Text style={styles.headerSubtitle}>
+          {status === 'pending' ? `${applications.length} awaiting review` : 'Past decisions'}
+        </Text>
+      </View>
+
+      <View style={styles.filterRow}>
+        {STATUS_TABS.map((tab) => (
+          <TouchableOpacity
+            key={tab.status}
+            style={[styles.filterChip, status === tab.status && styles.filterChipActive]}
+            onPress={() => {
+              setLoading(true);
+              setStatus(tab.status);
+            }}
+          >
+            <Text style={[styles.filterText, status === tab.status && styles.filterTextActive]}>
+              {tab.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {loading ? (
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color="#5603BD" />
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.content}
+          showsVerticalScrollIndicator={false}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+        >
+          {applications.length === 0 && (
+            <Text style={styles.emptyText}>No {status} applications</Text>
+          )}
+          {applications.map((application) => (
+            <TouchableOpacity
+              key={application.id}
+              style={styles.card}
+              onPress={() => router.push({ pathname: '/(admin)/application', params: { id: application.id } })}
+            >
+              <View style={styles.iconContainer}>
+                <Stethoscope color="#5603BD" size={22} />
+              </View>
+              <View style={styles.cardInfo}>
+                <Text style={styles.cardTitle}>{application.name}</Text>
+                <Text style={styles.cardSubtitle}>
+                  Reg. {application.registrationNo || '—'} • {application.councilName || 'Council not provided'}
+                </Text>
+                <View style={styles.metaRow}>
+                  <Clock color="#94A3B8" size={12} />
+                  <Text style={styles.metaText}>
+                    {new Date(application.verifiedAt || application.submittedAt).toLocaleDateString()}
+                  </Text>
+                </View>
+              </View>
+              <ChevronRight color="#94A3B8" size={20} />
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  header: {
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E2E8F0',
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#1E293B',
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#64748B',
+    marginTop: 2,
+  },
+  filterRow: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  filterChip: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+    backgroundColor: '#FFFFFF',
+  },
+  filterChipActive: {
+    backgroundColor: '#5603BD',
+    borderColor: '#5603BD',
+  },
+  filterText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  filterTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#64748B',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  iconContainer: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: '#EDE9FE',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  cardInfo: {
+    flex: 1,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  cardSubtitle: {
+    fontSize: 13,
+    color: '#64748B',
+    marginTop: 2,
+  },
+  metaRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 4,
+  },
+  metaText: {
+    fontSize: 12,
+    color: '#94A3B8',
+  },
+});
@@ -1,78 +1,81 @@
 import { Tabs } from 'expo-router';
 import { Calendar, Users, FileText, ClipboardList, User } from 'lucide-react-native';
+import { RoleGuard } from '@/components/RoleGuard';
 
 export default function DoctorLayout() {
   return (
-    <Tabs
-      screenOptions={{
-        headerShown: false,
-        tabBarActiveTintColor: '#2563EB',
-        tabBarInactiveTintColor: '#64748B',
-        tabBarStyle: {
-          backgroundColor: '#FFFFFF',
-          borderTopWidth: 1,
-          borderTopColor: '#E2E8F0',
-          paddingTop: 8,
-          paddingBottom: 8,
-          height: 80,
-        },
-        tabBarLabelStyle: {
-          fontSize: 12,
-          fontWeight: '500',
-          marginTop: 4,
-        },
-      }}>
-      <Tabs.Screen
-        name="appointments"
-        options={{
-          title: 'Appointments',
-          tabBarIcon: ({ color, size }) => (
-            <Calendar color={color} size={size} />
-          ),
-        }}
-      />
-      <Tabs.Screen
-        name="patients"
-        options={{
-          title: 'Patients',
-          tabBarIcon: ({ color, size }) => (
-            <Users color={color} size={size} />
-          ),
-        }}
-      />
-      <Tabs.Screen
-        name="prescriptions"
-        options={{
-          title: 'Prescriptions',
-          tabBarIcon: ({ color, size }) => (
-            <FileText color={color} size={size} />
-          ),
-        }}
-      />
-      <Tabs.Screen
-        name="reports"
-        options={{
-          title: 'Reports',
-          tabBarIcon: ({ color, size }) => (
-            <ClipboardList color={color} size={size} />
-          ),
-        }}
-      />
-      <Tabs.Screen
-        name="profile"
-        options={{
-          title: 'Profile',
-          tabBarIcon: ({ color, size }) => (
-            <User color={color} size={size} />
-          ),
-        }}
-      />
-      <Tabs.Screen
-        name="calendar"
-        options={{
-          href: null,
-        }}
-      />
-    </Tabs>
+    <RoleGuard role="doctor">
+      <Tabs
+        screenOptions={{
+          headerShown: false,
+          tabBarActiveTintColor: '#2563EB',
+          tabBarInactiveTintColor: '#64748B',
+          tabBarStyle: {
+            backgroundColor: '#FFFFFF',
+            borderTopWidth: 1,
+            borderTopColor: '#E2E8F0',
+            paddingTop: 8,
+            paddingBottom: 8,
+            height: 80,
+          },
+          tabBarLabelStyle: {
+            fontSize: 12,
+            fontWeight: '500',
+            marginTop: 4,
+          },
+        }}>
+        <Tabs.Screen
+          name="appointments"
+          options={{
+            title: 'Appointments',
+            tabBarIcon: ({ color, size }) => (
+              <Calendar color={color} size={size} />
+            ),
+          }}
+        />
+        <Tabs.Screen
+          name="patients"
+          options={{
+            title: 'Patients',
+            tabBarIcon: ({ color, size }) => (
+              <Users color={color} size={size} />
+            ),
+          }}
+        />
+        <Tabs.Screen
+          name="prescriptions"
+          options={{
+            title: 'Prescriptions',
+            tabBarIcon: ({ color, size }) => (
+              <FileText color={color} size={size} />
+            ),
+          }}
+        />
+        <Tabs.Screen
+          name="reports"
+          options={{
+            title: 'Reports',
+            tabBarIcon: ({ color, size }) => (
+              <ClipboardList color={color} size={size} />
+            ),
+          }}
+        />
+        <Tabs.Screen
+          name="profile"
+          options={{
+            title: 'Profile',
+            tabBarIcon: ({ color, size }) => (
+              <User color={color} size={size} />
+            ),
+          }}
+        />
+        <Tabs.Screen
+          name="calendar"
+          options={{
+            href: null,
+          }}
+        />
+      </Tabs>
+    </RoleGuard>
   );
 }
\ No newline at end of file
@@ -10,8 +10,15 @@ import {
   ActivityIndicator,
 } from 'react-native';
 import { AuthContext } from '@/contexts/AuthContext';
-import { Calendar, FileText, Clock, ChevronRight, User, ChevronDown, ChevronUp } from 'lucide-react-native';
-import { supabase } from '@/lib/supabase';
+import { Calendar, FileText, Clock, ChevronRight, User, ChevronDown, ChevronUp, ShieldCheck } from 'lucide-react-native';
+import { ageFromDob, fetchPatients } from '@/lib/repositories/patients';
+import { fetchDoctorPrescriptions } from '@/lib/repositories/prescriptions';
+import { addDays, formatDoseTime, formatMedication, toDateKey } from '@/lib/medicationSchedule';
+import { fetchDoseLogsForPrescriptions } from '@/lib/repositories/doseLogs';
+import { ADHERENCE_PERIODS, AdherenceSummary, computeAdherence, formatAdherenceRate } from '@/lib/adherence';
+import { describeReading, fetchHealthReadingsForPatients } from '@/lib/repositories/healthReadings';
+import { consentedPatientIds, fetchDoctorConsents } from '@/lib/consents';
+import { logAccessEvent } from '@/lib/accessAudit';
 import { useRouter } from 'expo-router';
 const router = useRouter();
 const handleCalendarpress = () => {
@@ -31,12 +38,16 @@ interface HistoryEntry {
 interface Patient {
   id: string;
   name: string;
-  age: number;
+  // Only known when the patient shares their profile
+  age?: number;
   condition: string;
-  lastVisit: string;
+  lastVisit?: string;
+  accessUntil: string;
   nextAppointment?: string;
   avatar: string;
   history: HistoryEntry[];
+  // For this doctor's prescriptions, one per period in ADHERENCE_PERIODS
+  adherence?: AdherenceSummary[];
 }
 
 const mockPatients: Patient[] = [];
@@ -47,68 +58,94 @@ export default function PatientsScreen() {
   const [expandedHistory, setExpandedHistory] = useState<string | null>(null);
   const [loading, setLoading] = useState<boolean>(false);
 
-  const fetchPatientsWithPrescriptions = async (doctorId: string) => {
+  const fetchConsentedPatients = async (doctorId: string) => {
     setLoading(true);
     try {
-      // Fetch patients who have prescriptions from this doctor
-      const { data: prescriptions, error: prescriptionsError } = await supabase
-        .from('prescriptions')
-        .select(`
-          id,
-          patient_id,
-          created_at,
-          medicines,
-          instructions,
-          status,
-          users!patient_id (
-            name,
-            avatar,
-            patients (
-              dob,
-              gender
-            )
-          )
-        `)
-        .eq('doctor_id', doctorId)
-        .order('created_at', { ascending: false });
+      // Only patients with an active consent are listed, and each section of
+      // their record is fetched only for the categories they chose to share
+      const consents = await fetchDoctorConsents(doctorId);
+      const profileIds = consentedPatientIds(consents, 'profile');
+      const prescriptionIds = consentedPatientIds(consents, 'prescriptions');
+      const readingIds = consentedPatientIds(consents, 'readings');
+
+      const [profilesResult, prescriptionsResult, readingsResult] = await Promise.all([
+        fetchPatients(profileIds),
+        fetchDoctorPrescriptions(doctorId, prescriptionIds),
+        fetchHealthReadingsForPatients(readingIds),
+      ]);
 
-      if (prescriptionsError) {
-        console.error('Error fetching prescriptions:', prescriptionsError);
+      if (profilesResult.error || prescriptionsResult.error || readingsResult.error) {
         setLoading(false);
         return;
       }
 
+      const patientMap: { [key: string]: Patient } = {};
 
+      consents.forEach((consent) => {
+        patientMap[consent.patientId] = {
+          id: consent.patientId,
+          name: consent.patientName,
+          condition: '',
+          accessUntil: consent.expiresAt,
+          avatar: 'https://images.pexels.com/photos/1681010/pexels-photo-1681010.jpeg',
+          history: [],
+        };
+      });
 
-      // Map patients with their prescriptions grouped
-      const patientMap: { [key: string]: Patient } = {};
+      profilesResult.data.forEach((profile) => {
+        const patient = patientMap[profile.id];
+        if (!patient) return;
+        patient.age = ageFromDob(profile.dob);
+        patient.condition = (profile.chronic_conditions || []).join(', ');
+      });
 
-      prescriptions.forEach((prescription) => {
-        const patientId = prescription.patient_id;
-        if (!patientMap[patientId]) {
-          const patientData = prescription.users as any;
-          patientMap[patientId] = {
-            id: patientId,
-            name: patientData.name,
-            age: 20,
-            condition: '', // condition is not directly available, can be empty or fetched separately if needed
-            lastVisit: prescription.created_at,
-            avatar: patientData.avatar || 'https://images.pexels.com/photos/1681010/pexels-photo-1681010.jpeg',
-            history: [],
-          };
+      prescriptionsResult.data.forEach((prescription) => {
+        const patient = patientMap[prescription.patientId];
+        if (!patient) return;
+        if (!patient.lastVisit) {
+          patient.lastVisit = prescription.date;
         }
-        // Add prescription to patient's history
-        patientMap[patientId].history.push({
+        patient.history.push({
           id: prescription.id,
-          date: prescription.created_at,
+          date: prescription.date,
           type: 'Prescription',
-          description: prescription.instructions || '',
+          description: prescription.instructions,
           diagnosis: '',
-          prescription: prescription.medicines || [],
+          prescription: prescription.medicines.map(formatMedication),
           notes: '',
         });
       });
 
+      readingsResult.data.forEach((reading) => {
+        const patient = patientMap[reading.patientId];
+        if (!patient) return;
+        patient.history.push({
+          id: reading.id,
+          date: reading.timestamp.toISOString(),
+          type: 'Reading',
+          description: describeReading(reading),
+          notes: reading.notes || '',
+        });
+      });
+
+      // Adherence is a view of the prescriptions already shared, so it needs no consent of its own
+      const today = toDateKey();
+      const longestPeriod = ADHERENCE_PERIODS[ADHERENCE_PERIODS.length - 1];
+      const doseLogsResult = prescriptionsResult.data.length > 0
+        ? await fetchDoseLogsForPrescriptions(
+            prescriptionsResult.data.map((prescription) => prescription.id),
+            addDays(today, 1 - longestPeriod)
+          )
+        : null;
+      if (doseLogsResult && !doseLogsResult.error) {
+        Object.values(patientMap).forEach((patient) => {
+          const prescriptions = prescriptionsResult.data.filter((prescription) => prescription.patientId === patient.id);
+          if (prescriptions.length === 0) return;
+          const doseLogs = doseLogsResult.data.filter((log) => log.patientId === patient.id);
+          patient.adherence = ADHERENCE_PERIODS.map((period) => computeAdherence(prescriptions, doseLogs, period));
+        });
+      }
+
       // Convert map to array and sort history by date descending
       const patientsArray = Object.values(patientMap).map((patient) => {
         patient.history.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
@@ -125,7 +162,7 @@ export default function PatientsScreen() {
 
   useEffect(() => {
     if (user && user.id) {
-      fetchPatientsWithPrescriptions(user.id);
+      fetchConsentedPatients(user.id);
     }
   }, [user]);
 
@@ -133,8 +170,52 @@ export default function PatientsScreen() {
     console.log('Opening patient details for:', patientId);
   };
 
-  const handleHistoryPress = (patientId: string) => {
-    setExpandedHistory(expandedHistory === patientId ? null : patientId);
+  // Logged each time a doctor opens a patient's history, for the patient's access history screen
+  const handleHistoryPress = (patient: Patient) => {
+    const isOpening = expandedHistory !== patient.id;
+    setExpandedHistory(isOpening ? patient.id : null);
+    if (!isOpening || !user) return;
+
+    if (patient.history.some((entry) => entry.type === 'Prescription')) {
+      logAccessEvent(user.id, patient.id, 'viewed_history', 'prescriptions');
+    }
+    if (patient.history.some((entry) => entry.type === 'Reading')) {
+      logAccessEvent(user.id, patient.id, 'viewed_readings', 'readings');
+    }
+  };
+
+  const renderAdherence = (adherence: AdherenceSummary[]) => {
+    // The longest period has the most to say about which medicines and times are missed
+    const longest = adherence[adherence.length - 1];
+    if (longest.scheduled === 0) return null;
+    const lowest = longest.perMedicine.filter((medicine) => medicine.rate !== null && medicine.rate < 1).slice(0, 2);
+
+    return (
+      <View style={styles.adherenceSummary}>
+        <Text style={styles.historySectionTitle}>Adherence</Text>
+        <View style={styles.adherenceRates}>
+          {adherence.map((summary) => (
+            <View key={summary.periodDays} style={styles.adherenceRate}>
+              <Text style={styles.adherenceRateValue}>{formatAdherenceRate(summary.rate)}</Text>
+              <Text style={styles.adherenceRateLabel}>{summary.periodDays} days</Text>
+            </View>
+          ))}
+        </View>
+        <Text style={styles.historySectionText}>
+          {longest.currentStreak}-day streak · {longest.taken} of {longest.scheduled} doses taken, {longest.late} late
+        </Text>
+        {lowest.length > 0 && (
+          <Text style={styles.historySectionText}>
+            Lowest: {lowest.map((medicine) => `${medicine.name} ${formatAdherenceRate(medicine.rate)}`).join(', ')}
+          </Text>
+        )}
+        {longest.missedTimes.length > 0 && (
+          <Text style={styles.historySectionText}>
+            Most missed at {longest.missedTimes.slice(0, 2).map(({ time }) => formatDoseTime(time)).join(' and ')}
+          </Text>
+        )}
+      </View>
+    );
   };
 
   const renderHistoryEntry = (entry: HistoryEntry) => (
@@ -183,6 +264,8 @@ export default function PatientsScreen() {
       <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
         {loading ? (
           <ActivityIndicator size="large" color="#2563EB" />
+        ) : patients.length === 0 ? (
+          <Text style={styles.emptyText}>Patients appear here once they share their records with you.</Text>
         ) : (
           patients.map((patient) => (
             <View key={patient.id} style={styles.patientCard}>
@@ -194,17 +277,27 @@ export default function PatientsScreen() {
 
                   <View style={[styles.patientInfo, styles.patientInfoSpaced]}>
                     <Text style={styles.patientName}>{patient.name}</Text>
-                    <Text style={styles.patientAge}>Age: {patient.age} years</Text>
+                    {patient.age !== undefined && (
+                      <Text style={styles.patientAge}>Age: {patient.age} years</Text>
+                    )}
                     <Text style={styles.patientCondition}>{patient.condition}</Text>
                   </View>
                   <ChevronRight color="#9CA3AF" size={20} />
                 </View>
 
                 <View style={styles.patientDetails}>
+                  {patient.lastVisit && (
+                    <View style={styles.detailItem}>
+                      <Clock color="#6B7280" size={16} />
+                      <Text style={styles.detailText}>
+                        Last Visit: {new Date(patient.lastVisit).toLocaleDateString('en-US', {timeZone: 'UTC'})}
+                      </Text>
+                    </View>
+                  )}
                   <View style={styles.detailItem}>
-                    <Clock color="#6B7280" size={16} />
+                    <ShieldCheck color="#6B7280" size={16} />
                     <Text style={styles.detailText}>
-                      Last Visit: {new Date(patient.lastVisit).toLocaleDateString('en-US', {timeZone: 'UTC'})}
+                      Shared until {new Date(patient.accessUntil).toLocaleDateString('en-US', {timeZone: 'UTC'})}
                     </Text>
                   </View>
                 </View>
@@ -213,7 +306,7 @@ export default function PatientsScreen() {
               <View style={styles.patientActions}>
                 <TouchableOpacity 
                   style={styles.actionButton}
-                  onPress={() => handleHistoryPress(patient.id)}
+                  onPress={() => handleHistoryPress(patient)}
                 >
                   <FileText color="#2563EB" size={18} />
                   <Text style={styles.actionText}>History</Text>
@@ -229,7 +322,12 @@ export default function PatientsScreen() {
               {expandedHistory === patient.id && (
                 <View style={styles.historyDropdown}>
                   <Text style={styles.historyTitle}>Patient History</Text>
-                  {patient.history.map(renderHistoryEntry)}
+                  {patient.adherence && renderAdherence(patient.adherence)}
+                  {patient.history.length > 0 ? (
+                    patient.history.map(renderHistoryEntry)
+                  ) : (
+                    <Text style={styles.historyDescription}>This patient has not shared any history with you.</Text>
+                  )}
                 </View>
               )}
             </View>
@@ -275,6 +373,12 @@ const styles = StyleSheet.create({
     paddingHorizontal: 24,
     paddingTop: 16,
   },
+  emptyText: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+    marginTop: 24,
+  },
   patientCard: {
     backgroundColor: '#FFFFFF',
     borderRadius: 16,
@@ -384,6 +488,31 @@ const styles = StyleSheet.create({
     color: '#1F2937',
     marginBottom: 12,
   },
+  adherenceSummary: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+    borderLeftWidth: 3,
+    borderLeftColor: '#059669',
+  },
+  adherenceRates: {
+    flexDirection: 'row',
+    marginBottom: 8,
+  },
+  adherenceRate: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  adherenceRateValue: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#059669',
+  },
+  adherenceRateLabel: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
   historyEntry: {
     backgroundColor: '#FFFFFF',
     borderRadius: 8,
@@ -14,7 +14,11 @@ import {
 } from 'react-native';
 import { router } from 'expo-router';
 import { AuthContext } from '@/contexts/AuthContext';
-import { supabase } from '@/lib/supabase';
+import AccountSecuritySection from '@/components/AccountSecuritySection';
+import AppLockSection from '@/components/AppLockSection';
+import { fetchDoctor, updateDoctor } from '@/lib/repositories/doctors';
+import { fetchUser, updateUser } from '@/lib/repositories/users';
+import { DoctorRow, UserRow } from '@/lib/repositories/types';
 import { TriangleAlert as AlertTriangle, Calendar, User, Settings, Moon, Globe, Circle as HelpCircle, LogOut, ChevronRight, CreditCard as Edit, Mail, Phone, MapPin, Stethoscope, Save, X, Pencil } from 'lucide-react-native';
 
 const handleCalendarpress = () => {
@@ -24,8 +28,8 @@ const handleCalendarpress = () => {
 export default function ProfileScreen() {
   const { user, logout } = useContext(AuthContext);
   const [darkMode, setDarkMode] = useState(false);
-  const [profileData, setProfileData] = useState<any>(null);
-  const [doctorData, setDoctorData] = useState<any>(null);
+  const [profileData, setProfileData] = useState<UserRow | null>(null);
+  const [doctorData, setDoctorData] = useState<DoctorRow | null>(null);
   const [loading, setLoading] = useState(true);
   const [editModalVisible, setEditModalVisible] = useState(false);
   const [editingField, setEditingField] = useState<string>('');
@@ -55,26 +59,14 @@ export default function ProfileScreen() {
     try {
       setLoading(true);
 
-      // Fetch user data
-      const { data: userData, error: userError } = await supabase
-        .from('users')
-        .select('*')
-        .eq('id', user.id)
-        .single();
-
-      if (userError) throw userError;
-
-      // Fetch doctor data
-      const { data: doctorInfo, error: doctorError } = await supabase
-        .from('doctors')
-        .select('*')
-        .eq('id', user.id)
-        .single();
-
-      if (doctorError) throw doctorError;
+      const [userResult, doctorResult] = await Promise.all([fetchUser(user.id), fetchDoctor(user.id)]);
+      if (userResult.error || doctorResult.error) {
+        Alert.alert('Error', 'Failed to load profile data');
+        return;
+      }
 
-      setProfileData(userData);
-      setDoctorData(doctorInfo);
+      setProfileData(userResult.data);
+      setDoctorData(doctorResult.data);
     } catch (error) {
       console.error('Error fetching profile data:', error);
       Alert.alert('Error', 'Failed to load profile data');
@@ -91,46 +83,16 @@ export default function ProfileScreen() {
     if (!user?.id) return;
 
     try {
-      if (editingField === 'specialty') {
-        const { error } = await supabase
-          .from('doctors')
-          .update({ specialty: editValue })
-          .eq('id', user.id);
-
-        if (error) throw error;
-        setDoctorData({ ...doctorData, specialty: editValue });
-      } else if (editingField === 'hospital') {
-        const { error } = await supabase
-          .from('doctors')
-          .update({ hospital: editValue })
-          .eq('id', user.id);
-
-        if (error) throw error;
-        setDoctorData({ ...doctorData, hospital: editValue });
-      } else if (editingField === 'experience') {
-        const { error } = await supabase
-          .from('doctors')
-          .update({ experience: editValue })
-          .eq('id', user.id);
+      if (editingField === 'specialty' || editingField === 'hospital') {
+        const { error } = await updateDoctor(user.id, { [editingField]: editValue });
 
         if (error) throw error;
-        setDoctorData({ ...doctorData, experience: editValue });
-      } else if (editingField === 'phone') {
-        const { error } = await supabase
-          .from('users')
-          .update({ phone: editValue })
-          .eq('id', user.id);
+        setDoctorData((current) => current && { ...current, [editingField]: editValue });
+      } else if (editingField === 'phone' || editingField === 'location') {
+        const { error } = await updateUser(user.id, { [editingField]: editValue });
 
         if (error) throw error;
-        setProfileData({ ...profileData, phone: editValue });
-      } else if (editingField === 'location') {
-        const { error } = await supabase
-          .from('users')  // ✅ Fixed - removed 'public.' prefix
-          .update({ location: editValue })
-          .eq('id', user.id);
-
-        if (error) throw error;
-        setProfileData({ ...profileData, location: editValue });
+        setProfileData((current) => current && { ...current, [editingField]: editValue });
       }
 
       setEditModalVisible(false);
@@ -178,7 +140,7 @@ export default function ProfileScreen() {
         {/* Profile Info */}
         <View style={styles.profileSection}>
           <View style={styles.profileHeader}>
-            <Image source={{ uri: profileData.avatar }} style={styles.profileAvatar} />
+            <Image source={{ uri: profileData?.avatar ?? undefined }} style={styles.profileAvatar} />
             {/* <TouchableOpacity style={styles.editButton}>
               <Edit color="#FFFFFF" size={16} />
             </TouchableOpacity> */}
@@ -196,9 +158,6 @@ export default function ProfileScreen() {
               <TouchableOpacity onPress={() => openEditModal('hospital', doctorData?.hospital || '')}>
                 <Text style={styles.hospitalName}>{doctorData?.hospital}</Text>
               </TouchableOpacity>
-              <TouchableOpacity onPress={() => openEditModal('experience', doctorData?.experience || '')}>
-                <Text style={styles.experienceText}>{doctorData?.experience} experience</Text>
-              </TouchableOpacity>
             </View>
           ) : (
             <View style={styles.patientInfo}>
@@ -283,6 +242,10 @@ export default function ProfileScreen() {
           </TouchableOpacity>
         </View>
 
+        <AppLockSection />
+
+        <AccountSecuritySection />
+
         {/* Logout */}
         <View style={styles.section}>
           <TouchableOpacity style={styles.logoutButton} onPress={handleLogout}>
@@ -305,7 +268,6 @@ export default function ProfileScreen() {
               <Text style={styles.modalTitle}>
                 Edit {editingField === 'specialty' ? 'Specialty' :
                       editingField === 'hospital' ? 'Hospital' :
-                      editingField === 'experience' ? 'Experience' :
                       editingField === 'phone' ? 'Phone Number' :
                       editingField === 'location' ? 'Location' : 'Field'}
               </Text>
@@ -321,7 +283,6 @@ export default function ProfileScreen() {
               placeholder={
                 editingField === 'specialty' ? 'e.g., Cardiology' :
                 editingField === 'hospital' ? 'Enter hospital name' :
-                editingField === 'experience' ? 'e.g., 5 years' :
                 editingField === 'phone' ? 'Enter phone number' :
                 editingField === 'location' ? 'Enter location' : 'Enter value'
               }
@@ -459,10 +420,6 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     marginBottom: 4,
   },
-  experienceText: {
-    fontSize: 14,
-    color: '#6B7280',
-  },
   patientInfo: {
     alignItems: 'center',
   },
@@ -19,6 +19,10 @@ import {
   Dimensions,
 } from 'react-native';
 import { AuthContext } from '@/contexts/AuthContext';
+import { consentedPatientIds, fetchDoctorConsents } from '@/lib/consents';
+import { ReportWithPatient, fetchDoctorReports, updateReportStatus as saveReportStatus } from '@/lib/repositories/reports';
+import { ReportStatus } from '@/lib/repositories/types';
+import { logAccessEvent } from '@/lib/accessAudit';
 import {
   Calendar,
   FileText,
@@ -33,26 +37,7 @@ import { useRouter } from 'expo-router';
 
 const { width, height } = Dimensions.get('window');
 
-interface Report {
-  id: string;
-  patient_id: string;
-  doctor_id: string;
-  report_type: string;
-  file_path: string;
-  file_size: string;
-  thumbnail_url?: string;
-  status: 'pending' | 'reviewed' | 'urgent';
-  upload_date: string;
-  reviewed_date?: string;
-  notes?: string;
-  created_at: string;
-  updated_at: string;
-  // Joined patient data
-  patient?: {
-    id: string;
-    name: string;
-  };
-}
+type Report = ReportWithPatient;
 
 // Update mock reports with local PDF paths
 
@@ -82,46 +67,20 @@ export default function ReportsScreen() {
         return;
       }
 
-      let query = supabase
-        .from('reports')
-        .select(`
-          id,
-          patient_id,
-          doctor_id,
-          report_type,
-          file_path,
-          file_size,
-          thumbnail_url,
-          status,
-          upload_date,
-          reviewed_date,
-          notes,
-          created_at,
-          updated_at,
-          patient:users!patient_id(
-            id,
-            name
-          )
-        `)
-        .eq('doctor_id', user.id)
-        .order('upload_date', { ascending: false });
-
-      // Apply filter if not 'all'
-      if (filterStatus !== 'all') {
-        query = query.eq('status', filterStatus);
-      }
+      // Reports are only visible while the patient's consent covers them
+      const reportPatientIds = consentedPatientIds(await fetchDoctorConsents(user.id), 'reports');
 
-      const { data, error: fetchError } = await query;
+      const { data, error: fetchError } = await fetchDoctorReports(
+        user.id,
+        reportPatientIds,
+        filterStatus !== 'all' ? (filterStatus as ReportStatus) : undefined
+      );
 
       if (fetchError) {
-        throw fetchError;
+        throw new Error(fetchError.message);
       }
 
-      const transformedData = (data || []).map(report => ({
-        ...report,
-        patient: Array.isArray(report.patient) ? report.patient[0] : report.patient
-      }));
-      setReports(transformedData);
+      setReports(data);
     } catch (err) {
       console.error('Error fetching reports:', err);
       setError(err instanceof Error ? err.message : 'Failed to fetch reports');
@@ -133,22 +92,15 @@ export default function ReportsScreen() {
   // ADD: Update report status
   const updateReportStatus = async (reportId: string, newStatus: 'pending' | 'reviewed' | 'urgent') => {
     try {
-      const { error } = await supabase
-        .from('reports')
-        .update({
-          status: newStatus,
-          reviewed_date: newStatus === 'reviewed' ? new Date().toISOString() : null,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', reportId);
+      const { error } = await saveReportStatus(reportId, newStatus);
 
-      if (error) throw error;
+      if (error) throw new Error(error.message);
 
       // Update local state
       setReports(prevReports =>
         prevReports.map(report =>
           report.id === reportId
-            ? { ...report, status: newStatus, reviewed_date: newStatus === 'reviewed' ? new Date().toISOString() : undefined }
+            ? { ...report, status: newStatus, reviewed_date: newStatus === 'reviewed' ? new Date().toISOString() : null }
             : report
         )
       );
@@ -255,6 +207,9 @@ export default function ReportsScreen() {
   const handleDownload = async (report: Report) => {
     try {
       setDownloadingId(report.id);
+      if (user) {
+        logAccessEvent(user.id, report.patient_id, 'downloaded_report', 'report', { id: report.id, label: report.report_type });
+      }
 
       // Get signed URL from Supabase Storage
       const signedUrl = await getSignedUrl(report.file_path);
@@ -299,6 +254,9 @@ export default function ReportsScreen() {
   };
 
   const handleViewReport = (report: Report) => {
+    if (user) {
+      logAccessEvent(user.id, report.patient_id, 'viewed_report', 'report', { id: report.id, label: report.report_type });
+    }
     setViewingReport(report);
     setPdfLoading(true);
     setPdfError(null);
@@ -412,7 +370,7 @@ export default function ReportsScreen() {
             <Text style={styles.emptyTitle}>No Reports Found</Text>
             <Text style={styles.emptySubtitle}>
               {filterStatus === 'all'
-                ? 'No reports have been uploaded yet.'
+                ? 'No reports have been shared with you yet.'
                 : `No ${filterStatus} reports found.`}
             </Text>
           </View>
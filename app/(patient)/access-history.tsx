@@ -0,0 +1,198 @@
+import React, { useContext, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  SafeAreaView,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { router } from 'expo-router';
+import { ArrowLeft, Download, Eye } from 'lucide-react-native';
+import { AuthContext } from '@/contexts/AuthContext';
+import { ACCESS_ACTION_LABELS, AccessEvent, fetchAccessHistory } from '@/lib/accessAudit';
+
+const ROLE_LABELS: Record<string, string> = {
+  doctor: 'Doctor',
+  patient: 'Caregiver',
+  pharmacy: 'Pharmacy',
+  admin: 'Admin',
+};
+
+export default function AccessHistoryScreen() {
+  const { activeProfile, activePatientId } = useContext(AuthContext);
+  const [events, setEvents] = useState<AccessEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadHistory = async () => {
+    if (!activePatientId) return;
+    setEvents(await fetchAccessHistory(activePatientId));
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    setLoading(true);
+    loadHistory();
+  }, [activePatientId]);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadHistory();
+    setRefreshing(false);
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <ArrowLeft color="#111827" size={24} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Access History</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        showsVerticalScrollIndicator={false}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+      >
+        <Text style={styles.introText}>
+          Everyone who has opened {activeProfile?.kind === 'self' ? 'your' : `${activeProfile?.name || 'this profile'}'s`} health
+          records, most recent first.
+        </Text>
+
+        {loading ? (
+          <ActivityIndicator color="#5603BD" />
+        ) : events.length === 0 ? (
+          <Text style={styles.emptyText}>Nobody has viewed these records yet.</Text>
+        ) : (
+          events.map((event) => (
+            <View key={event.id} style={styles.card}>
+              <View style={styles.iconContainer}>
+                {event.action === 'downloaded_report' ? (
+                  <Download color="#5603BD" size={18} />
+                ) : (
+                  <Eye color="#5603BD" size={18} />
+                )}
+              </View>
+              <View style={styles.cardInfo}>
+                <View style={styles.actorRow}>
+                  <Text style={styles.cardTitle}>{event.actorName}</Text>
+                  {!!ROLE_LABELS[event.actorRole] && (
+                    <Text style={styles.roleBadge}>{ROLE_LABELS[event.actorRole]}</Text>
+                  )}
+                </View>
+                <Text style={styles.cardSubtitle}>
+                  {ACCESS_ACTION_LABELS[event.action]}
+                  {event.resourceLabel ? `: ${event.resourceLabel}` : ''}
+                </Text>
+                <Text style={styles.timeText}>{new Date(event.createdAt).toLocaleString()}</Text>
+              </View>
+            </View>
+          ))
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E2E8F0',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1E293B',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+  },
+  introText: {
+    fontSize: 14,
+    color: '#475569',
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#64748B',
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  iconContainer: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#F5F3FF',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  cardInfo: {
+    flex: 1,
+  },
+  actorRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  roleBadge: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#5603BD',
+    backgroundColor: '#F5F3FF',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  cardSubtitle: {
+    fontSize: 14,
+    color: '#475569',
+    marginTop: 4,
+  },
+  timeText: {
+    fontSize: 12,
+    color: '#94A3B8',
+    marginTop: 4,
+  },
+});
@@ -0,0 +1,334 @@
+import React, { useContext, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  SafeAreaView,
+  TextInput,
+  Switch,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { router } from 'expo-router';
+import { ArrowLeft, UserPlus, Trash2, Users } from 'lucide-react-native';
+import { AuthContext } from '@/contexts/AuthContext';
+import {
+  CaregiverLink,
+  CaregiverPermission,
+  CaregiverPermissions,
+  FULL_PERMISSIONS,
+  PERMISSION_LABELS,
+  addCaregiver,
+  fetchCaregivers,
+  revokeCaregiver,
+  updateCaregiverPermissions,
+} from '@/lib/caregivers';
+
+const PERMISSION_KEYS = Object.keys(PERMISSION_LABELS) as CaregiverPermission[];
+
+export default function CaregiversScreen() {
+  const { user, profiles } = useContext(AuthContext);
+  const [caregivers, setCaregivers] = useState<CaregiverLink[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [contact, setContact] = useState('');
+  const [relationship, setRelationship] = useState('');
+  const [newPermissions, setNewPermissions] = useState<CaregiverPermissions>(FULL_PERMISSIONS);
+
+  const dependents = profiles.filter((profile) => profile.kind === 'dependent');
+
+  const loadCaregivers = async () => {
+    if (!user) return;
+    setLoading(true);
+    setCaregivers(await fetchCaregivers(user.id));
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadCaregivers();
+  }, [user?.id]);
+
+  const handleAdd = async () => {
+    if (!user) return;
+    if (!contact.trim() || !relationship.trim()) {
+      Alert.alert('Error', 'Please enter the caregiver\'s email or mobile number and their relationship to you');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await addCaregiver(user.id, contact, relationship.trim(), newPermissions);
+      setContact('');
+      setRelationship('');
+      setNewPermissions(FULL_PERMISSIONS);
+      await loadCaregivers();
+      Alert.alert('Success', 'Caregiver added successfully!');
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to add caregiver');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleTogglePermission = async (link: CaregiverLink, permission: CaregiverPermission) => {
+    const permissions = { ...link.permissions, [permission]: !link.permissions[permission] };
+    setCaregivers((prev) => prev.map((c) => (c.id === link.id ? { ...c, permissions } : c)));
+    try {
+      await updateCaregiverPermissions(link.id, permissions);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to update permissions');
+      await loadCaregivers();
+    }
+  };
+
+  const handleRemove = (link: CaregiverLink) => {
+    Alert.alert(
+      'Remove Caregiver',
+      `${link.caregiverName} will no longer be able to manage your health profile.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await revokeCaregiver(link.id);
+              await loadCaregivers();
+            } catch (error: any) {
+              Alert.alert('Error', error.message || 'Failed to remove caregiver');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <ArrowLeft color="#111827" size={24} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Caregivers</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {/* People who can manage this account */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>People who can manage my health</Text>
+          {loading ? (
+            <ActivityIndicator color="#5603BD" />
+          ) : caregivers.length === 0 ? (
+            <Text style={styles.emptyText}>No caregivers added yet.</Text>
+          ) : (
+            caregivers.map((link) => (
+              <View key={link.id} style={styles.card}>
+                <View style={styles.cardHeader}>
+                  <View style={styles.cardInfo}>
+                    <Text style={styles.cardTitle}>{link.caregiverName}</Text>
+                    <Text style={styles.cardSubtitle}>{link.relationship}</Text>
+                  </View>
+                  <TouchableOpacity onPress={() => handleRemove(link)}>
+                    <Trash2 color="#EF4444" size={20} />
+                  </TouchableOpacity>
+                </View>
+                {PERMISSION_KEYS.map((permission) => (
+                  <View key={permission} style={styles.permissionRow}>
+                    <Text style={styles.permissionText}>{PERMISSION_LABELS[permission]}</Text>
+                    <Switch
+                      value={link.permissions[permission]}
+                      onValueChange={() => handleTogglePermission(link, permission)}
+                      trackColor={{ false: '#E5E7EB', true: '#5603BD' }}
+                      thumbColor="#FFFFFF"
+                    />
+                  </View>
+                ))}
+              </View>
+            ))
+          )}
+        </View>
+
+        {/* Add caregiver */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Add a caregiver</Text>
+          <View style={styles.card}>
+            <TextInput
+              style={styles.input}
+              placeholder="Email or mobile number"
+              value={contact}
+              onChangeText={setContact}
+              autoCapitalize="none"
+              placeholderTextColor="#9CA3AF"
+            />
+            <TextInput
+              style={styles.input}
+              placeholder="Relationship (e.g. Son, ASHA worker)"
+              value={relationship}
+              onChangeText={setRelationship}
+              placeholderTextColor="#9CA3AF"
+            />
+            {PERMISSION_KEYS.map((permission) => (
+              <View key={permission} style={styles.permissionRow}>
+                <Text style={styles.permissionText}>{PERMISSION_LABELS[permission]}</Text>
+                <Switch
+                  value={newPermissions[permission]}
+                  onValueChange={(value) => setNewPermissions((prev) => ({ ...prev, [permission]: value }))}
+                  trackColor={{ false: '#E5E7EB', true: '#5603BD' }}
+                  thumbColor="#FFFFFF"
+                />
+              </View>
+            ))}
+            <TouchableOpacity style={styles.addButton} onPress={handleAdd} disabled={saving}>
+              {saving ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <>
+                  <UserPlus color="#FFFFFF" size={18} />
+                  <Text style={styles.addButtonText}>Add Caregiver</Text>
+                </>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {/* Patients this user cares for */}
+        {dependents.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>People I care for</Text>
+            {dependents.map((profile) => (
+              <View key={profile.patientId} style={[styles.card, styles.dependentCard]}>
+                <Users color="#5603BD" size={20} />
+                <View style={styles.cardInfo}>
+                  <Text style={styles.cardTitle}>{profile.name}</Text>
+                  <Text style={styles.cardSubtitle}>
+                    {PERMISSION_KEYS.filter((permission) => profile.permissions[permission])
+                      .map((permission) => PERMISSION_LABELS[permission])
+                      .join(', ') || 'No permissions'}
+                  </Text>
+                </View>
+              </View>
+            ))}
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E2E8F0',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1E293B',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1E293B',
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#64748B',
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  cardInfo: {
+    flex: 1,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  cardSubtitle: {
+    fontSize: 13,
+    color: '#64748B',
+    marginTop: 2,
+  },
+  dependentCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  permissionRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  permissionText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: '#1F2937',
+    marginBottom: 12,
+  },
+  addButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#5603BD',
+    borderRadius: 12,
+    paddingVertical: 14,
+    marginTop: 12,
+  },
+  addButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,454 @@
+import React, { useContext, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  SafeAreaView,
+  TextInput,
+  Switch,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { router } from 'expo-router';
+import { ArrowLeft, Search, ShieldCheck, ShieldOff, Stethoscope } from 'lucide-react-native';
+import { AuthContext } from '@/contexts/AuthContext';
+import {
+  CONSENT_CATEGORIES,
+  CONSENT_CATEGORY_LABELS,
+  CONSENT_DURATIONS,
+  ConsentCategories,
+  ConsentCategory,
+  ConsentDoctor,
+  DEFAULT_CONSENT_CATEGORIES,
+  DoctorConsent,
+  fetchPatientConsents,
+  grantDoctorAccess,
+  revokeDoctorAccess,
+  searchConsentDoctors,
+  updateConsentCategories,
+} from '@/lib/consents';
+
+export default function ConsentsScreen() {
+  const { activeProfile, activePatientId } = useContext(AuthContext);
+  const [consents, setConsents] = useState<DoctorConsent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<ConsentDoctor[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [selectedDoctor, setSelectedDoctor] = useState<ConsentDoctor | null>(null);
+  const [newCategories, setNewCategories] = useState<ConsentCategories>(DEFAULT_CONSENT_CATEGORIES);
+  const [durationDays, setDurationDays] = useState(CONSENT_DURATIONS[1].days);
+
+  // Consent is the patient's to give; caregivers can see but not change it
+  const canManage = activeProfile?.kind !== 'dependent';
+
+  const loadConsents = async () => {
+    if (!activePatientId) return;
+    setLoading(true);
+    setConsents(await fetchPatientConsents(activePatientId));
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadConsents();
+  }, [activePatientId]);
+
+  const handleSearch = async () => {
+    if (!query.trim()) return;
+    setSearching(true);
+    setSelectedDoctor(null);
+    setResults(await searchConsentDoctors(query));
+    setSearching(false);
+  };
+
+  const handleGrant = async () => {
+    if (!activePatientId || !selectedDoctor) {
+      Alert.alert('Error', 'Please choose a doctor to share your records with');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await grantDoctorAccess(activePatientId, selectedDoctor.id, newCategories, durationDays);
+      setQuery('');
+      setResults([]);
+      setSelectedDoctor(null);
+      setNewCategories(DEFAULT_CONSENT_CATEGORIES);
+      await loadConsents();
+      Alert.alert('Success', `${selectedDoctor.name} can now view the records you chose.`);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to share records');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleCategory = async (consent: DoctorConsent, category: ConsentCategory) => {
+    const categories = { ...consent.categories, [category]: !consent.categories[category] };
+    setConsents((prev) => prev.map((c) => (c.id === consent.id ? { ...c, categories } : c)));
+    try {
+      await updateConsentCategories(consent.id, categories);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to update shared records');
+      await loadConsents();
+    }
+  };
+
+  const handleRevoke = (consent: DoctorConsent) => {
+    Alert.alert(
+      'Revoke Access',
+      `${consent.doctorName} will immediately lose access to your records.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Revoke',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await revokeDoctorAccess(consent.id);
+              await loadConsents();
+            } catch (error: any) {
+              Alert.alert('Error', error.message || 'Failed to revoke access');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <ArrowLeft color="#111827" size={24} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Doctor Access</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Doctors who can currently see records */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Doctors who can see my records</Text>
+          {loading ? (
+            <ActivityIndicator color="#5603BD" />
+          ) : consents.length === 0 ? (
+            <Text style={styles.emptyText}>
+              No doctor can see {activeProfile?.kind === 'self' ? 'your' : `${activeProfile?.name || 'this profile'}'s`} records right now.
+            </Text>
+          ) : (
+            consents.map((consent) => (
+              <View key={consent.id} style={styles.card}>
+                <View style={styles.cardHeader}>
+                  <ShieldCheck color="#059669" size={20} />
+                  <View style={styles.cardInfo}>
+                    <Text style={styles.cardTitle}>{consent.doctorName}</Text>
+                    <Text style={styles.cardSubtitle}>
+                      Until {new Date(consent.expiresAt).toLocaleDateString()}
+                    </Text>
+                  </View>
+                  {canManage && (
+                    <TouchableOpacity style={styles.revokeButton} onPress={() => handleRevoke(consent)}>
+                      <ShieldOff color="#EF4444" size={16} />
+                      <Text style={styles.revokeText}>Revoke</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+                {CONSENT_CATEGORIES.map((category) => (
+                  <View key={category} style={styles.permissionRow}>
+                    <Text style={styles.permissionText}>{CONSENT_CATEGORY_LABELS[category]}</Text>
+                    <Switch
+                      value={consent.categories[category]}
+                      onValueChange={() => handleToggleCategory(consent, category)}
+                      disabled={!canManage}
+                      trackColor={{ false: '#E5E7EB', true: '#5603BD' }}
+                      thumbColor="#FFFFFF"
+                    />
+                  </View>
+                ))}
+              </View>
+            ))
+          )}
+        </View>
+
+        {/* Grant access */}
+        {canManage ? (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Share records with a doctor</Text>
+            <View style={styles.card}>
+              <View style={styles.searchRow}>
+                <TextInput
+                  style={[styles.input, styles.searchInput]}
+                  placeholder="Search doctor by name"
+                  value={query}
+                  onChangeText={setQuery}
+                  onSubmitEditing={handleSearch}
+                  returnKeyType="search"
+                  placeholderTextColor="#9CA3AF"
+                />
+                <TouchableOpacity style={styles.searchButton} onPress={handleSearch} disabled={searching}>
+                  {searching ? <ActivityIndicator color="#FFFFFF" /> : <Search color="#FFFFFF" size={18} />}
+                </TouchableOpacity>
+              </View>
+
+              {results.map((doctor) => (
+                <TouchableOpacity
+                  key={doctor.id}
+                  style={[styles.doctorRow, selectedDoctor?.id === doctor.id && styles.doctorRowActive]}
+                  onPress={() => setSelectedDoctor(doctor)}
+                >
+                  <Stethoscope color={selectedDoctor?.id === doctor.id ? '#5603BD' : '#6B7280'} size={18} />
+                  <View style={styles.cardInfo}>
+                    <Text style={styles.doctorName}>{doctor.name}</Text>
+                    {!!doctor.specialty && <Text style={styles.cardSubtitle}>{doctor.specialty}</Text>}
+                  </View>
+                </TouchableOpacity>
+              ))}
+
+              <Text style={styles.fieldLabel}>What they can see</Text>
+              {CONSENT_CATEGORIES.map((category) => (
+                <View key={category} style={styles.permissionRow}>
+                  <Text style={styles.permissionText}>{CONSENT_CATEGORY_LABELS[category]}</Text>
+                  <Switch
+                    value={newCategories[category]}
+                    onValueChange={(value) => setNewCategories((prev) => ({ ...prev, [category]: value }))}
+                    trackColor={{ false: '#E5E7EB', true: '#5603BD' }}
+                    thumbColor="#FFFFFF"
+                  />
+                </View>
+              ))}
+
+              <Text style={styles.fieldLabel}>For how long</Text>
+              <View style={styles.optionRow}>
+                {CONSENT_DURATIONS.map((option) => (
+                  <TouchableOpacity
+                    key={option.days}
+                    style={[styles.optionChip, durationDays === option.days && styles.optionChipActive]}
+                    onPress={() => setDurationDays(option.days)}
+                  >
+                    <Text style={[styles.optionText, durationDays === option.days && styles.optionTextActive]}>
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <TouchableOpacity style={styles.addButton} onPress={handleGrant} disabled={saving}>
+                {saving ? (
+                  <ActivityIndicator color="#FFFFFF" />
+                ) : (
+                  <>
+                    <ShieldCheck color="#FFFFFF" size={18} />
+                    <Text style={styles.addButtonText}>Share Records</Text>
+                  </>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        ) : (
+          <Text style={styles.noteText}>
+            Only {activeProfile?.name || 'this patient'} can choose which doctors see their records.
+          </Text>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E2E8F0',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1E293B',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1E293B',
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#64748B',
+  },
+  noteText: {
+    fontSize: 13,
+    color: '#94A3B8',
+    marginBottom: 24,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 8,
+  },
+  cardInfo: {
+    flex: 1,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  cardSubtitle: {
+    fontSize: 13,
+    color: '#64748B',
+    marginTop: 2,
+  },
+  revokeButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#FEF2F2',
+  },
+  revokeText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#EF4444',
+  },
+  permissionRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  permissionText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  searchRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: '#1F2937',
+    marginBottom: 12,
+  },
+  searchInput: {
+    flex: 1,
+  },
+  searchButton: {
+    backgroundColor: '#5603BD',
+    borderRadius: 8,
+    paddingHorizontal: 14,
+    justifyContent: 'center',
+    marginBottom: 12,
+  },
+  doctorRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    marginBottom: 8,
+  },
+  doctorRowActive: {
+    borderColor: '#5603BD',
+    backgroundColor: '#F5F3FF',
+  },
+  doctorName: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#1E293B',
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1E293B',
+    marginTop: 12,
+    marginBottom: 4,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 4,
+  },
+  optionChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  optionChipActive: {
+    backgroundColor: '#5603BD',
+    borderColor: '#5603BD',
+  },
+  optionText: {
+    fontSize: 13,
+    color: '#374151',
+  },
+  optionTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  addButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#5603BD',
+    borderRadius: 12,
+    paddingVertical: 14,
+    marginTop: 16,
+  },
+  addButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -7,19 +7,18 @@ import {
   TouchableOpacity,
   SafeAreaView,
   Image,
-  Alert,
   ActivityIndicator,
-  Modal,
-  Dimensions,
 } from 'react-native';
 import { AuthContext } from '@/contexts/AuthContext';
+import ProfileSwitcher from '@/components/ProfileSwitcher';
+import AdherenceCard from '@/components/AdherenceCard';
+import SideMenuBar from './sideMenu';
 import {
   TriangleAlert as AlertTriangle,
   Calendar,
   FileText,
   Download,
   Send,
-  User,
   Clock,
   ChevronRight,
   ChevronDown,
@@ -32,142 +31,22 @@ import {
   Search,
   ArrowLeft,
   Menu,
-  X,
-  Settings,
-  Info,
-  Phone,
-  UserCheck,
 } from 'lucide-react-native';
-import { supabase } from '@/lib/supabase';
+import { Prescription as PrescriptionRecord, fetchPatientPrescriptions } from '@/lib/repositories/prescriptions';
+import { addDays, describeSchedule, formatMedication, parseMedicationText, toDateKey } from '@/lib/medicationSchedule';
+import { DoseLog, fetchDoseLogs } from '@/lib/repositories/doseLogs';
+import { ADHERENCE_PERIODS } from '@/lib/adherence';
 import { useRouter } from 'expo-router';
 
-const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
-
-// Sidebar Component
-interface SideMenuBarProps {
-  isVisible: boolean;
-  onClose: () => void;
-  activeItem: string;
-  setActiveItem: (item: string) => void;
-}
-
-const SideMenuBar: React.FC<SideMenuBarProps> = ({ isVisible, onClose, activeItem, setActiveItem }) => {
-  // Import the router at the component level since it's already imported at the top of your file
-  
-  const menuItems = [
-    { icon: User, label: 'Profile', id: 'profile', route: '/(patient)/profile' },
-    { icon: UserCheck, label: 'Doctors', id: 'doctors', route: '/(patient)/doctors' },
-    { icon: Settings, label: 'Settings', id: 'settings', route: '/(patient)/settings' },
-    { icon: Info, label: 'About Us', id: 'about', route: '/about' },
-    { icon: Phone, label: 'Emergency Contacts', id: 'emergency', route: '/sos' }
-  ];
-
-  // This is the key function that was missing - it actually handles the navigation
-  const handleNavigation = (item: any) => {
-    try {
-      // First, update the active item state to provide immediate visual feedback
-      setActiveItem(item.id);
-      
-      // Then navigate to the new route using the router that's already available in your component
-      router.push(item.route);
-      
-      // Finally, close the sidebar to complete the interaction
-      onClose();
-      
-      // Optional: Log for debugging purposes during development
-      console.log(`Successfully navigated to ${item.label} at route: ${item.route}`);
-      
-    } catch (error) {
-      // Handle navigation errors gracefully
-      console.error(`Navigation failed for ${item.label}:`, error);
-      
-      // You could optionally show an alert to the user here
-      Alert.alert(
-        'Navigation Error', 
-        `Unable to navigate to ${item.label}. Please try again.`,
-        [{ text: 'OK' }]
-      );
-    }
-  };
-
-  return (
-    <Modal
-      visible={isVisible}
-      animationType="slide"
-      transparent={true}
-      onRequestClose={onClose}
-    >
-      <View style={styles.modalOverlay}>
-        <TouchableOpacity style={styles.modalBackdrop} onPress={onClose} />
-        
-        <View style={styles.sidebar}>
-          {/* Header remains the same */}
-          <View style={styles.sidebarHeader}>
-            <Text style={styles.sidebarTitle}>Medical Portal</Text>
-            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
-              <X color="#FFFFFF" size={24} />
-            </TouchableOpacity>
-          </View>
-
-          {/* Updated Menu Items with proper navigation */}
-          <ScrollView style={styles.sidebarMenu}>
-            {menuItems.map((item) => {
-              const IconComponent = item.icon;
-              const isActive = activeItem === item.id;
-              
-              return (
-                <TouchableOpacity
-                  key={item.id}
-                  style={[
-                    styles.menuItem,
-                    isActive && styles.menuItemActive
-                  ]}
-                  // This is the crucial change - replace the console.log with actual navigation
-                  onPress={() => handleNavigation(item)}
-                  // Add some visual feedback when the user taps
-                  activeOpacity={0.7}
-                >
-                  <IconComponent 
-                    color={isActive ? "#FFFFFF" : "#FFFFFF"} 
-                    size={20} 
-                    style={styles.menuIcon}
-                  />
-                  <Text style={[
-                    styles.menuItemText,
-                    isActive && styles.menuItemTextActive
-                  ]}>
-                    {item.label}
-                  </Text>
-                </TouchableOpacity>
-              );
-            })}
-          </ScrollView>
-
-          {/* Footer remains the same */}
-          <View style={styles.sidebarFooter}>
-            <Text style={styles.footerText}>© 2025 Medical Portal</Text>
-          </View>
-        </View>
-      </View>
-    </Modal>
-  );
-};
-
-
 const router = useRouter();
 const handleSOSPress = () => {
   router.push('/sos');
 };
 
-interface Prescription {
-  id: string;
-  doctorName: string;
-  doctorSpecialty: string;
-  date: string;
-  medicines: string[];
-  instructions: string;
-  status: 'active' | 'completed';
-}
+type Prescription = Pick<
+  PrescriptionRecord,
+  'id' | 'doctorName' | 'doctorSpecialty' | 'date' | 'medicines' | 'instructions' | 'status'
+>;
 
 interface SpecialtyContainer {
   specialty: string;
@@ -176,8 +55,8 @@ interface SpecialtyContainer {
   color: string;
 }
 
-// Dummy data for when no prescriptions are fetched
-const dummyPrescriptions: Prescription[] = [
+// Dummy data for when no prescriptions are fetched, written the way doctors write them
+const dummyPrescriptionText: (Omit<Prescription, 'medicines'> & { medicines: string[] })[] = [
   {
     id: '1',
     doctorName: 'Dr. Priya Sharma',
@@ -270,6 +149,11 @@ const dummyPrescriptions: Prescription[] = [
   }
 ];
 
+const dummyPrescriptions: Prescription[] = dummyPrescriptionText.map((prescription) => ({
+  ...prescription,
+  medicines: prescription.medicines.map((line) => parseMedicationText(line, prescription.instructions, prescription.date)),
+}));
+
 // Updated specialty configuration with more specialties and better icons
 const specialtyConfig: { [key: string]: { icon: any, color: string, bgColor: string } } = {
   'Cardiology': { icon: Heart, color: '#EF4444', bgColor: '#FEE2E2' },
@@ -285,41 +169,26 @@ const specialtyConfig: { [key: string]: { icon: any, color: string, bgColor: str
 };
 
 export default function PrescriptionsScreen() {
-  const { user } = useContext(AuthContext);
+  const { user, activePatientId } = useContext(AuthContext);
   const [prescriptions, setPrescriptions] = useState<Prescription[]>([]);
+  // Adherence needs the real prescriptions and dose history, never the sample data
+  const [adherenceData, setAdherenceData] = useState<{ prescriptions: PrescriptionRecord[]; doseLogs: DoseLog[] } | null>(null);
   const [loading, setLoading] = useState(true);
   const [selectedSpecialty, setSelectedSpecialty] = useState<string | null>(null);
   const [sidebarVisible, setSidebarVisible] = useState(false);
   const [activeMenuItem, setActiveMenuItem] = useState('profile');
 
   const fetchPrescriptions = async () => {
-    if (!user) return;
+    if (!activePatientId) return;
 
     try {
-      const { data, error } = await supabase
-        .from('prescriptions')
-        .select(`
-          *,
-          doctors!prescriptions_doctor_id_fkey(specialty, hospital),
-          users!prescriptions_doctor_id_fkey(name, avatar)
-        `)
-        .eq('patient_id', user.id)
-        .order('created_at', { ascending: false });
+      const { data, error } = await fetchPatientPrescriptions(activePatientId);
 
       if (error) {
-        console.error('Error fetching prescriptions:', error);
         setPrescriptions(dummyPrescriptions);
-      } else if (data && data.length > 0) {
-        const mappedPrescriptions: Prescription[] = data.map((pres: any) => ({
-          id: pres.id,
-          doctorName: pres.users?.name || 'Unknown Doctor',
-          doctorSpecialty: pres.doctors?.specialty || 'General',
-          date: pres.created_at,
-          medicines: Array.isArray(pres.medicines) ? pres.medicines : [],
-          instructions: pres.instructions || '',
-          status: pres.status,
-        }));
-        setPrescriptions(mappedPrescriptions);
+      } else if (data.length > 0) {
+        setPrescriptions(data);
+        fetchAdherence(data);
       } else {
         setPrescriptions(dummyPrescriptions);
       }
@@ -331,9 +200,18 @@ export default function PrescriptionsScreen() {
     }
   };
 
+  const fetchAdherence = async (records: PrescriptionRecord[]) => {
+    if (!activePatientId) return;
+    const today = toDateKey();
+    const longestPeriod = ADHERENCE_PERIODS[ADHERENCE_PERIODS.length - 1];
+    const { data, error } = await fetchDoseLogs(activePatientId, addDays(today, 1 - longestPeriod), today);
+    setAdherenceData(error ? null : { prescriptions: records, doseLogs: data });
+  };
+
   useEffect(() => {
+    setAdherenceData(null);
     fetchPrescriptions();
-  }, [user]);
+  }, [activePatientId]);
 
   // Group prescriptions by specialty
   const groupedPrescriptions = React.useMemo(() => {
@@ -482,7 +360,8 @@ export default function PrescriptionsScreen() {
                 <Text style={styles.medicinesTitle}>Medicines:</Text>
                 {prescription.medicines.map((medicine, index) => (
                   <View key={index} style={styles.medicineItem}>
-                    <Text style={styles.medicineText}>• {medicine}</Text>
+                    <Text style={styles.medicineText}>• {formatMedication(medicine)}</Text>
+                    <Text style={styles.medicineSchedule}>{describeSchedule(medicine)}</Text>
                   </View>
                 ))}
               </View>
@@ -529,8 +408,12 @@ export default function PrescriptionsScreen() {
           <AlertTriangle color="#FFFFFF" size={20} />
         </TouchableOpacity>
       </View>
+      <ProfileSwitcher />
 
       <ScrollView style={styles.gridContent} showsVerticalScrollIndicator={false}>
+        {adherenceData && (
+          <AdherenceCard prescriptions={adherenceData.prescriptions} doseLogs={adherenceData.doseLogs} />
+        )}
         <View style={styles.specialtyGrid}>
           {groupedPrescriptions.map((container) => {
             const IconComponent = container.icon;
@@ -571,87 +454,6 @@ const styles = StyleSheet.create({
   },
   
   // Sidebar Styles
-  modalOverlay: {
-    flex: 1,
-    flexDirection: 'row',
-  },
-  modalBackdrop: {
-    flex: 1,
-    backgroundColor: 'rgba(0, 0, 0, 0.5)',
-  },
-  sidebar: {
-    width: screenWidth * 0.8,
-    maxWidth: 280,
-    backgroundColor: 'transparent',
-    elevation: 5,
-    shadowColor: '#000',
-    shadowOffset: { width: 2, height: 0 },
-    shadowOpacity: 0.25,
-    shadowRadius: 5,
-  },
-  sidebarHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    paddingHorizontal: 20,
-    paddingVertical: 20,
-    paddingTop: 50, // Account for status bar
-    borderBottomWidth: 1,
-    borderBottomColor: 'rgba(255, 255, 255, 0.2)',
-    // Apply gradient background
-    backgroundColor: '#00B3FF',
-  },
-  sidebarTitle: {
-    fontSize: 20,
-    fontWeight: '600',
-    color: '#FFFFFF',
-  },
-  closeButton: {
-    padding: 8,
-  },
-  sidebarMenu: {
-    flex: 1,
-    paddingVertical: 20,
-    paddingHorizontal: 15,
-    // Continue gradient background
-    backgroundColor: '#5603BD',
-  },
-  menuItem: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    paddingHorizontal: 15,
-    paddingVertical: 15,
-    borderRadius: 12,
-    marginBottom: 8,
-  },
-  menuItemActive: {
-    backgroundColor: 'rgba(255, 255, 255, 0.2)',
-  },
-  menuIcon: {
-    marginRight: 15,
-  },
-  menuItemText: {
-    fontSize: 16,
-    fontWeight: '500',
-    color: 'rgba(255, 255, 255, 0.8)',
-  },
-  menuItemTextActive: {
-    color: '#FFFFFF',
-  },
-  sidebarFooter: {
-    paddingHorizontal: 20,
-    paddingVertical: 15,
-    borderTopWidth: 1,
-    borderTopColor: 'rgba(255, 255, 255, 0.2)',
-    backgroundColor: '#5603BD',
-  },
-  footerText: {
-    fontSize: 12,
-    color: 'rgba(255, 255, 255, 0.6)',
-    textAlign: 'center',
-  },
-  
-  // Menu Button
   menuButton: {
     padding: 8,
   },
@@ -856,6 +658,11 @@ const styles = StyleSheet.create({
     color: '#4B5563',
     lineHeight: 20,
   },
+  medicineSchedule: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginLeft: 10,
+  },
   instructions: {
     fontSize: 14,
     color: '#6B7280',
@@ -11,9 +11,10 @@ import {
   ActivityIndicator,
 } from 'react-native';
 import { AuthContext } from '@/contexts/AuthContext';
-import { TriangleAlert as AlertTriangle, Download, Phone, MessageCircle, Star, Calendar, MapPin } from 'lucide-react-native';
+import { TriangleAlert as AlertTriangle, Download, Phone, MessageCircle, Star, Calendar, MapPin, BadgeCheck } from 'lucide-react-native';
 import { useRouter } from 'expo-router';
-import { supabase } from '@/lib/supabase';
+import { fetchDoctorDirectory } from '@/lib/repositories/doctors';
+import { createAppointment } from '@/lib/repositories/appointments';
 const router = useRouter();
 const handleSOSPress = () => {
   router.push('/sos');
@@ -29,12 +30,13 @@ interface Doctor {
   avatar: string;
   lastConsulted: string;
   nextAppointment?: string;
+  isVerified: boolean;
 }
 
 
 
 export default function DoctorsScreen() {
-  const { user } = useContext(AuthContext);
+  const { user, activePatientId, hasPermission, recordCaregiverAction } = useContext(AuthContext);
   const [doctors, setDoctors] = useState<Doctor[] | null>(null);
   const [loading, setLoading] = useState(true);
 
@@ -45,32 +47,17 @@ export default function DoctorsScreen() {
       return;
     }
     try {
-      // Fetch doctors joined with users table to get user details
-      const { data, error } = await supabase
-        .from('users')
-        .select('id, name, phone, location, avatar, role')
-        .eq('role', 'doctor')
-        .limit(100);
+      const { data, error } = await fetchDoctorDirectory();
 
       if (error) {
-        console.error('Error fetching doctors:', error);
         Alert.alert('Error', 'Failed to fetch doctors from database.');
         setDoctors([]);
-      } else if (data) {
-        // Map data to Doctor interface
-        const mappedDoctors: Doctor[] = data.map((doc: any) => ({
-          id: doc.id,
-          name: doc.name || 'Unknown',
-          specialty: '', // Specialty not in users table, can be fetched separately if needed
-          hospital: '', // Hospital info can be added if available
-          location: doc.location || '',
-          rating: 0, // Rating can be fetched/calculated separately
-          phone: doc.phone || '',
-          avatar: doc.avatar || '',
+      } else {
+        setDoctors(data.map((doctor) => ({
+          ...doctor,
           lastConsulted: '', // No data in current schema, leave empty or fetch from appointments if needed
           nextAppointment: undefined,
-        }));
-        setDoctors(mappedDoctors);
+        })));
       }
     } catch (error) {
       console.error('Unexpected error fetching doctors:', error);
@@ -105,7 +92,11 @@ export default function DoctorsScreen() {
   };
 
   const handleBookAppointment = async (doctorId: string) => {
-    if (!user) return;
+    if (!activePatientId) return;
+    if (!hasPermission('book_appointments')) {
+      Alert.alert('Not allowed', 'You do not have permission to book appointments for this patient.');
+      return;
+    }
 
     try {
       // Set appointment date to tomorrow at 10 AM
@@ -113,21 +104,17 @@ export default function DoctorsScreen() {
       tomorrow.setDate(tomorrow.getDate() + 1);
       tomorrow.setHours(10, 0, 0, 0);
 
-      const { data, error } = await supabase
-        .from('appointments')
-        .insert({
-          patient_id: user.id,
-          doctor_id: doctorId,
-          appointment_date: tomorrow.toISOString(),
-          status: 'scheduled',
-          symptoms: '',
-          notes: 'Booked via app'
-        });
+      const { data, error } = await createAppointment({
+        patientId: activePatientId,
+        doctorId,
+        appointmentDate: tomorrow.toISOString(),
+        notes: 'Booked via app',
+      });
 
       if (error) {
-        console.error('Error booking appointment:', error);
         Alert.alert('Error', 'Failed to book appointment. Please try again.');
       } else {
+        await recordCaregiverAction('appointment_booked', data.id);
         Alert.alert('Success', 'Appointment booked successfully!');
       }
     } catch (error) {
@@ -180,7 +167,15 @@ export default function DoctorsScreen() {
               <View style={styles.doctorHeader}>
                 <Image source={{ uri: doctor.avatar }} style={styles.doctorAvatar} />
                 <View style={styles.doctorInfo}>
-                  <Text style={styles.doctorName}>{doctor.name}</Text>
+                  <View style={styles.nameRow}>
+                    <Text style={styles.doctorName}>{doctor.name}</Text>
+                    {doctor.isVerified && (
+                      <View style={styles.verifiedBadge}>
+                        <BadgeCheck color="#2563EB" size={14} />
+                        <Text style={styles.verifiedText}>Verified</Text>
+                      </View>
+                    )}
+                  </View>
                   <Text style={styles.doctorSpecialty}>{doctor.specialty}</Text>
 
                   <View style={styles.ratingContainer}>
@@ -328,6 +323,27 @@ const styles = StyleSheet.create({
     color: '#1F2937',
     marginBottom: 4,
   },
+  nameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  verifiedBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    backgroundColor: '#DBEAFE',
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    marginBottom: 4,
+  },
+  verifiedText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#2563EB',
+  },
   doctorSpecialty: {
     fontSize: 14,
     color: '#059669',
@@ -0,0 +1,240 @@
+import React, { useContext, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  SafeAreaView,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { router } from 'expo-router';
+import { ArrowLeft, UserPlus, User, Check } from 'lucide-react-native';
+import { AuthContext } from '@/contexts/AuthContext';
+import { FAMILY_RELATIONSHIPS } from '@/lib/familyProfiles';
+
+export default function FamilyProfilesScreen() {
+  const { profiles, activePatientId, switchProfile, addFamilyProfile } = useContext(AuthContext);
+  const [name, setName] = useState('');
+  const [relationship, setRelationship] = useState(FAMILY_RELATIONSHIPS[0]);
+  const [saving, setSaving] = useState(false);
+
+  const householdProfiles = profiles.filter((profile) => profile.kind !== 'dependent');
+
+  const handleAdd = async () => {
+    if (!name.trim()) {
+      Alert.alert('Error', 'Please enter a name');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const profile = await addFamilyProfile(name.trim(), relationship);
+      setName('');
+      await switchProfile(profile.patientId);
+      // Collect the new member's medical details and emergency contacts
+      router.push({ pathname: '/onboarding', params: { patientId: profile.patientId } });
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to add family member');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <ArrowLeft color="#111827" size={24} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Family Members</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Profiles on this phone</Text>
+          {householdProfiles.map((profile) => {
+            const isActive = profile.patientId === activePatientId;
+            return (
+              <TouchableOpacity
+                key={profile.patientId}
+                style={[styles.card, isActive && styles.cardActive]}
+                onPress={() => switchProfile(profile.patientId)}
+              >
+                <User color="#5603BD" size={20} />
+                <View style={styles.cardInfo}>
+                  <Text style={styles.cardTitle}>{profile.name}</Text>
+                  <Text style={styles.cardSubtitle}>
+                    {profile.kind === 'self' ? 'Account holder' : profile.relationship}
+                  </Text>
+                </View>
+                {isActive && <Check color="#5603BD" size={20} />}
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Add a family member</Text>
+          <View style={styles.formCard}>
+            <TextInput
+              style={styles.input}
+              placeholder="Full Name"
+              value={name}
+              onChangeText={setName}
+              placeholderTextColor="#9CA3AF"
+            />
+            <View style={styles.relationshipRow}>
+              {FAMILY_RELATIONSHIPS.map((option) => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.relationshipChip, relationship === option && styles.relationshipChipActive]}
+                  onPress={() => setRelationship(option)}
+                >
+                  <Text style={[styles.relationshipText, relationship === option && styles.relationshipTextActive]}>
+                    {option}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <TouchableOpacity style={styles.addButton} onPress={handleAdd} disabled={saving}>
+              {saving ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <>
+                  <UserPlus color="#FFFFFF" size={18} />
+                  <Text style={styles.addButtonText}>Add Profile</Text>
+                </>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E2E8F0',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1E293B',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1E293B',
+    marginBottom: 12,
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  cardActive: {
+    borderColor: '#5603BD',
+  },
+  cardInfo: {
+    flex: 1,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  cardSubtitle: {
+    fontSize: 13,
+    color: '#64748B',
+    marginTop: 2,
+  },
+  formCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: '#1F2937',
+    marginBottom: 12,
+  },
+  relationshipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  relationshipChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  relationshipChipActive: {
+    backgroundColor: '#5603BD',
+    borderColor: '#5603BD',
+  },
+  relationshipText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  relationshipTextActive: {
+    color: '#FFFFFF',
+  },
+  addButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#5603BD',
+    borderRadius: 12,
+    paddingVertical: 14,
+    marginTop: 16,
+  },
+  addButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
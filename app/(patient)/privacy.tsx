@@ -0,0 +1,423 @@
+import React, { useContext, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  SafeAreaView,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+  Switch,
+} from 'react-native';
+import { router } from 'expo-router';
+import * as Sharing from 'expo-sharing';
+import { ArrowLeft, Download, FileJson, FileText, Trash2, Undo2 } from 'lucide-react-native';
+import { AuthContext } from '@/contexts/AuthContext';
+import {
+  DELETION_GRACE_DAYS,
+  DeletionRequest,
+  PersonalDataExport,
+  cancelAccountDeletion,
+  exportPersonalData,
+  fetchDeletionRequest,
+  requestAccountDeletion,
+} from '@/lib/personalData';
+import { fetchAiOptOut, updateAiOptOut } from '@/lib/ai';
+
+export default function PrivacyScreen() {
+  const { user, activeProfile, activePatientId } = useContext(AuthContext);
+  const [exporting, setExporting] = useState(false);
+  const [exported, setExported] = useState<PersonalDataExport | null>(null);
+  const [deletionRequest, setDeletionRequest] = useState<DeletionRequest | null>(null);
+  const [loadingDeletion, setLoadingDeletion] = useState(true);
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [aiOptOut, setAiOptOut] = useState<boolean | null>(null);
+
+  // Dependents' data belongs to them; a caregiver can't take it out on their behalf
+  const canExport = activeProfile?.kind !== 'dependent';
+
+  useEffect(() => {
+    const loadDeletionRequest = async () => {
+      if (!user) return;
+      setDeletionRequest(await fetchDeletionRequest(user.id));
+      setLoadingDeletion(false);
+    };
+
+    loadDeletionRequest();
+  }, [user?.id]);
+
+  useEffect(() => {
+    setExported(null);
+    setAiOptOut(null);
+    if (activePatientId) {
+      fetchAiOptOut(activePatientId).then(setAiOptOut);
+    }
+  }, [activePatientId]);
+
+  const handleToggleAi = async (allowAi: boolean) => {
+    if (!activePatientId) return;
+    const previous = aiOptOut;
+    setAiOptOut(!allowAi);
+    try {
+      await updateAiOptOut(activePatientId, !allowAi);
+    } catch (error: any) {
+      setAiOptOut(previous);
+      Alert.alert('Error', error.message || 'Failed to update AI preference');
+    }
+  };
+
+  const handleExport = async () => {
+    if (!activePatientId) return;
+    setExporting(true);
+    try {
+      setExported(await exportPersonalData(activePatientId));
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to export your data');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleShare = async (uri: string, mimeType: string) => {
+    if (!(await Sharing.isAvailableAsync())) {
+      Alert.alert('Saved', `Your file was saved to ${uri}`);
+      return;
+    }
+    await Sharing.shareAsync(uri, { mimeType, dialogTitle: 'Save your JeevanSetu data' });
+  };
+
+  const handleRequestDeletion = () => {
+    if (!user) return;
+    Alert.alert(
+      'Delete Account',
+      `Your account, family profiles and health records will be permanently deleted after ${DELETION_GRACE_DAYS} days. You can cancel any time before then.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            setSubmitting(true);
+            try {
+              const request = await requestAccountDeletion(user.id, reason.trim());
+              setDeletionRequest(request);
+              setReason('');
+              Alert.alert(
+                'Deletion Scheduled',
+                `Your account will be deleted on ${new Date(request.scheduledFor).toLocaleDateString()}.`
+              );
+            } catch (error: any) {
+              Alert.alert('Error', error.message || 'Failed to request account deletion');
+            } finally {
+              setSubmitting(false);
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const handleCancelDeletion = async () => {
+    if (!deletionRequest) return;
+    setSubmitting(true);
+    try {
+      await cancelAccountDeletion(deletionRequest.id);
+      setDeletionRequest(null);
+      Alert.alert('Deletion Cancelled', 'Your account will not be deleted.');
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to cancel account deletion');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <ArrowLeft color="#111827" size={24} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Privacy & Data</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {/* AI processing */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>AI processing</Text>
+          <View style={styles.card}>
+            <Text style={styles.cardText}>
+              Reading device photos, working out medicine schedules and the Sahayata assistant use an AI model.
+              Names, phone numbers, addresses and ID numbers are removed from text before it is sent. Turn this off
+              to keep {activeProfile?.name ? `${activeProfile.name}'s` : 'your'} data away from AI entirely: readings
+              are then entered by hand and schedules are worked out on the device.
+            </Text>
+            {aiOptOut === null ? (
+              <ActivityIndicator color="#5603BD" />
+            ) : (
+              <View style={styles.switchRow}>
+                <Text style={styles.switchLabel}>Allow AI processing</Text>
+                <Switch
+                  value={!aiOptOut}
+                  onValueChange={handleToggleAi}
+                  disabled={!canExport}
+                  trackColor={{ false: '#E2E8F0', true: '#C4B5FD' }}
+                  thumbColor={!aiOptOut ? '#5603BD' : '#F8FAFC'}
+                />
+              </View>
+            )}
+            {!canExport && (
+              <Text style={styles.noteText}>Only {activeProfile?.name || 'this patient'} can change this from their own account.</Text>
+            )}
+          </View>
+        </View>
+
+        {/* Data portability */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Download my data</Text>
+          <View style={styles.card}>
+            <Text style={styles.cardText}>
+              Get a copy of everything JeevanSetu holds for {activeProfile?.name || 'you'}: profile, health
+              readings, prescriptions, appointments, assistant conversations, SOS alerts and reports. You&apos;ll
+              receive a JSON file you can take to another provider and a PDF you can read.
+            </Text>
+            {!canExport ? (
+              <Text style={styles.noteText}>
+                Switch to your own profile to download data. Dependents can download their data from their own account.
+              </Text>
+            ) : (
+              <TouchableOpacity style={styles.primaryButton} onPress={handleExport} disabled={exporting}>
+                {exporting ? (
+                  <ActivityIndicator color="#FFFFFF" />
+                ) : (
+                  <>
+                    <Download color="#FFFFFF" size={18} />
+                    <Text style={styles.primaryButtonText}>Prepare Download</Text>
+                  </>
+                )}
+              </TouchableOpacity>
+            )}
+
+            {exported && (
+              <View style={styles.fileRow}>
+                <TouchableOpacity style={styles.fileButton} onPress={() => handleShare(exported.jsonUri, 'application/json')}>
+                  <FileJson color="#5603BD" size={20} />
+                  <Text style={styles.fileButtonText}>Data (JSON)</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.fileButton} onPress={() => handleShare(exported.pdfUri, 'application/pdf')}>
+                  <FileText color="#5603BD" size={20} />
+                  <Text style={styles.fileButtonText}>Summary (PDF)</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </View>
+        </View>
+
+        {/* Right to erasure */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Delete my account</Text>
+          <View style={styles.card}>
+            {loadingDeletion ? (
+              <ActivityIndicator color="#5603BD" />
+            ) : deletionRequest ? (
+              <>
+                <Text style={styles.cardText}>
+                  Your account is scheduled for deletion on{' '}
+                  <Text style={styles.bold}>{new Date(deletionRequest.scheduledFor).toLocaleDateString()}</Text>.
+                  Appointments and prescriptions stay with your doctors as anonymised clinical records;
+                  everything else is removed.
+                </Text>
+                <TouchableOpacity style={styles.secondaryButton} onPress={handleCancelDeletion} disabled={submitting}>
+                  <Undo2 color="#5603BD" size={18} />
+                  <Text style={styles.secondaryButtonText}>Keep My Account</Text>
+                </TouchableOpacity>
+              </>
+            ) : (
+              <>
+                <Text style={styles.cardText}>
+                  Deleting your account removes your profile, family profiles, health readings, conversations,
+                  SOS alerts and reports after a {DELETION_GRACE_DAYS}-day grace period. Download your data first
+                  if you want to keep it.
+                </Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="Why are you leaving? (optional)"
+                  value={reason}
+                  onChangeText={setReason}
+                  multiline
+                  placeholderTextColor="#9CA3AF"
+                />
+                <TouchableOpacity style={styles.deleteButton} onPress={handleRequestDeletion} disabled={submitting}>
+                  {submitting ? (
+                    <ActivityIndicator color="#EF4444" />
+                  ) : (
+                    <>
+                      <Trash2 color="#EF4444" size={18} />
+                      <Text style={styles.deleteButtonText}>Delete Account</Text>
+                    </>
+                  )}
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E2E8F0',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1E293B',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1E293B',
+    marginBottom: 12,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  cardText: {
+    fontSize: 14,
+    color: '#475569',
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  switchLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  noteText: {
+    fontSize: 13,
+    color: '#94A3B8',
+  },
+  bold: {
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#5603BD',
+    borderRadius: 12,
+    paddingVertical: 14,
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  fileRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 12,
+  },
+  fileButton: {
+    flex: 1,
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    borderWidth: 1,
+    borderColor: '#DDD6FE',
+    backgroundColor: '#F5F3FF',
+    borderRadius: 12,
+    paddingVertical: 12,
+  },
+  fileButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#5603BD',
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    borderWidth: 1,
+    borderColor: '#5603BD',
+    borderRadius: 12,
+    paddingVertical: 14,
+  },
+  secondaryButtonText: {
+    color: '#5603BD',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: '#1F2937',
+    minHeight: 60,
+    textAlignVertical: 'top',
+    marginBottom: 16,
+  },
+  deleteButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#FEF2F2',
+    borderRadius: 12,
+    paddingVertical: 14,
+  },
+  deleteButtonText: {
+    color: '#EF4444',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
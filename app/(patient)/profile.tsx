@@ -14,8 +14,13 @@ import {
 } from 'react-native';
 import { router } from 'expo-router';
 import { AuthContext } from '@/contexts/AuthContext';
-import { supabase } from '@/lib/supabase';
-import { TriangleAlert as AlertTriangle, Calendar, User, Settings, Moon, Globe, Circle as HelpCircle, LogOut, ChevronRight, CreditCard as Edit, Mail, Phone, MapPin, Stethoscope, Save, X, Shield, Pencil } from 'lucide-react-native';
+import AccountSecuritySection from '@/components/AccountSecuritySection';
+import AppLockSection from '@/components/AppLockSection';
+import { createPatient, fetchPatients, updatePatient } from '@/lib/repositories/patients';
+import { fetchUser, updateUser } from '@/lib/repositories/users';
+import { PatientRow, UserRow } from '@/lib/repositories/types';
+import { EmergencyContact } from '@/lib/missedDoseAlerts';
+import { TriangleAlert as AlertTriangle, Calendar, User, Settings, Moon, Globe, Circle as HelpCircle, LogOut, ChevronRight, CreditCard as Edit, Mail, Phone, MapPin, Stethoscope, Save, X, Shield, Pencil, Users, Lock, History } from 'lucide-react-native';
 import { Accelerometer } from 'expo-sensors';
 import * as Haptics from 'expo-haptics';
 // @ts-ignore
@@ -26,18 +31,11 @@ const handleSOSPress = () => {
   router.push('/sos');
 };
 
-interface EmergencyContact {
-  id: string;
-  name: string;
-  relationship: string;
-  phone: string;
-}
-
 export default function ProfileScreen() {
-  const { user, logout } = useContext(AuthContext);
+  const { user, logout, activePatientId } = useContext(AuthContext);
   const [darkMode, setDarkMode] = useState(false);
-  const [profileData, setProfileData] = useState<any>(null);
-  const [patientData, setPatientData] = useState<any>(null);
+  const [profileData, setProfileData] = useState<UserRow | null>(null);
+  const [patientData, setPatientData] = useState<PatientRow | null>(null);
   const [loading, setLoading] = useState(true);
   const [editModalVisible, setEditModalVisible] = useState(false);
   const [editingField, setEditingField] = useState<string>('');
@@ -53,7 +51,7 @@ export default function ProfileScreen() {
 
   useEffect(() => {
     fetchProfileData();
-  }, [user]);
+  }, [activePatientId]);
 
   useEffect(() => {
     if (fallDetectionEnabled) {
@@ -113,7 +111,7 @@ export default function ProfileScreen() {
 
       if (isAvailable && emergencyContacts.length > 0) {
         // Prepare SMS message
-        const message = `EMERGENCY ALERT: ${user?.name} has fallen and needs immediate assistance. Location: ${profileData?.location || 'Unknown'}. Please respond urgently.`;
+        const message = `EMERGENCY ALERT: ${profileData?.name || user?.name} has fallen and needs immediate assistance. Location: ${profileData?.location || 'Unknown'}. Please respond urgently.`;
 
         // Get phone numbers from emergency contacts
         const recipients = emergencyContacts
@@ -251,49 +249,27 @@ export default function ProfileScreen() {
   };
 
   const fetchProfileData = async () => {
-    if (!user?.id) return;
+    if (!activePatientId) return;
 
     try {
       setLoading(true);
 
-      // Fetch user data
-      const { data: userData, error: userError } = await supabase
-        .from('users')
-        .select('*')
-        .eq('id', user.id)
-        .single();
+      const { data: userData, error: userError } = await fetchUser(activePatientId);
 
       if (userError) throw userError;
 
       // Fetch patient data if user is patient
-      if (user.role === 'patient') {
-        console.log('Fetching patient data for user:', user.id);
-        const { data: patientInfo, error: patientError } = await supabase
-          .from('patients')
-          .select('*')
-          .eq('id', user.id);
-
-        console.log('Patient data response:', { data: patientInfo, error: patientError });
-
-        if (patientError) {
-          console.error('Error fetching patient data:', patientError);
-        } else if (patientInfo && patientInfo.length > 0) {
-          console.log('Patient data found:', patientInfo[0]);
+      if (user?.role === 'patient') {
+        const { data: patientInfo } = await fetchPatients([activePatientId]);
+
+        if (patientInfo && patientInfo.length > 0) {
           setPatientData(patientInfo[0]);
-          setEmergencyContacts(patientInfo[0].emergency_contacts || []);
-        } else {
-          console.log('No patient record found, creating one...');
+          setEmergencyContacts((patientInfo[0].emergency_contacts ?? []) as EmergencyContact[]);
+        } else if (patientInfo) {
           // Patient record doesn't exist, create one
-          const { data: newPatient, error: createError } = await supabase
-            .from('patients')
-            .insert([{ id: user.id }])
-            .select()
-            .single();
-
-          if (createError) {
-            console.error('Error creating patient record:', createError);
-          } else {
-            console.log('New patient record created:', newPatient);
+          const { data: newPatient } = await createPatient(activePatientId);
+
+          if (newPatient) {
             setPatientData(newPatient);
             setEmergencyContacts([]);
           }
@@ -309,7 +285,7 @@ export default function ProfileScreen() {
     }
   };
 
-  const calculateAge = (dob: string) => {
+  const calculateAge = (dob: string | null | undefined) => {
     if (!dob) return 'N/A';
     const birthDate = new Date(dob);
     const today = new Date();
@@ -347,41 +323,19 @@ export default function ProfileScreen() {
   };
 
   const saveField = async () => {
-    if (!user?.id) return;
+    if (!activePatientId) return;
 
     try {
-      if (editingField === 'blood_grp') {
-        const { error } = await supabase
-          .from('patients')
-          .update({ blood_grp: editValue })
-          .eq('id', user.id);
-
-        if (error) throw error;
-        setPatientData({ ...patientData, blood_grp: editValue });
-      } else if (editingField === 'dob') {
-        const { error } = await supabase
-          .from('patients')
-          .update({ dob: editValue })
-          .eq('id', user.id);
-
-        if (error) throw error;
-        setPatientData({ ...patientData, dob: editValue });
-      } else if (editingField === 'phone') {
-        const { error } = await supabase
-          .from('users')
-          .update({ phone: editValue })
-          .eq('id', user.id);
+      if (editingField === 'blood_grp' || editingField === 'dob') {
+        const { error } = await updatePatient(activePatientId, { [editingField]: editValue });
 
         if (error) throw error;
-        setProfileData({ ...profileData, phone: editValue });
-      } else if (editingField === 'location') {
-        const { error } = await supabase
-          .from('users')
-          .update({ location: editValue })
-          .eq('id', user.id);
+        setPatientData((current) => current && { ...current, [editingField]: editValue });
+      } else if (editingField === 'phone' || editingField === 'location') {
+        const { error } = await updateUser(activePatientId, { [editingField]: editValue });
 
         if (error) throw error;
-        setProfileData({ ...profileData, location: editValue });
+        setProfileData((current) => current && { ...current, [editingField]: editValue });
       }
 
       setEditModalVisible(false);
@@ -401,22 +355,13 @@ export default function ProfileScreen() {
   };
 
   const saveEmergencyContacts = async (contacts: EmergencyContact[]) => {
-    if (!user?.id) return;
+    if (!activePatientId) return;
 
     try {
-      console.log('Saving emergency contacts:', contacts);
-      const { data, error } = await supabase
-        .from('patients')
-        .update({ emergency_contacts: contacts })
-        .eq('id', user.id)
-        .select();
-
-      if (error) {
-        console.error('Supabase error:', error);
-        throw error;
-      }
+      const { error } = await updatePatient(activePatientId, { emergency_contacts: contacts });
+
+      if (error) throw error;
 
-      console.log('Emergency contacts saved successfully:', data);
       setEmergencyContacts(contacts);
       Alert.alert('Success', 'Emergency contacts updated successfully');
     } catch (error) {
@@ -471,13 +416,13 @@ export default function ProfileScreen() {
         {/* Profile Info */}
         <View style={styles.profileSection}>
           <View style={styles.profileHeader}>
-            <Image source={{ uri: profileData.avatar }} style={styles.profileAvatar} />
+            <Image source={{ uri: profileData.avatar ?? undefined }} style={styles.profileAvatar} />
             {/* <TouchableOpacity style={styles.editButton}>
               <Edit color="#FFFFFF" size={16} />
             </TouchableOpacity> */}
           </View>
           
-          <Text style={styles.profileName}>{user?.name}</Text>
+          <Text style={styles.profileName}>{profileData?.name || user?.name}</Text>
           {isDoctorInterface ? (
             <View style={styles.doctorInfo}>
               <View style={styles.doctorBadge}>
@@ -612,6 +557,30 @@ export default function ProfileScreen() {
             </Modal>
           )}
           
+          <TouchableOpacity style={styles.settingItem} onPress={() => router.push('/caregivers')}>
+            <Users color="#6B7280" size={20} />
+            <Text style={styles.settingText}>Caregivers</Text>
+            <ChevronRight color="#9CA3AF" size={16} />
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.settingItem} onPress={() => router.push('/consents')}>
+            <Stethoscope color="#6B7280" size={20} />
+            <Text style={styles.settingText}>Doctor Access</Text>
+            <ChevronRight color="#9CA3AF" size={16} />
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.settingItem} onPress={() => router.push('/access-history')}>
+            <History color="#6B7280" size={20} />
+            <Text style={styles.settingText}>Access History</Text>
+            <ChevronRight color="#9CA3AF" size={16} />
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.settingItem} onPress={() => router.push('/privacy')}>
+            <Lock color="#6B7280" size={20} />
+            <Text style={styles.settingText}>Privacy & Data</Text>
+            <ChevronRight color="#9CA3AF" size={16} />
+          </TouchableOpacity>
+
           <TouchableOpacity style={styles.settingItem}>
             <Globe color="#6B7280" size={20} />
             <Text style={styles.settingText}>Language</Text>
@@ -634,6 +603,10 @@ export default function ProfileScreen() {
           </TouchableOpacity>
         </View>
 
+        <AppLockSection />
+
+        <AccountSecuritySection />
+
         {/* Logout */}
         <View style={styles.section}>
           <TouchableOpacity style={styles.logoutButton} onPress={handleLogout}>
@@ -750,6 +723,19 @@ export default function ProfileScreen() {
                       }}
                       keyboardType="phone-pad"
                     />
+                    <View style={styles.missedDoseToggle}>
+                      <Text style={styles.missedDoseToggleText}>Text about missed critical medicines</Text>
+                      <Switch
+                        value={!!contact.notifyMissedDoses}
+                        onValueChange={(value) => {
+                          const updatedContacts = [...emergencyContacts];
+                          updatedContacts[index].notifyMissedDoses = value;
+                          setEmergencyContacts(updatedContacts);
+                        }}
+                        trackColor={{ false: '#D1D5DB', true: '#FECACA' }}
+                        thumbColor={contact.notifyMissedDoses ? '#EF4444' : '#F9FAFB'}
+                      />
+                    </View>
                   </View>
                   <TouchableOpacity
                     style={styles.removeContactButton}
@@ -1126,6 +1112,17 @@ const styles = StyleSheet.create({
   emergencyContactInfo: {
     flex: 1,
   },
+  missedDoseToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  missedDoseToggleText: {
+    fontSize: 13,
+    color: '#374151',
+    flex: 1,
+  },
   emergencyContactRelationship: {
     fontSize: 12,
     color: '#6B7280',
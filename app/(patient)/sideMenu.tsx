@@ -1,5 +1,5 @@
 // Updated SideMenuBar Component with proper React Native navigation
-import React from 'react';
+import React, { useContext } from 'react';
 import {
   View,
   Text,
@@ -13,11 +13,14 @@ import { useRouter, usePathname } from 'expo-router';
 import {
   User,
   UserCheck,
+  Users,
   Settings,
   Info,
   Phone,
   X,
+  Check,
 } from 'lucide-react-native'; // Important: Use lucide-react-native, not lucide-react
+import { AuthContext } from '@/contexts/AuthContext';
 
 const { width: screenWidth } = Dimensions.get('window');
 
@@ -43,6 +46,7 @@ const SideMenuBar: React.FC<SideMenuBarProps> = ({
 }) => {
   const router = useRouter();
   const pathname = usePathname();
+  const { profiles, activePatientId, switchProfile } = useContext(AuthContext);
 
   // Define menu items with correct route paths for your app structure
   const menuItems: MenuItem[] = [
@@ -52,6 +56,12 @@ const SideMenuBar: React.FC<SideMenuBarProps> = ({
       id: 'profile', 
       route: '/(patient)/profile' 
     },
+    { 
+      icon: Users, 
+      label: 'Family Members', 
+      id: 'family', 
+      route: '/(patient)/family' 
+    },
     { 
       icon: UserCheck, 
       label: 'Doctors', 
@@ -94,6 +104,12 @@ const SideMenuBar: React.FC<SideMenuBarProps> = ({
     }
   };
 
+  // Switching re-scopes every patient screen to the selected profile
+  const handleSwitchProfile = async (patientId: string) => {
+    await switchProfile(patientId);
+    onClose();
+  };
+
   return (
     <Modal
       visible={isVisible}
@@ -123,6 +139,33 @@ const SideMenuBar: React.FC<SideMenuBarProps> = ({
 
           {/* Menu Items */}
           <ScrollView style={styles.sidebarMenu}>
+            {profiles.length > 1 && (
+              <View style={styles.profileSection}>
+                <Text style={styles.profileSectionTitle}>Viewing profile</Text>
+                {profiles.map((profile) => {
+                  const isSelected = profile.patientId === activePatientId;
+                  return (
+                    <TouchableOpacity
+                      key={profile.patientId}
+                      style={[styles.profileItem, isSelected && styles.menuItemActive]}
+                      onPress={() => handleSwitchProfile(profile.patientId)}
+                      activeOpacity={0.7}
+                    >
+                      <View style={styles.profileInfo}>
+                        <Text style={[styles.menuItemText, isSelected && styles.menuItemTextActive]}>
+                          {profile.kind === 'self' ? `${profile.name} (Me)` : profile.name}
+                        </Text>
+                        {profile.relationship ? (
+                          <Text style={styles.profileRelationship}>{profile.relationship}</Text>
+                        ) : null}
+                      </View>
+                      {isSelected && <Check color="#FFFFFF" size={18} />}
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            )}
+
             {menuItems.map((item) => {
               const IconComponent = item.icon;
               // Check if current route matches this menu item
@@ -218,6 +261,37 @@ const styles = StyleSheet.create({
     borderRadius: 12,
     marginBottom: 8,
   },
+  profileSection: {
+    paddingBottom: 12,
+    marginBottom: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  profileSectionTitle: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: 'rgba(255, 255, 255, 0.6)',
+    textTransform: 'uppercase',
+    marginBottom: 8,
+    paddingHorizontal: 15,
+  },
+  profileItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 15,
+    paddingVertical: 12,
+    borderRadius: 12,
+    marginBottom: 4,
+  },
+  profileInfo: {
+    flex: 1,
+  },
+  profileRelationship: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.6)',
+    marginLeft: 15,
+    marginTop: 2,
+  },
   menuItemActive: {
     backgroundColor: 'rgba(255, 255, 255, 0.2)',
   },
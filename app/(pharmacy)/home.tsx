@@ -0,0 +1,240 @@
+import React, { useCallback, useContext, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  SafeAreaView,
+  RefreshControl,
+} from 'react-native';
+import { router, useFocusEffect } from 'expo-router';
+import { ShoppingBag, Package, TriangleAlert as AlertTriangle, ChevronRight } from 'lucide-react-native';
+import { AuthContext } from '@/contexts/AuthContext';
+import {
+  InventoryItem,
+  ORDER_STATUS_COLORS,
+  PharmacyOrder,
+  fetchInventory,
+  fetchPharmacyOrders,
+  isLowStock,
+} from '@/lib/pharmacy';
+
+export default function PharmacyHomeScreen() {
+  const { user } = useContext(AuthContext);
+  const [openOrders, setOpenOrders] = useState<PharmacyOrder[]>([]);
+  const [inventory, setInventory] = useState<InventoryItem[]>([]);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadDashboard = async () => {
+    if (!user) return;
+    const [orders, items] = await Promise.all([
+      fetchPharmacyOrders(user.id, ['pending', 'accepted', 'ready']),
+      fetchInventory(user.id),
+    ]);
+    setOpenOrders(orders);
+    setInventory(items);
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadDashboard();
+    }, [user?.id])
+  );
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadDashboard();
+    setRefreshing(false);
+  };
+
+  const pendingCount = openOrders.filter((order) => order.status === 'pending').length;
+  const lowStockItems = inventory.filter(isLowStock);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <View>
+          <Text style={styles.headerTitle}>Welcome, {user?.name}</Text>
+          <Text style={styles.headerSubtitle}>{new Date().toLocaleDateString()}</Text>
+        </View>
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        showsVerticalScrollIndicator={false}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+      >
+        <View style={styles.statsRow}>
+          <TouchableOpacity style={styles.statCard} onPress={() => router.push('/(pharmacy)/orders')}>
+            <ShoppingBag color="#F59E0B" size={24} />
+            <Text style={styles.statValue}>{pendingCount}</Text>
+            <Text style={styles.statLabel}>New Orders</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.statCard} onPress={() => router.push('/(pharmacy)/inventory')}>
+            <Package color="#059669" size={24} />
+            <Text style={styles.statValue}>{inventory.length}</Text>
+            <Text style={styles.statLabel}>Medicines</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.statCard} onPress={() => router.push('/(pharmacy)/inventory')}>
+            <AlertTriangle color="#EF4444" size={24} />
+            <Text style={styles.statValue}>{lowStockItems.length}</Text>
+            <Text style={styles.statLabel}>Low Stock</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Open Orders</Text>
+            <TouchableOpacity onPress={() => router.push('/(pharmacy)/orders')}>
+              <ChevronRight color="#64748B" size={20} />
+            </TouchableOpacity>
+          </View>
+          {openOrders.length > 0 ? (
+            openOrders.slice(0, 5).map((order) => (
+              <View key={order.id} style={styles.card}>
+                <View style={styles.cardInfo}>
+                  <Text style={styles.cardTitle}>{order.patientName}</Text>
+                  <Text style={styles.cardSubtitle}>
+                    {order.items.length} item{order.items.length === 1 ? '' : 's'} • {new Date(order.createdAt).toLocaleTimeString()}
+                  </Text>
+                </View>
+                <View style={[styles.statusBadge, { backgroundColor: ORDER_STATUS_COLORS[order.status] }]}>
+                  <Text style={styles.statusText}>{order.status.toUpperCase()}</Text>
+                </View>
+              </View>
+            ))
+          ) : (
+            <Text style={styles.emptyText}>No open orders</Text>
+          )}
+        </View>
+
+        {lowStockItems.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Running Low</Text>
+            {lowStockItems.map((item) => (
+              <View key={item.id} style={styles.card}>
+                <View style={styles.cardInfo}>
+                  <Text style={styles.cardTitle}>{item.medicineName}</Text>
+                  <Text style={styles.cardSubtitle}>{item.strength}</Text>
+                </View>
+                <Text style={styles.lowStockText}>{item.stock} left</Text>
+              </View>
+            ))}
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  header: {
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E2E8F0',
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#1E293B',
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#64748B',
+    marginTop: 2,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 24,
+  },
+  statCard: {
+    flex: 1,
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    paddingVertical: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  statValue: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#1E293B',
+    marginTop: 8,
+  },
+  statLabel: {
+    fontSize: 12,
+    color: '#64748B',
+    marginTop: 2,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1E293B',
+    marginBottom: 12,
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 10,
+  },
+  cardInfo: {
+    flex: 1,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  cardSubtitle: {
+    fontSize: 13,
+    color: '#64748B',
+    marginTop: 2,
+  },
+  statusBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  statusText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  lowStockText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#EF4444',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#64748B',
+  },
+});
@@ -0,0 +1,399 @@
+import React, { useContext, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  SafeAreaView,
+  TextInput,
+  Modal,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { Plus, Minus, Search, Trash2, X } from 'lucide-react-native';
+import { AuthContext } from '@/contexts/AuthContext';
+import {
+  InventoryItem,
+  addInventoryItem,
+  deleteInventoryItem,
+  fetchInventory,
+  isLowStock,
+  updateInventoryStock,
+} from '@/lib/pharmacy';
+
+const EMPTY_FORM = { medicineName: '', strength: '', stock: '', price: '', lowStockThreshold: '10' };
+
+export default function PharmacyInventoryScreen() {
+  const { user } = useContext(AuthContext);
+  const [items, setItems] = useState<InventoryItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [showAddModal, setShowAddModal] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  const loadInventory = async () => {
+    if (!user) return;
+    setItems(await fetchInventory(user.id));
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadInventory();
+  }, [user?.id]);
+
+  const handleAdjustStock = async (item: InventoryItem, delta: number) => {
+    const stock = Math.max(0, item.stock + delta);
+    setItems((prev) => prev.map((i) => (i.id === item.id ? { ...i, stock } : i)));
+    try {
+      await updateInventoryStock(item.id, stock);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to update stock');
+      await loadInventory();
+    }
+  };
+
+  const handleDelete = (item: InventoryItem) => {
+    Alert.alert('Remove Medicine', `Remove ${item.medicineName} from inventory?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteInventoryItem(item.id);
+            await loadInventory();
+          } catch (error: any) {
+            Alert.alert('Error', error.message || 'Failed to remove medicine');
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleAdd = async () => {
+    if (!user) return;
+    const stock = parseInt(form.stock, 10);
+    const price = parseFloat(form.price);
+    const lowStockThreshold = parseInt(form.lowStockThreshold, 10);
+    if (!form.medicineName.trim() || isNaN(stock) || isNaN(price)) {
+      Alert.alert('Error', 'Please enter the medicine name, stock and price');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await addInventoryItem(user.id, {
+        medicineName: form.medicineName.trim(),
+        strength: form.strength.trim(),
+        stock,
+        price,
+        lowStockThreshold: isNaN(lowStockThreshold) ? 10 : lowStockThreshold,
+      });
+      setForm(EMPTY_FORM);
+      setShowAddModal(false);
+      await loadInventory();
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to add medicine');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const filteredItems = items.filter((item) =>
+    item.medicineName.toLowerCase().includes(searchQuery.toLowerCase())
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Inventory</Text>
+        <TouchableOpacity style={styles.addButton} onPress={() => setShowAddModal(true)}>
+          <Plus color="#FFFFFF" size={24} />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.searchContainer}>
+        <Search color="#9CA3AF" size={18} />
+        <TextInput
+          style={styles.searchInput}
+          placeholder="Search medicines"
+          value={searchQuery}
+          onChangeText={setSearchQuery}
+          placeholderTextColor="#9CA3AF"
+        />
+      </View>
+
+      {loading ? (
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color="#059669" />
+        </View>
+      ) : (
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          {filteredItems.length === 0 && (
+            <Text style={styles.emptyText}>No medicines in inventory</Text>
+          )}
+          {filteredItems.map((item) => (
+            <View key={item.id} style={[styles.card, isLowStock(item) && styles.lowStockCard]}>
+              <View style={styles.cardInfo}>
+                <Text style={styles.cardTitle}>{item.medicineName}</Text>
+                <Text style={styles.cardSubtitle}>
+                  {item.strength ? `${item.strength} • ` : ''}₹{item.price}
+                </Text>
+                {isLowStock(item) && <Text style={styles.lowStockText}>Low stock</Text>}
+              </View>
+              <View style={styles.stockControls}>
+                <TouchableOpacity style={styles.stockButton} onPress={() => handleAdjustStock(item, -1)}>
+                  <Minus color="#374151" size={16} />
+                </TouchableOpacity>
+                <Text style={styles.stockValue}>{item.stock}</Text>
+                <TouchableOpacity style={styles.stockButton} onPress={() => handleAdjustStock(item, 1)}>
+                  <Plus color="#374151" size={16} />
+                </TouchableOpacity>
+              </View>
+              <TouchableOpacity style={styles.deleteButton} onPress={() => handleDelete(item)}>
+                <Trash2 color="#EF4444" size={18} />
+              </TouchableOpacity>
+            </View>
+          ))}
+        </ScrollView>
+      )}
+
+      <Modal
+        visible={showAddModal}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setShowAddModal(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Add Medicine</Text>
+              <TouchableOpacity onPress={() => setShowAddModal(false)}>
+                <X color="#6B7280" size={24} />
+              </TouchableOpacity>
+            </View>
+            <TextInput
+              style={styles.input}
+              placeholder="Medicine name"
+              value={form.medicineName}
+              onChangeText={(value) => setForm({ ...form, medicineName: value })}
+              placeholderTextColor="#9CA3AF"
+            />
+            <TextInput
+              style={styles.input}
+              placeholder="Strength (e.g. 500mg)"
+              value={form.strength}
+              onChangeText={(value) => setForm({ ...form, strength: value })}
+              placeholderTextColor="#9CA3AF"
+            />
+            <View style={styles.inputRow}>
+              <TextInput
+                style={[styles.input, styles.inputHalf]}
+                placeholder="Stock"
+                value={form.stock}
+                onChangeText={(value) => setForm({ ...form, stock: value })}
+                keyboardType="number-pad"
+                placeholderTextColor="#9CA3AF"
+              />
+              <TextInput
+                style={[styles.input, styles.inputHalf]}
+                placeholder="Price (₹)"
+                value={form.price}
+                onChangeText={(value) => setForm({ ...form, price: value })}
+                keyboardType="decimal-pad"
+                placeholderTextColor="#9CA3AF"
+              />
+            </View>
+            <TextInput
+              style={styles.input}
+              placeholder="Low stock alert at"
+              value={form.lowStockThreshold}
+              onChangeText={(value) => setForm({ ...form, lowStockThreshold: value })}
+              keyboardType="number-pad"
+              placeholderTextColor="#9CA3AF"
+            />
+            <TouchableOpacity style={styles.saveButton} onPress={handleAdd} disabled={saving}>
+              {saving ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <Text style={styles.saveButtonText}>Add to Inventory</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E2E8F0',
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#1E293B',
+  },
+  addButton: {
+    backgroundColor: '#059669',
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#FFFFFF',
+    marginHorizontal: 20,
+    marginVertical: 12,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: '#1F2937',
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#64748B',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 10,
+    borderLeftWidth: 4,
+    borderLeftColor: '#059669',
+  },
+  lowStockCard: {
+    borderLeftColor: '#EF4444',
+  },
+  cardInfo: {
+    flex: 1,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  cardSubtitle: {
+    fontSize: 13,
+    color: '#64748B',
+    marginTop: 2,
+  },
+  lowStockText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#EF4444',
+    marginTop: 4,
+  },
+  stockControls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  stockButton: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: '#F1F5F9',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stockValue: {
+    minWidth: 32,
+    textAlign: 'center',
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  deleteButton: {
+    marginLeft: 12,
+    padding: 4,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#FFFFFF',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1E293B',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: '#1F2937',
+    marginBottom: 12,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  inputHalf: {
+    flex: 1,
+  },
+  saveButton: {
+    backgroundColor: '#059669',
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  saveButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,353 @@
+import React, { useCallback, useContext, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  SafeAreaView,
+  Alert,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { useFocusEffect } from 'expo-router';
+import { Pill, Clock, Phone } from 'lucide-react-native';
+import { AuthContext } from '@/contexts/AuthContext';
+import {
+  NEXT_ORDER_STATUSES,
+  ORDER_STATUS_COLORS,
+  OrderStatus,
+  PharmacyOrder,
+  fetchPharmacyOrders,
+  updateOrderStatus,
+} from '@/lib/pharmacy';
+
+type OrderFilter = 'open' | 'completed' | 'rejected';
+
+const FILTER_STATUSES: Record<OrderFilter, OrderStatus[]> = {
+  open: ['pending', 'accepted', 'ready'],
+  completed: ['completed'],
+  rejected: ['rejected'],
+};
+
+const STATUS_ACTION_LABELS: Record<OrderStatus, string> = {
+  pending: 'Pending',
+  accepted: 'Accept',
+  ready: 'Mark Ready',
+  completed: 'Complete',
+  rejected: 'Reject',
+};
+
+export default function PharmacyOrdersScreen() {
+  const { user } = useContext(AuthContext);
+  const [orders, setOrders] = useState<PharmacyOrder[]>([]);
+  const [filter, setFilter] = useState<OrderFilter>('open');
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  const loadOrders = async () => {
+    if (!user) return;
+    setOrders(await fetchPharmacyOrders(user.id, FILTER_STATUSES[filter]));
+    setLoading(false);
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadOrders();
+    }, [user?.id, filter])
+  );
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadOrders();
+    setRefreshing(false);
+  };
+
+  const handleStatusChange = async (order: PharmacyOrder, status: OrderStatus) => {
+    const applyChange = async () => {
+      setUpdatingId(order.id);
+      try {
+        await updateOrderStatus(order.id, status);
+        await loadOrders();
+      } catch (error: any) {
+        Alert.alert('Error', error.message || 'Failed to update order');
+      } finally {
+        setUpdatingId(null);
+      }
+    };
+
+    if (status === 'rejected') {
+      Alert.alert('Reject Order', `Reject the order from ${order.patientName}?`, [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Reject', style: 'destructive', onPress: applyChange },
+      ]);
+      return;
+    }
+    await applyChange();
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Orders</Text>
+      </View>
+
+      <View style={styles.filterRow}>
+        {(Object.keys(FILTER_STATUSES) as OrderFilter[]).map((option) => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.filterChip, filter === option && styles.filterChipActive]}
+            onPress={() => {
+              setLoading(true);
+              setFilter(option);
+            }}
+          >
+            <Text style={[styles.filterText, filter === option && styles.filterTextActive]}>
+              {option.charAt(0).toUpperCase() + option.slice(1)}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {loading ? (
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color="#059669" />
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.content}
+          showsVerticalScrollIndicator={false}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+        >
+          {orders.length === 0 && <Text style={styles.emptyText}>No orders here yet</Text>}
+          {orders.map((order) => (
+            <View key={order.id} style={styles.card}>
+              <View style={styles.cardHeader}>
+                <Text style={styles.cardTitle}>{order.patientName}</Text>
+                <View style={[styles.statusBadge, { backgroundColor: ORDER_STATUS_COLORS[order.status] }]}>
+                  <Text style={styles.statusText}>{order.status.toUpperCase()}</Text>
+                </View>
+              </View>
+
+              <View style={styles.metaRow}>
+                <Clock color="#64748B" size={14} />
+                <Text style={styles.metaText}>{new Date(order.createdAt).toLocaleString()}</Text>
+              </View>
+              {order.patientPhone ? (
+                <View style={styles.metaRow}>
+                  <Phone color="#64748B" size={14} />
+                  <Text style={styles.metaText}>{order.patientPhone}</Text>
+                </View>
+              ) : null}
+
+              <View style={styles.itemsList}>
+                {order.items.map((item, index) => (
+                  <View key={`${order.id}-${index}`} style={styles.itemRow}>
+                    <Pill color="#8B5CF6" size={14} />
+                    <Text style={styles.itemText}>{item.name}</Text>
+                    <Text style={styles.itemQuantity}>x{item.quantity}</Text>
+                  </View>
+                ))}
+              </View>
+
+              {order.notes ? <Text style={styles.notesText}>{order.notes}</Text> : null}
+              {order.totalAmount != null && (
+                <Text style={styles.totalText}>Total: ₹{order.totalAmount}</Text>
+              )}
+
+              {NEXT_ORDER_STATUSES[order.status].length > 0 && (
+                <View style={styles.actionsRow}>
+                  {updatingId === order.id ? (
+                    <ActivityIndicator color="#059669" />
+                  ) : (
+                    NEXT_ORDER_STATUSES[order.status].map((status) => (
+                      <TouchableOpacity
+                        key={status}
+                        style={[
+                          styles.actionButton,
+                          status === 'rejected' ? styles.rejectButton : styles.primaryButton,
+                        ]}
+                        onPress={() => handleStatusChange(order, status)}
+                      >
+                        <Text
+                          style={[
+                            styles.actionButtonText,
+                            status === 'rejected' && styles.rejectButtonText,
+                          ]}
+                        >
+                          {STATUS_ACTION_LABELS[status]}
+                        </Text>
+                      </TouchableOpacity>
+                    ))
+                  )}
+                </View>
+              )}
+            </View>
+          ))}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  header: {
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E2E8F0',
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#1E293B',
+  },
+  filterRow: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  filterChip: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+    backgroundColor: '#FFFFFF',
+  },
+  filterChipActive: {
+    backgroundColor: '#059669',
+    borderColor: '#059669',
+  },
+  filterText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  filterTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#64748B',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  statusBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  statusText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  metaRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 4,
+  },
+  metaText: {
+    fontSize: 13,
+    color: '#64748B',
+  },
+  itemsList: {
+    marginTop: 8,
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#F1F5F9',
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 4,
+  },
+  itemText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#374151',
+  },
+  itemQuantity: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  notesText: {
+    fontSize: 13,
+    color: '#64748B',
+    fontStyle: 'italic',
+    marginTop: 8,
+  },
+  totalText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1E293B',
+    marginTop: 8,
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 12,
+  },
+  actionButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  primaryButton: {
+    backgroundColor: '#059669',
+  },
+  rejectButton: {
+    backgroundColor: '#FEF2F2',
+  },
+  actionButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  rejectButtonText: {
+    color: '#EF4444',
+  },
+});
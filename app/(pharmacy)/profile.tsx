@@ -0,0 +1,289 @@
+import React, { useContext, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  SafeAreaView,
+  TextInput,
+  Switch,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { router } from 'expo-router';
+import { Store, Mail, LogOut, Save } from 'lucide-react-native';
+import { AuthContext } from '@/contexts/AuthContext';
+import { PharmacyDetails, fetchPharmacyDetails, updatePharmacyDetails } from '@/lib/pharmacy';
+
+const EMPTY_DETAILS: PharmacyDetails = {
+  storeName: '',
+  licenseNo: '',
+  address: '',
+  openHours: '',
+  isOpen: true,
+};
+
+export default function PharmacyProfileScreen() {
+  const { user, logout } = useContext(AuthContext);
+  const [details, setDetails] = useState<PharmacyDetails>(EMPTY_DETAILS);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const loadDetails = async () => {
+      if (!user) return;
+      const data = await fetchPharmacyDetails(user.id);
+      setDetails(data || EMPTY_DETAILS);
+      setLoading(false);
+    };
+
+    loadDetails();
+  }, [user?.id]);
+
+  const handleSave = async () => {
+    if (!user) return;
+    setSaving(true);
+    try {
+      await updatePharmacyDetails(user.id, details);
+      Alert.alert('Success', 'Pharmacy details updated successfully');
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to save pharmacy details');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleLogout = () => {
+    Alert.alert(
+      'Logout',
+      'Are you sure you want to logout?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Logout',
+          style: 'destructive',
+          onPress: () => {
+            logout();
+            router.replace('/');
+          }
+        }
+      ]
+    );
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={[styles.container, { justifyContent: 'center', alignItems: 'center' }]}>
+        <ActivityIndicator size="large" color="#059669" />
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Profile</Text>
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.profileCard}>
+          <View style={styles.avatar}>
+            <Store color="#059669" size={32} />
+          </View>
+          <Text style={styles.profileName}>{details.storeName || user?.name}</Text>
+          <View style={styles.emailRow}>
+            <Mail color="#64748B" size={14} />
+            <Text style={styles.emailText}>{user?.email}</Text>
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Store Details</Text>
+          <Text style={styles.label}>Store Name</Text>
+          <TextInput
+            style={styles.input}
+            value={details.storeName}
+            onChangeText={(value) => setDetails({ ...details, storeName: value })}
+            placeholder="e.g. Apollo Pharmacy, Sector 12"
+            placeholderTextColor="#9CA3AF"
+          />
+          <Text style={styles.label}>Drug License Number</Text>
+          <TextInput
+            style={styles.input}
+            value={details.licenseNo}
+            onChangeText={(value) => setDetails({ ...details, licenseNo: value })}
+            placeholder="License number"
+            placeholderTextColor="#9CA3AF"
+          />
+          <Text style={styles.label}>Address</Text>
+          <TextInput
+            style={[styles.input, styles.multilineInput]}
+            value={details.address}
+            onChangeText={(value) => setDetails({ ...details, address: value })}
+            placeholder="Store address"
+            multiline
+            placeholderTextColor="#9CA3AF"
+          />
+          <Text style={styles.label}>Opening Hours</Text>
+          <TextInput
+            style={styles.input}
+            value={details.openHours}
+            onChangeText={(value) => setDetails({ ...details, openHours: value })}
+            placeholder="e.g. 9 AM - 10 PM"
+            placeholderTextColor="#9CA3AF"
+          />
+          <View style={styles.settingItem}>
+            <Text style={styles.settingText}>Accepting orders</Text>
+            <Switch
+              value={details.isOpen}
+              onValueChange={(value) => setDetails({ ...details, isOpen: value })}
+              trackColor={{ false: '#E5E7EB', true: '#10B981' }}
+              thumbColor="#FFFFFF"
+            />
+          </View>
+          <TouchableOpacity style={styles.saveButton} onPress={handleSave} disabled={saving}>
+            {saving ? (
+              <ActivityIndicator color="#FFFFFF" />
+            ) : (
+              <>
+                <Save color="#FFFFFF" size={18} />
+                <Text style={styles.saveButtonText}>Save Details</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.section}>
+          <TouchableOpacity style={styles.logoutButton} onPress={handleLogout}>
+            <LogOut color="#EF4444" size={20} />
+            <Text style={styles.logoutText}>Logout</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8FAFC',
+  },
+  header: {
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E2E8F0',
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#1E293B',
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+  },
+  profileCard: {
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 24,
+    marginBottom: 24,
+  },
+  avatar: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    backgroundColor: '#D1FAE5',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  profileName: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1E293B',
+  },
+  emailRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 4,
+  },
+  emailText: {
+    fontSize: 14,
+    color: '#64748B',
+  },
+  section: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1E293B',
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#64748B',
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: '#1F2937',
+    marginBottom: 14,
+  },
+  multilineInput: {
+    minHeight: 70,
+    textAlignVertical: 'top',
+  },
+  settingItem: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  settingText: {
+    fontSize: 16,
+    color: '#374151',
+  },
+  saveButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#059669',
+    borderRadius: 12,
+    paddingVertical: 14,
+    marginTop: 12,
+  },
+  saveButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  logoutButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+  },
+  logoutText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#EF4444',
+  },
+});
@@ -4,33 +4,57 @@ import { StatusBar } from 'expo-status-bar';
 import { View, StyleSheet } from 'react-native';
 import { useFrameworkReady } from '@/hooks/useFrameworkReady';
 import { AuthProvider } from '@/contexts/AuthContext';
+import { AppLockProvider } from '@/contexts/AppLockContext';
+import { OfflineProvider } from '@/contexts/OfflineContext';
+import { ToastProvider } from '@/contexts/ToastContext';
+import { DoseReminderProvider } from '@/contexts/DoseReminderContext';
 import { NavigationWrapper } from '@/components/NavigationWrapper';
+import { AppLockBoundary } from '@/components/AppLockBoundary';
+import ConfigErrorScreen from '@/components/ConfigErrorScreen';
+import { isConfigValid } from '@/lib/config';
 
 export default function RootLayout() {
   useFrameworkReady();
 
+  // Nothing below can work without a valid backend config, so explain what is missing instead
+  if (!isConfigValid) {
+    return <ConfigErrorScreen />;
+  }
+
   return (
     <AuthProvider>
-      <NavigationWrapper>
-        <View style={styles.container}>
-          <View style={styles.statusBarSpace} />
-          <Stack screenOptions={{ headerShown: false }}>
-            <Stack.Screen name="index" />
-            <Stack.Screen name="login" />
-            <Stack.Screen name="(doctor)" />
-            <Stack.Screen name="(patient)" />
+      <OfflineProvider>
+        <ToastProvider>
+          <DoseReminderProvider>
+            <AppLockProvider>
+              <NavigationWrapper>
+                <View style={styles.container}>
+                  <View style={styles.statusBarSpace} />
+                  <AppLockBoundary>
+                    <Stack screenOptions={{ headerShown: false }}>
+                      <Stack.Screen name="index" />
+                      <Stack.Screen name="login" />
+                      <Stack.Screen name="(doctor)" />
+                      <Stack.Screen name="(patient)" />
+                      <Stack.Screen name="(pharmacy)" />
+                      <Stack.Screen name="(admin)" />
 
-            {/* Hidden screens - now outside tabs */}
-            <Stack.Screen name="sos" />
-            <Stack.Screen name="onboarding" />
-            <Stack.Screen name="profile" />
-            <Stack.Screen name="records" />
+                      {/* Hidden screens - now outside tabs */}
+                      <Stack.Screen name="sos" />
+                      <Stack.Screen name="onboarding" />
+                      <Stack.Screen name="profile" />
+                      <Stack.Screen name="records" />
 
-            <Stack.Screen name="+not-found" />
-          </Stack>
-        </View>
-        <StatusBar style="dark" backgroundColor="#000000" />
-      </NavigationWrapper>
+                      <Stack.Screen name="+not-found" />
+                    </Stack>
+                  </AppLockBoundary>
+                </View>
+                <StatusBar style="dark" backgroundColor="#000000" />
+              </NavigationWrapper>
+            </AppLockProvider>
+          </DoseReminderProvider>
+        </ToastProvider>
+      </OfflineProvider>
     </AuthProvider>
   );
 }
@@ -0,0 +1,112 @@
+import React, { useContext, useEffect, useState } from 'react';
+import { SafeAreaView, View, Text, TouchableOpacity, ActivityIndicator, StyleSheet } from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import * as WebBrowser from 'expo-web-browser';
+import { AuthContext, getHomeRoute } from '@/contexts/AuthContext';
+
+// Closes the auth popup when the OAuth redirect lands in a web browser
+WebBrowser.maybeCompleteAuthSession();
+
+export default function AuthCallbackScreen() {
+  const { completeOAuthSignIn, checkPatientOnboardingComplete } = useContext(AuthContext);
+  const router = useRouter();
+  const params = useLocalSearchParams<{ code?: string; error_description?: string }>();
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (params.error_description) {
+      setErrorMessage(params.error_description);
+      return;
+    }
+    if (!params.code) {
+      setErrorMessage('Missing sign-in code. Please try again.');
+      return;
+    }
+
+    const finishSignIn = async (code: string) => {
+      try {
+        const { user, isNewUser } = await completeOAuthSignIn(code);
+
+        if (user.role === 'doctor') {
+          // New doctors must submit their registration before using the portal
+          router.replace(isNewUser ? '/doctor/verification' : getHomeRoute(user.role));
+          return;
+        }
+        if (user.role !== 'patient') {
+          router.replace(getHomeRoute(user.role));
+          return;
+        }
+
+        const onboardingComplete = !isNewUser && await checkPatientOnboardingComplete(user.id);
+        router.replace(onboardingComplete ? getHomeRoute(user.role) : '/onboarding');
+      } catch (error: any) {
+        console.error('OAuth callback error:', error);
+        setErrorMessage(error.message || 'Google sign-in failed');
+      }
+    };
+
+    finishSignIn(params.code);
+  }, [params.code, params.error_description]);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.content}>
+        {errorMessage ? (
+          <>
+            <Text style={styles.errorTitle}>Sign-in failed</Text>
+            <Text style={styles.errorText}>{errorMessage}</Text>
+            <TouchableOpacity style={styles.button} onPress={() => router.replace('/login')}>
+              <Text style={styles.buttonText}>Back to Sign In</Text>
+            </TouchableOpacity>
+          </>
+        ) : (
+          <>
+            <ActivityIndicator size="large" color="#5603BD" />
+            <Text style={styles.statusText}>Signing you in...</Text>
+          </>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 24,
+  },
+  statusText: {
+    marginTop: 16,
+    fontSize: 16,
+    color: '#374151',
+  },
+  errorTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#1F2937',
+    marginBottom: 12,
+  },
+  errorText: {
+    fontSize: 15,
+    color: '#6B7280',
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  button: {
+    backgroundColor: '#5603BD',
+    paddingVertical: 14,
+    paddingHorizontal: 32,
+    borderRadius: 12,
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
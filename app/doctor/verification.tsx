@@ -1,53 +1,183 @@
 // doctor/verification.tsx
-import { useState } from "react";
-import { SafeAreaView, View, Text, TextInput, TouchableOpacity, KeyboardAvoidingView, Platform, StyleSheet } from "react-native";
+import { useContext, useEffect, useState } from "react";
+import { SafeAreaView, View, Text, TextInput, TouchableOpacity, KeyboardAvoidingView, Platform, StyleSheet, ScrollView, ActivityIndicator, Alert } from "react-native";
 import { useRouter } from "expo-router";
 import { LinearGradient } from "expo-linear-gradient";
-import { Stethoscope, ArrowRight } from "lucide-react-native";
+import * as DocumentPicker from "expo-document-picker";
+import { Stethoscope, Upload, FileCheck, Clock, CircleAlert as AlertCircle, CircleCheck as CheckCircle } from "lucide-react-native";
+import { AuthContext } from "@/contexts/AuthContext";
+import {
+  CREDENTIAL_LABELS,
+  CredentialKind,
+  CredentialUpload,
+  DoctorApplication,
+  fetchDoctorApplication,
+  submitDoctorCredentials,
+} from "@/lib/doctorVerification";
+
+const REQUIRED_DOCUMENTS: CredentialKind[] = ["certificate", "id_proof"];
 
 export default function VerificationPage() {
   const router = useRouter();
+  const { user, logout } = useContext(AuthContext);
   const [regNo, setRegNo] = useState("");
   const [year, setYear] = useState("");
   const [council, setCouncil] = useState("");
-  const [msg, setMsg] = useState("");
-
-  const VERIFIED_DOCTORS = [
-    { registration_no: "12345", year_of_registration: "2016", council_name: "Bombay Medical Council" },
-    { registration_no: "67890", year_of_registration: "2018", council_name: "Delhi Medical Council" },
-  ];
-
-  const handleVerify = () => {
-    setMsg("Verifying...");
-    const match = VERIFIED_DOCTORS.find(
-      (doc) =>
-        doc.registration_no === regNo.trim() &&
-        doc.year_of_registration === year.trim() &&
-        doc.council_name.trim().toLowerCase() === council.trim().toLowerCase()
+  const [documents, setDocuments] = useState<Partial<Record<CredentialKind, CredentialUpload>>>({});
+  const [application, setApplication] = useState<DoctorApplication | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+
+  const loadApplication = async () => {
+    if (!user) return;
+    const data = await fetchDoctorApplication(user.id);
+    setApplication(data);
+    if (data) {
+      setRegNo(data.registrationNo);
+      setYear(data.yearOfRegistration);
+      setCouncil(data.councilName);
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadApplication();
+  }, [user?.id]);
+
+  const handlePickDocument = async (kind: CredentialKind) => {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: ["application/pdf", "image/*"],
+      copyToCacheDirectory: true,
+    });
+    if (result.canceled) return;
+
+    const file = result.assets[0];
+    setDocuments({
+      ...documents,
+      [kind]: { kind, uri: file.uri, name: file.name, mimeType: file.mimeType },
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!user) return;
+    const uploads = REQUIRED_DOCUMENTS.map((kind) => documents[kind]).filter(
+      (upload): upload is CredentialUpload => !!upload
     );
-    if (match) {
-      setMsg("Doctor verified ✅");
-      router.replace("/(doctor)/appointments");
-    } else {
-      setMsg("Verification failed ❌ (Details not found in registry)");
+    if (uploads.length < REQUIRED_DOCUMENTS.length) {
+      Alert.alert("Documents Required", "Please attach your registration certificate and ID proof.");
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await submitDoctorCredentials(
+        user.id,
+        { registrationNo: regNo.trim(), councilName: council.trim(), yearOfRegistration: year.trim() },
+        uploads
+      );
+      setDocuments({});
+      await loadApplication();
+    } catch (error: any) {
+      Alert.alert("Error", error.message || "Failed to submit credentials");
+    } finally {
+      setSubmitting(false);
     }
   };
 
+  const handleLogout = () => {
+    logout();
+    router.replace("/");
+  };
+
+  const canSubmit = !!regNo && !!year && !!council && REQUIRED_DOCUMENTS.every((kind) => documents[kind]);
+
+  if (loading) {
+    return (
+      <SafeAreaView style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color="#5603BD" />
+      </SafeAreaView>
+    );
+  }
+
+  if (application?.hasSubmitted && application.status !== "rejected") {
+    const approved = application.isVerified;
+    return (
+      <SafeAreaView style={[styles.container, styles.centered]}>
+        <View style={styles.statusCard}>
+          {approved ? (
+            <CheckCircle size={64} color="#10B981" />
+          ) : (
+            <Clock size={64} color="#F59E0B" />
+          )}
+          <Text style={styles.stepTitle}>
+            {approved ? "You're Verified" : "Verification Pending"}
+          </Text>
+          <Text style={styles.statusText}>
+            {approved
+              ? "Your registration has been approved. You can now start seeing patients."
+              : "We've received your registration details and documents. You'll get access to your dashboard once an admin approves them."}
+          </Text>
+          <Text style={styles.statusMeta}>
+            Reg. {application.registrationNo} • {application.councilName}
+          </Text>
+
+          {approved ? (
+            <TouchableOpacity
+              onPress={() => router.replace("/(doctor)/appointments")}
+              style={styles.nextButton}
+            >
+              <LinearGradient
+                colors={["#00B3FF", "#5603BD"]}
+                start={{ x: 0, y: 0 }}
+                end={{ x: 1, y: 1 }}
+                style={styles.buttonGradient}
+              >
+                <Text style={styles.buttonText}>Go to Dashboard</Text>
+              </LinearGradient>
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity style={styles.secondaryButton} onPress={loadApplication}>
+              <Text style={styles.secondaryButtonText}>Check Status</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity style={styles.linkButton} onPress={handleLogout}>
+            <Text style={styles.linkText}>Logout</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
   return (
     <SafeAreaView style={styles.container}>
       <KeyboardAvoidingView
         style={styles.flex}
         behavior={Platform.OS === "ios" ? "padding" : "height"}
       >
-        <View style={styles.content}>
+        <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
           {/* Top Section */}
           <View style={styles.topSection}>
             <View style={styles.illustrationContainer}>
-              <Stethoscope size={120} color="#5603BD" strokeWidth={1.5} />
+              <Stethoscope size={96} color="#5603BD" strokeWidth={1.5} />
             </View>
             <Text style={styles.stepTitle}>Doctor Verification</Text>
+            <Text style={styles.subtitle}>
+              Submit your medical council registration for review
+            </Text>
           </View>
 
+          {application?.status === "rejected" && (
+            <View style={styles.rejectedBanner}>
+              <AlertCircle size={20} color="#EF4444" />
+              <View style={styles.flex}>
+                <Text style={styles.rejectedTitle}>Your previous submission was rejected</Text>
+                {application.verificationNotes ? (
+                  <Text style={styles.rejectedText}>{application.verificationNotes}</Text>
+                ) : null}
+              </View>
+            </View>
+          )}
+
           {/* Form Section */}
           <View style={styles.stepContainer}>
             <View style={styles.inputGroup}>
@@ -90,20 +220,31 @@ export default function VerificationPage() {
               />
             </View>
 
-            {/* Message */}
-            {msg ? (
-              <View style={styles.messageContainer}>
-                <Text style={styles.msgText}>{msg}</Text>
+            {REQUIRED_DOCUMENTS.map((kind) => (
+              <View key={kind} style={styles.inputGroup}>
+                <Text style={styles.label}>
+                  {CREDENTIAL_LABELS[kind]} <Text style={styles.required}>*</Text>
+                </Text>
+                <TouchableOpacity style={styles.uploadButton} onPress={() => handlePickDocument(kind)}>
+                  {documents[kind] ? (
+                    <FileCheck size={20} color="#10B981" />
+                  ) : (
+                    <Upload size={20} color="#5603BD" />
+                  )}
+                  <Text style={styles.uploadText} numberOfLines={1}>
+                    {documents[kind]?.name || "Choose PDF or image"}
+                  </Text>
+                </TouchableOpacity>
               </View>
-            ) : null}
+            ))}
           </View>
 
           {/* Button Section */}
           <View style={styles.buttonContainer}>
-            <TouchableOpacity 
-              onPress={handleVerify} 
-              style={[styles.nextButton, (!regNo || !year || !council) && styles.buttonDisabled]}
-              disabled={!regNo || !year || !council}
+            <TouchableOpacity
+              onPress={handleSubmit}
+              style={[styles.nextButton, (!canSubmit || submitting) && styles.buttonDisabled]}
+              disabled={!canSubmit || submitting}
             >
               <LinearGradient
                 colors={["#00B3FF", "#5603BD"]}
@@ -111,11 +252,18 @@ export default function VerificationPage() {
                 end={{ x: 1, y: 1 }}
                 style={styles.buttonGradient}
               >
-                <Text style={styles.buttonText}>Verify Doctor</Text>
+                {submitting ? (
+                  <ActivityIndicator color="#FFFFFF" />
+                ) : (
+                  <Text style={styles.buttonText}>Submit for Review</Text>
+                )}
               </LinearGradient>
             </TouchableOpacity>
+            <TouchableOpacity style={styles.linkButton} onPress={handleLogout}>
+              <Text style={styles.linkText}>Logout</Text>
+            </TouchableOpacity>
           </View>
-        </View>
+        </ScrollView>
       </KeyboardAvoidingView>
     </SafeAreaView>
   );
@@ -128,36 +276,43 @@ const styles = StyleSheet.create({
   flex: {
     flex: 1,
   },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
   content: {
-    flex: 1,
+    flexGrow: 1,
     paddingHorizontal: 24,
   },
   topSection: {
     alignItems: 'center',
-    paddingVertical: 40,
+    paddingTop: 32,
+    paddingBottom: 24,
   },
   illustrationContainer: {
     alignItems: 'center',
     justifyContent: 'center',
-    marginBottom: 30,
+    marginBottom: 24,
   },
   stepContainer: {
-    marginBottom: 40,
-    flex: 1,
-    justifyContent: 'center',
+    marginBottom: 24,
   },
   stepTitle: {
     fontSize: 28,
     fontWeight: 'bold',
     color: '#1F2937',
-    marginBottom: 32,
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 15,
+    color: '#6B7280',
     textAlign: 'center',
   },
   inputGroup: {
-    marginBottom: 24,
+    marginBottom: 20,
     alignSelf: 'center',
-    width: '70%',
-    top: -40,
+    width: '85%',
   },
   label: {
     fontSize: 16,
@@ -179,24 +334,82 @@ const styles = StyleSheet.create({
     color: '#374151',
     width: '100%',
   },
-  messageContainer: {
-    marginTop: 16,
-    padding: 16,
+  uploadButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
     backgroundColor: '#F9FAFB',
-    borderRadius: 12,
     borderWidth: 1,
     borderColor: '#E5E7EB',
+    borderStyle: 'dashed',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+  },
+  uploadText: {
+    flex: 1,
+    fontSize: 15,
+    color: '#374151',
+  },
+  rejectedBanner: {
+    flexDirection: 'row',
+    gap: 10,
+    padding: 16,
+    marginBottom: 20,
+    backgroundColor: '#FEF2F2',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#FECACA',
+  },
+  rejectedTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#B91C1C',
   },
-  msgText: {
+  rejectedText: {
+    fontSize: 14,
+    color: '#7F1D1D',
+    marginTop: 4,
+  },
+  statusCard: {
+    alignItems: 'center',
+    paddingHorizontal: 32,
+    gap: 12,
+  },
+  statusText: {
+    fontSize: 16,
+    color: '#4B5563',
     textAlign: 'center',
+    lineHeight: 24,
+  },
+  statusMeta: {
+    fontSize: 14,
+    color: '#9CA3AF',
+    marginBottom: 12,
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: '#5603BD',
+    borderRadius: 12,
+    paddingVertical: 14,
+    paddingHorizontal: 32,
+  },
+  secondaryButtonText: {
+    color: '#5603BD',
     fontSize: 16,
-    color: '#374151',
-    fontWeight: '500',
+    fontWeight: '600',
+  },
+  linkButton: {
+    alignItems: 'center',
+    paddingVertical: 16,
+  },
+  linkText: {
+    fontSize: 15,
+    color: '#6B7280',
   },
   buttonContainer: {
     marginBottom: 40,
-    width: '50%',
-    top: -60,
+    width: '60%',
     alignSelf: 'center',
   },
   nextButton: {
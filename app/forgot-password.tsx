@@ -0,0 +1,158 @@
+import React, { useState, useContext } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  SafeAreaView,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { LinearGradient } from 'expo-linear-gradient';
+import { KeyRound, MailCheck } from 'lucide-react-native';
+import { AuthContext } from '@/contexts/AuthContext';
+
+export default function ForgotPasswordScreen() {
+  const { requestPasswordReset } = useContext(AuthContext);
+  const router = useRouter();
+
+  const [email, setEmail] = useState('');
+  const [sending, setSending] = useState(false);
+  const [sent, setSent] = useState(false);
+
+  const handleSendLink = async () => {
+    if (!email.trim()) {
+      Alert.alert('Error', 'Please enter your email address');
+      return;
+    }
+
+    setSending(true);
+    try {
+      await requestPasswordReset(email);
+      setSent(true);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to send reset link');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <KeyboardAvoidingView
+        style={styles.flex}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        <View style={styles.contentContainer}>
+          <View style={styles.headerSection}>
+            {sent ? (
+              <MailCheck size={64} color="#666" strokeWidth={1.5} />
+            ) : (
+              <KeyRound size={64} color="#666" strokeWidth={1.5} />
+            )}
+            <Text style={styles.title}>{sent ? 'Check Your Email' : 'Forgot Password'}</Text>
+            <Text style={styles.subtitle}>
+              {sent
+                ? `If an account exists for ${email.trim()}, we've sent a link to reset your password. Open it on this device.`
+                : "Enter the email you signed up with and we'll send you a reset link."}
+            </Text>
+          </View>
+
+          {!sent && (
+            <View>
+              <View style={styles.inputContainer}>
+                <TextInput
+                  style={styles.input}
+                  placeholder="Email"
+                  value={email}
+                  onChangeText={setEmail}
+                  keyboardType="email-address"
+                  autoCapitalize="none"
+                  placeholderTextColor="#9CA3AF"
+                />
+              </View>
+
+              <TouchableOpacity onPress={handleSendLink} disabled={sending} style={styles.buttonContainer}>
+                <LinearGradient
+                  colors={['#00B3FF', '#5603BD']}
+                  start={{ x: 0, y: 0 }}
+                  end={{ x: 1, y: 1 }}
+                  style={styles.button}
+                >
+                  {sending ? (
+                    <ActivityIndicator color="#FFFFFF" />
+                  ) : (
+                    <Text style={styles.buttonText}>Send Reset Link</Text>
+                  )}
+                </LinearGradient>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {sent && (
+            <TouchableOpacity style={styles.secondaryButton} onPress={() => setSent(false)}>
+              <Text style={styles.secondaryButtonText}>Didn&apos;t get it? Send again</Text>
+            </TouchableOpacity>
+          )}
+
+          <TouchableOpacity style={styles.secondaryButton} onPress={() => router.replace('/login')}>
+            <Text style={styles.secondaryButtonText}>Back to sign in</Text>
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: { flex: 1, backgroundColor: '#F8F9FA' },
+  flex: { flex: 1 },
+  contentContainer: {
+    flex: 1,
+    width: '100%',
+    maxWidth: 400,
+    alignSelf: 'center',
+    paddingHorizontal: 24,
+    justifyContent: 'center',
+  },
+  headerSection: { alignItems: 'center', marginBottom: 40 },
+  title: { fontSize: 28, fontWeight: '700', color: '#1F2937', textAlign: 'center', marginTop: 20 },
+  subtitle: { fontSize: 15, color: '#6B7280', textAlign: 'center', marginTop: 12, lineHeight: 22 },
+  inputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    shadowColor: '#000000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 3,
+    borderWidth: 1,
+    borderColor: 'rgba(229, 231, 235, 0.8)',
+  },
+  input: { flex: 1, fontSize: 16, color: '#1F2937', fontWeight: '400' },
+  buttonContainer: { alignItems: 'center', marginTop: 24 },
+  button: {
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 16,
+    paddingHorizontal: 48,
+    minWidth: 180,
+    shadowColor: '#5603BD',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 6,
+  },
+  buttonText: { fontSize: 17, fontWeight: '600', color: '#FFFFFF', textAlign: 'center', letterSpacing: 0.5 },
+  secondaryButton: { paddingVertical: 12, alignItems: 'center', marginTop: 8 },
+  secondaryButtonText: { fontSize: 15, fontWeight: '500', color: '#0a171dc3', textAlign: 'center' },
+});
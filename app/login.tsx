@@ -15,10 +15,10 @@ import MaskedView from '@react-native-masked-view/masked-view';
 import { useRouter } from 'expo-router';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Eye, EyeOff, Stethoscope } from 'lucide-react-native';
-import { AuthContext } from '@/contexts/AuthContext';
+import { AuthContext, getHomeRoute } from '@/contexts/AuthContext';
 
 export default function LoginScreen() {
-  const { login, checkPatientOnboarding, user } = useContext(AuthContext);
+  const { login, loginWithGoogle, checkPatientOnboarding } = useContext(AuthContext);
   const router = useRouter();
 
   const [email, setEmail] = useState('');
@@ -43,12 +43,11 @@ export default function LoginScreen() {
     }
 
     try {
-      await login(email, password);
+      const loggedInUser = await login(email, password);
 
-      // After successful login, the user object will contain the role from database
-      // The AuthContext will handle redirection based on user role
-      if (user?.role === 'patient') {
-        const onboardingComplete = await checkPatientOnboarding(user.id);
+      // Use the profile returned by login - the context state has not re-rendered yet
+      if (loggedInUser.role === 'patient') {
+        const onboardingComplete = await checkPatientOnboarding(loggedInUser.id);
         if (!onboardingComplete) {
           router.replace('/onboarding');
           return;
@@ -56,19 +55,26 @@ export default function LoginScreen() {
       }
 
       // Redirect based on user role from database
-      if (user?.role === 'patient') {
-        router.replace('/(patient)/today');
-      } else if (user?.role === 'doctor') {
-        router.replace('/(doctor)/appointments');
-      } else {
-        router.replace('/');
-      }
+      router.replace(getHomeRoute(loggedInUser.role));
     } catch (error: any) {
       console.log('Login error:', error);
       Alert.alert('Error', error.message || 'Login failed');
     }
   };
 
+  const handleGoogleLogin = async () => {
+    try {
+      // Role only applies if this Google account has no profile yet
+      const code = await loginWithGoogle('patient');
+      if (code) {
+        router.replace({ pathname: '/auth/callback', params: { code } });
+      }
+    } catch (error: any) {
+      console.log('Google login error:', error);
+      Alert.alert('Error', error.message || 'Google sign-in failed');
+    }
+  };
+
   return (
     <SafeAreaView style={styles.safeArea}>
       <KeyboardAvoidingView
@@ -150,7 +156,7 @@ export default function LoginScreen() {
               />
             </View>
 
-            <View style={[styles.inputContainer, { marginBottom: height * 0.04 }]}>
+            <View style={[styles.inputContainer, { marginBottom: height * 0.015 }]}>
               <TextInput
                 style={[styles.input, { fontSize: inputFontSize }]}
                 placeholder="Password"
@@ -171,6 +177,15 @@ export default function LoginScreen() {
               </TouchableOpacity>
             </View>
 
+            <TouchableOpacity
+              style={[styles.forgotPasswordButton, { marginBottom: height * 0.03 }]}
+              onPress={() => router.push('/forgot-password')}
+            >
+              <Text style={[styles.forgotPasswordText, { fontSize: smallTextSize }]}>
+                Forgot password?
+              </Text>
+            </TouchableOpacity>
+
             {/* Sign In Button */}
             <TouchableOpacity 
               onPress={handleLogin} 
@@ -206,6 +221,30 @@ export default function LoginScreen() {
               />
             </View>
 
+            {/* Google sign in */}
+            <TouchableOpacity
+              style={styles.signupButton}
+              onPress={handleGoogleLogin}
+            >
+              <Text style={[styles.signupButtonText, {
+                fontSize: Math.min(width * 0.04, 16)
+              }]}>
+                Continue with Google
+              </Text>
+            </TouchableOpacity>
+
+            {/* Phone + OTP sign in for patients without email */}
+            <TouchableOpacity
+              style={styles.signupButton}
+              onPress={() => router.push('/phone-login')}
+            >
+              <Text style={[styles.signupButtonText, {
+                fontSize: Math.min(width * 0.04, 16)
+              }]}>
+                Sign in with mobile number
+              </Text>
+            </TouchableOpacity>
+
             {/* Navigate to Sign Up */}
             <TouchableOpacity 
               style={styles.signupButton}
@@ -312,6 +351,14 @@ const styles = StyleSheet.create({
     padding: 8,
     marginLeft: 8,
   },
+  forgotPasswordButton: {
+    alignSelf: 'flex-end',
+    top: -50,
+  },
+  forgotPasswordText: {
+    color: '#5603BD',
+    fontWeight: '600',
+  },
   signInButtonContainer: {
     alignItems: 'center',
     top: -50,
@@ -12,7 +12,7 @@ import {
   ScrollView,
   Modal,
 } from 'react-native';
-import { router } from 'expo-router';
+import { router, useLocalSearchParams } from 'expo-router';
 import { LinearGradient } from 'expo-linear-gradient';
 import { ArrowLeft, ChevronRight, Calendar, User, X, Check } from 'lucide-react-native';
 import { AuthContext } from '@/contexts/AuthContext';
@@ -32,6 +32,9 @@ interface PatientData {
 
 export default function OnboardingScreen() {
   const { user } = useContext(AuthContext);
+  // Set when completing a newly added family member's profile
+  const { patientId } = useLocalSearchParams<{ patientId?: string }>();
+  const targetPatientId = patientId || user?.id;
   const [currentStep, setCurrentStep] = useState(0);
   const [patientData, setPatientData] = useState<PatientData>({});
   const [isLoading, setIsLoading] = useState(false);
@@ -89,7 +92,7 @@ export default function OnboardingScreen() {
           profile_completed: true,
           medical_history_completed: true,
         })
-        .eq('id', user?.id);
+        .eq('id', targetPatientId);
 
       if (error) throw error;
 
@@ -0,0 +1,172 @@
+import React, { useState, useContext } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  SafeAreaView,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Smartphone } from 'lucide-react-native';
+import { AuthContext, getHomeRoute } from '@/contexts/AuthContext';
+import { OtpRequestState } from '@/lib/phoneAuth';
+import OtpVerification from '@/components/OtpVerification';
+
+export default function PhoneLoginScreen() {
+  const { sendPhoneOtp, verifyPhoneOtp, checkPatientOnboarding, isLoading } = useContext(AuthContext);
+  const router = useRouter();
+
+  const [phone, setPhone] = useState('');
+  const [otpRequest, setOtpRequest] = useState<OtpRequestState | null>(null);
+
+  const handleSendCode = async () => {
+    if (!phone) {
+      Alert.alert('Error', 'Please enter your mobile number');
+      return;
+    }
+
+    try {
+      const request = await sendPhoneOtp(phone);
+      setOtpRequest(request);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to send code');
+    }
+  };
+
+  const handleVerify = async (code: string) => {
+    try {
+      const loggedInUser = await verifyPhoneOtp(phone, code);
+
+      if (loggedInUser.role === 'patient') {
+        const onboardingComplete = await checkPatientOnboarding(loggedInUser.id);
+        if (!onboardingComplete) {
+          router.replace('/onboarding');
+          return;
+        }
+      }
+
+      router.replace(getHomeRoute(loggedInUser.role));
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Verification failed');
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <KeyboardAvoidingView
+        style={styles.flex}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        <View style={styles.contentContainer}>
+          <View style={styles.headerSection}>
+            <Smartphone size={64} color="#666" strokeWidth={1.5} />
+            <Text style={styles.title}>Sign In with Mobile</Text>
+          </View>
+
+          {otpRequest ? (
+            <OtpVerification
+              request={otpRequest}
+              isSubmitting={isLoading}
+              onVerify={handleVerify}
+              onResend={handleSendCode}
+              onChangeNumber={() => setOtpRequest(null)}
+            />
+          ) : (
+            <View>
+              <View style={styles.inputContainer}>
+                <Text style={styles.countryCode}>+91</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="Mobile Number"
+                  value={phone}
+                  onChangeText={setPhone}
+                  keyboardType="phone-pad"
+                  maxLength={14}
+                  placeholderTextColor="#9CA3AF"
+                />
+              </View>
+
+              <TouchableOpacity onPress={handleSendCode} disabled={isLoading} style={styles.buttonContainer}>
+                <LinearGradient
+                  colors={['#00B3FF', '#5603BD']}
+                  start={{ x: 0, y: 0 }}
+                  end={{ x: 1, y: 1 }}
+                  style={styles.button}
+                >
+                  {isLoading ? (
+                    <ActivityIndicator color="#FFFFFF" />
+                  ) : (
+                    <Text style={styles.buttonText}>Send Code</Text>
+                  )}
+                </LinearGradient>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          <TouchableOpacity style={styles.secondaryButton} onPress={() => router.replace('/login')}>
+            <Text style={styles.secondaryButtonText}>Use email instead</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.secondaryButton} onPress={() => router.push('/phone-signup')}>
+            <Text style={styles.secondaryButtonText}>New here? Sign up with your mobile</Text>
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: { flex: 1, backgroundColor: '#F8F9FA' },
+  flex: { flex: 1 },
+  contentContainer: {
+    flex: 1,
+    width: '100%',
+    maxWidth: 400,
+    alignSelf: 'center',
+    paddingHorizontal: 24,
+    justifyContent: 'center',
+  },
+  headerSection: { alignItems: 'center', marginBottom: 40 },
+  title: { fontSize: 28, fontWeight: '700', color: '#1F2937', textAlign: 'center', marginTop: 20 },
+  inputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    shadowColor: '#000000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 3,
+    borderWidth: 1,
+    borderColor: 'rgba(229, 231, 235, 0.8)',
+  },
+  countryCode: { fontSize: 16, color: '#6B7280', fontWeight: '500', marginRight: 12 },
+  input: { flex: 1, fontSize: 16, color: '#1F2937', fontWeight: '400' },
+  buttonContainer: { alignItems: 'center', marginTop: 24 },
+  button: {
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 16,
+    paddingHorizontal: 48,
+    minWidth: 180,
+    shadowColor: '#5603BD',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 6,
+  },
+  buttonText: { fontSize: 17, fontWeight: '600', color: '#FFFFFF', textAlign: 'center', letterSpacing: 0.5 },
+  secondaryButton: { paddingVertical: 12, alignItems: 'center', marginTop: 8 },
+  secondaryButtonText: { fontSize: 15, fontWeight: '500', color: '#0a171dc3', textAlign: 'center' },
+});
@@ -0,0 +1,199 @@
+import React, { useContext, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  SafeAreaView,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { LinearGradient } from 'expo-linear-gradient';
+import { LockKeyhole } from 'lucide-react-native';
+import { AuthContext, getHomeRoute } from '@/contexts/AuthContext';
+import { MIN_PASSWORD_LENGTH, validateNewPassword } from '@/lib/accountSecurity';
+
+/**
+ * Landing route for the password reset email. Redeems the recovery code for a
+ * short-lived session, then lets the user choose a new password.
+ */
+export default function ResetPasswordScreen() {
+  const { user, completePasswordRecovery, updatePassword } = useContext(AuthContext);
+  const router = useRouter();
+  const params = useLocalSearchParams<{ code?: string; error_description?: string }>();
+
+  const [verifying, setVerifying] = useState(true);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (params.error_description) {
+      setErrorMessage(params.error_description);
+      setVerifying(false);
+      return;
+    }
+    if (!params.code) {
+      setErrorMessage('Missing reset code. Please request a new link.');
+      setVerifying(false);
+      return;
+    }
+
+    completePasswordRecovery(params.code)
+      .catch((error: any) => setErrorMessage(error.message))
+      .finally(() => setVerifying(false));
+  }, [params.code, params.error_description]);
+
+  const handleSave = async () => {
+    const validationError = validateNewPassword(password, confirmPassword);
+    if (validationError) {
+      Alert.alert('Error', validationError);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await updatePassword(password);
+      Alert.alert('Password Updated', 'Your password has been changed.');
+      router.replace(user ? getHomeRoute(user.role) : '/login');
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to update password');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (verifying) {
+    return (
+      <SafeAreaView style={[styles.safeArea, styles.centered]}>
+        <ActivityIndicator size="large" color="#5603BD" />
+        <Text style={styles.subtitle}>Verifying reset link...</Text>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <KeyboardAvoidingView
+        style={styles.flex}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        <View style={styles.contentContainer}>
+          <View style={styles.headerSection}>
+            <LockKeyhole size={64} color="#666" strokeWidth={1.5} />
+            <Text style={styles.title}>{errorMessage ? 'Link Expired' : 'Set New Password'}</Text>
+            <Text style={styles.subtitle}>
+              {errorMessage || `Choose a password with at least ${MIN_PASSWORD_LENGTH} characters.`}
+            </Text>
+          </View>
+
+          {errorMessage ? (
+            <TouchableOpacity style={styles.secondaryButton} onPress={() => router.replace('/forgot-password')}>
+              <Text style={styles.secondaryButtonText}>Request a new link</Text>
+            </TouchableOpacity>
+          ) : (
+            <View>
+              <View style={[styles.inputContainer, styles.inputSpacing]}>
+                <TextInput
+                  style={styles.input}
+                  placeholder="New password"
+                  value={password}
+                  onChangeText={setPassword}
+                  secureTextEntry
+                  autoCapitalize="none"
+                  placeholderTextColor="#9CA3AF"
+                />
+              </View>
+              <View style={styles.inputContainer}>
+                <TextInput
+                  style={styles.input}
+                  placeholder="Confirm new password"
+                  value={confirmPassword}
+                  onChangeText={setConfirmPassword}
+                  secureTextEntry
+                  autoCapitalize="none"
+                  placeholderTextColor="#9CA3AF"
+                />
+              </View>
+
+              <TouchableOpacity onPress={handleSave} disabled={saving} style={styles.buttonContainer}>
+                <LinearGradient
+                  colors={['#00B3FF', '#5603BD']}
+                  start={{ x: 0, y: 0 }}
+                  end={{ x: 1, y: 1 }}
+                  style={styles.button}
+                >
+                  {saving ? (
+                    <ActivityIndicator color="#FFFFFF" />
+                  ) : (
+                    <Text style={styles.buttonText}>Update Password</Text>
+                  )}
+                </LinearGradient>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          <TouchableOpacity style={styles.secondaryButton} onPress={() => router.replace('/login')}>
+            <Text style={styles.secondaryButtonText}>Back to sign in</Text>
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: { flex: 1, backgroundColor: '#F8F9FA' },
+  flex: { flex: 1 },
+  centered: { justifyContent: 'center', alignItems: 'center' },
+  contentContainer: {
+    flex: 1,
+    width: '100%',
+    maxWidth: 400,
+    alignSelf: 'center',
+    paddingHorizontal: 24,
+    justifyContent: 'center',
+  },
+  headerSection: { alignItems: 'center', marginBottom: 40 },
+  title: { fontSize: 28, fontWeight: '700', color: '#1F2937', textAlign: 'center', marginTop: 20 },
+  subtitle: { fontSize: 15, color: '#6B7280', textAlign: 'center', marginTop: 12, lineHeight: 22 },
+  inputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    shadowColor: '#000000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 3,
+    borderWidth: 1,
+    borderColor: 'rgba(229, 231, 235, 0.8)',
+  },
+  inputSpacing: { marginBottom: 16 },
+  input: { flex: 1, fontSize: 16, color: '#1F2937', fontWeight: '400' },
+  buttonContainer: { alignItems: 'center', marginTop: 24 },
+  button: {
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 16,
+    paddingHorizontal: 48,
+    minWidth: 180,
+    shadowColor: '#5603BD',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 6,
+  },
+  buttonText: { fontSize: 17, fontWeight: '600', color: '#FFFFFF', textAlign: 'center', letterSpacing: 0.5 },
+  secondaryButton: { paddingVertical: 12, alignItems: 'center', marginTop: 8 },
+  secondaryButtonText: { fontSize: 15, fontWeight: '500', color: '#0a171dc3', textAlign: 'center' },
+});
@@ -14,17 +14,17 @@ import {
 import { LinearGradient } from 'expo-linear-gradient';
 import { Eye, EyeOff } from 'lucide-react-native';
 import { useRouter } from 'expo-router';
-import { AuthContext } from '@/contexts/AuthContext';
+import { AuthContext, UserRole } from '@/contexts/AuthContext';
 import { supabase } from '@/lib/supabase';
 
 export default function SignupScreen() {
-  const { signup, checkPatientOnboardingComplete } = useContext(AuthContext);
+  const { signup, loginWithGoogle, checkPatientOnboardingComplete } = useContext(AuthContext);
   const router = useRouter();
 
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [name, setName] = useState('');
-  const [role, setRole] = useState<'doctor' | 'patient' | null>(null);
+  const [role, setRole] = useState<UserRole | null>(null);
   const [showPassword, setShowPassword] = useState(false);
 
   const { width, height } = useWindowDimensions();
@@ -72,6 +72,22 @@ export default function SignupScreen() {
     }
   };
 
+  const handleGoogleSignup = async () => {
+    if (!role) {
+      Alert.alert('Error', 'Please select a role first');
+      return;
+    }
+
+    try {
+      const code = await loginWithGoogle(role);
+      if (code) {
+        router.replace({ pathname: '/auth/callback', params: { code } });
+      }
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Google sign-up failed');
+    }
+  };
+
   return (
     <SafeAreaView style={styles.safeArea}>
       <KeyboardAvoidingView
@@ -175,6 +191,14 @@ export default function SignupScreen() {
                   Patient
                 </Text>
               </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.roleButton, role === 'pharmacy' && styles.roleButtonSelected]}
+                onPress={() => setRole('pharmacy')}
+              >
+                <Text style={[styles.roleButtonText, role === 'pharmacy' && styles.roleButtonTextSelected]}>
+                  Pharmacy
+                </Text>
+              </TouchableOpacity>
             </View>
 
             {/* Sign Up Button */}
@@ -198,6 +222,20 @@ export default function SignupScreen() {
               <LinearGradient colors={['#00B3FF', '#5603BD']} style={styles.dividerLine} />
             </View>
 
+            {/* Google sign up with the selected role */}
+            <TouchableOpacity onPress={handleGoogleSignup} style={styles.secondaryButton}>
+              <Text style={[styles.secondaryButtonText, { fontSize: Math.min(width * 0.04, 16) }]}>
+                Continue with Google
+              </Text>
+            </TouchableOpacity>
+
+            {/* Phone + OTP sign up for patients without email */}
+            <TouchableOpacity onPress={() => router.push('/phone-signup')} style={styles.secondaryButton}>
+              <Text style={[styles.secondaryButtonText, { fontSize: Math.min(width * 0.04, 16) }]}>
+                No email? Sign up with mobile number
+              </Text>
+            </TouchableOpacity>
+
             {/* Navigate to Login */}
             <TouchableOpacity onPress={() => router.push('/login')} style={styles.secondaryButton}>
               <Text style={[styles.secondaryButtonText, { fontSize: Math.min(width * 0.04, 16) }]}>
@@ -248,7 +286,7 @@ const styles = StyleSheet.create({
     borderColor: '#E5E7EB',
     borderRadius: 12,
     paddingVertical: 14,
-    marginHorizontal: 8,
+    marginHorizontal: 4,
     alignItems: 'center',
     top: 10,
   },
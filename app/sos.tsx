@@ -12,7 +12,8 @@ import {
 } from 'react-native';
 import { router } from 'expo-router';
 import { AuthContext } from '@/contexts/AuthContext';
-import { supabase } from '@/lib/supabase';
+import { fetchDoctorDirectory } from '@/lib/repositories/doctors';
+import { fetchPatient } from '@/lib/repositories/patients';
 import { ArrowLeft, Phone, MapPin, Clock, TriangleAlert as AlertTriangle, Heart, Stethoscope } from 'lucide-react-native';
 
 interface EmergencyContact {
@@ -35,52 +36,37 @@ interface NearbyDoctor {
 }
 
 export default function SOSScreen() {
-  const { user } = useContext(AuthContext);
+  const { activePatientId } = useContext(AuthContext);
   const [emergencyContacts, setEmergencyContacts] = useState<EmergencyContact[]>([]);
   const [nearbyDoctors, setNearbyDoctors] = useState<NearbyDoctor[]>([]);
 
   useEffect(() => {
     const fetchData = async () => {
-      if (!user?.id) return;
+      if (!activePatientId) return;
 
-      // Fetch emergency contacts
-      const { data: patientData, error: patientError } = await supabase
-        .from('patients')
-        .select('emergency_contacts')
-        .eq('id', user.id)
-        .single();
+      const [patientResult, doctorsResult] = await Promise.all([fetchPatient(activePatientId), fetchDoctorDirectory()]);
 
-      if (patientError) {
-        console.error('Error fetching emergency contacts:', patientError);
-      } else {
-        setEmergencyContacts(patientData?.emergency_contacts || []);
+      if (patientResult.data) {
+        setEmergencyContacts((patientResult.data.emergency_contacts ?? []) as EmergencyContact[]);
       }
 
-      // Fetch nearby doctors
-      const { data: doctorsData, error: doctorsError } = await supabase
-        .from('doctors')
-        .select('*, users!inner(name, avatar, phone, location)')
-        .eq('users.role', 'doctor');
-
-      if (doctorsError) {
-        console.error('Error fetching doctors:', doctorsError);
-      } else {
-        const doctors: NearbyDoctor[] = doctorsData.map((doc: any) => ({
+      if (doctorsResult.data) {
+        const doctors: NearbyDoctor[] = doctorsResult.data.map((doc) => ({
           id: doc.id,
-          name: doc.users.name,
+          name: doc.name,
           specialty: doc.specialty,
           hospital: doc.hospital,
           distance: 'Nearby',
           available: true,
-          avatar: doc.users.avatar || 'https://images.pexels.com/photos/5452293/pexels-photo-5452293.jpeg',
-          phone: doc.users.phone,
+          avatar: doc.avatar || 'https://images.pexels.com/photos/5452293/pexels-photo-5452293.jpeg',
+          phone: doc.phone,
         }));
         setNearbyDoctors(doctors);
       }
     };
 
     fetchData();
-  }, [user]);
+  }, [activePatientId]);
 
   const makeCall = (phoneNumber: string) => {
     const url = `tel:${phoneNumber}`;
@@ -140,7 +126,7 @@ export default function SOSScreen() {
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Emergency Contacts</Text>
           
-          {emergencyContacts.map((contact: any) => (
+          {emergencyContacts.map((contact) => (
             <TouchableOpacity
               key={contact.id}
               style={styles.contactCard}
@@ -168,7 +154,7 @@ export default function SOSScreen() {
           <Text style={styles.sectionTitle}>Nearby Emergency Doctors</Text>
           <Text style={styles.sectionSubtitle}>Doctors have been notified of your emergency</Text>
           
-          {nearbyDoctors.map((doctor: any) => (
+          {nearbyDoctors.map((doctor) => (
             <View key={doctor.id} style={styles.doctorCard}>
               <Image source={{ uri: doctor.avatar }} style={styles.doctorAvatar} />
               
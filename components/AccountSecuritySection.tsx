@@ -0,0 +1,382 @@
+import React, { useContext, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { router } from 'expo-router';
+import { Mail, KeyRound, Smartphone, Monitor, LogOut, ChevronRight, Save, X } from 'lucide-react-native';
+import { AuthContext } from '@/contexts/AuthContext';
+import { DeviceSession, fetchDeviceSessions, validateNewPassword } from '@/lib/accountSecurity';
+
+type SecurityForm = 'email' | 'password' | null;
+
+/**
+ * "Security" card shared by the patient and doctor profile screens: change
+ * email, change password, the devices signed in to this account, and a
+ * global sign-out.
+ */
+export default function AccountSecuritySection() {
+  const { user, changeEmail, changePassword, signOutEverywhere } = useContext(AuthContext);
+  const [sessions, setSessions] = useState<DeviceSession[]>([]);
+  const [loadingSessions, setLoadingSessions] = useState(true);
+  const [activeForm, setActiveForm] = useState<SecurityForm>(null);
+  const [newEmail, setNewEmail] = useState('');
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const loadSessions = async () => {
+      if (!user) return;
+      setSessions(await fetchDeviceSessions(user.id));
+      setLoadingSessions(false);
+    };
+
+    loadSessions();
+  }, [user?.id]);
+
+  const closeForm = () => {
+    setActiveForm(null);
+    setNewEmail('');
+    setCurrentPassword('');
+    setNewPassword('');
+    setConfirmPassword('');
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      if (activeForm === 'email') {
+        if (!newEmail.trim() || newEmail.trim() === user?.email) {
+          Alert.alert('Error', 'Please enter a new email address');
+          return;
+        }
+        await changeEmail(newEmail);
+        Alert.alert('Confirm Your Email', `We've sent a confirmation link to ${newEmail.trim()}. Your email will change once you open it.`);
+      } else if (activeForm === 'password') {
+        const validationError = validateNewPassword(newPassword, confirmPassword);
+        if (validationError) {
+          Alert.alert('Error', validationError);
+          return;
+        }
+        await changePassword(currentPassword, newPassword);
+        Alert.alert('Success', 'Your password has been changed.');
+      }
+      closeForm();
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to update account');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSignOutEverywhere = () => {
+    Alert.alert(
+      'Sign Out Everywhere',
+      'This will sign you out on all devices, including this one.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Sign Out',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await signOutEverywhere();
+              router.replace('/');
+            } catch (error: any) {
+              Alert.alert('Error', error.message || 'Failed to sign out everywhere');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Security</Text>
+
+      {!!user?.email && (
+        <>
+          <TouchableOpacity style={styles.settingItem} onPress={() => setActiveForm('email')}>
+            <Mail color="#6B7280" size={20} />
+            <Text style={styles.settingText}>Change Email</Text>
+            <ChevronRight color="#9CA3AF" size={16} />
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.settingItem} onPress={() => setActiveForm('password')}>
+            <KeyRound color="#6B7280" size={20} />
+            <Text style={styles.settingText}>Change Password</Text>
+            <ChevronRight color="#9CA3AF" size={16} />
+          </TouchableOpacity>
+        </>
+      )}
+
+      <Text style={styles.subheading}>Active Sessions</Text>
+      {loadingSessions ? (
+        <ActivityIndicator color="#2563EB" />
+      ) : sessions.length === 0 ? (
+        <Text style={styles.emptyText}>No sessions recorded</Text>
+      ) : (
+        sessions.map((session) => (
+          <View key={session.id} style={styles.sessionItem}>
+            {session.platform === 'web' ? (
+              <Monitor color="#6B7280" size={20} />
+            ) : (
+              <Smartphone color="#6B7280" size={20} />
+            )}
+            <View style={styles.sessionInfo}>
+              <Text style={styles.sessionName}>
+                {session.deviceName}
+                {session.isCurrent ? ' (this device)' : ''}
+              </Text>
+              <Text style={styles.sessionMeta}>
+                Last active {new Date(session.lastActiveAt).toLocaleString()}
+              </Text>
+            </View>
+          </View>
+        ))
+      )}
+
+      <TouchableOpacity style={styles.signOutAllButton} onPress={handleSignOutEverywhere}>
+        <LogOut color="#EF4444" size={18} />
+        <Text style={styles.signOutAllText}>Sign Out Everywhere</Text>
+      </TouchableOpacity>
+
+      <Modal
+        visible={activeForm !== null}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={closeForm}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>
+                {activeForm === 'email' ? 'Change Email' : 'Change Password'}
+              </Text>
+              <TouchableOpacity onPress={closeForm}>
+                <X color="#6B7280" size={24} />
+              </TouchableOpacity>
+            </View>
+
+            {activeForm === 'email' ? (
+              <>
+                <Text style={styles.modalHint}>Current: {user?.email}</Text>
+                <TextInput
+                  style={styles.modalInput}
+                  value={newEmail}
+                  onChangeText={setNewEmail}
+                  placeholder="New email address"
+                  keyboardType="email-address"
+                  autoCapitalize="none"
+                />
+              </>
+            ) : (
+              <>
+                <TextInput
+                  style={styles.modalInput}
+                  value={currentPassword}
+                  onChangeText={setCurrentPassword}
+                  placeholder="Current password"
+                  secureTextEntry
+                  autoCapitalize="none"
+                />
+                <TextInput
+                  style={styles.modalInput}
+                  value={newPassword}
+                  onChangeText={setNewPassword}
+                  placeholder="New password"
+                  secureTextEntry
+                  autoCapitalize="none"
+                />
+                <TextInput
+                  style={styles.modalInput}
+                  value={confirmPassword}
+                  onChangeText={setConfirmPassword}
+                  placeholder="Confirm new password"
+                  secureTextEntry
+                  autoCapitalize="none"
+                />
+              </>
+            )}
+
+            <View style={styles.modalButtons}>
+              <TouchableOpacity style={styles.modalCancelButton} onPress={closeForm}>
+                <Text style={styles.modalCancelText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.modalSaveButton} onPress={handleSave} disabled={saving}>
+                {saving ? (
+                  <ActivityIndicator color="#FFFFFF" />
+                ) : (
+                  <>
+                    <Save color="#FFFFFF" size={16} />
+                    <Text style={styles.modalSaveText}>Save</Text>
+                  </>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 20,
+    marginTop: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#374151',
+    marginBottom: 16,
+  },
+  settingItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F1F5F9',
+  },
+  settingText: {
+    fontSize: 16,
+    color: '#374151',
+    marginLeft: 12,
+    flex: 1,
+  },
+  subheading: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6B7280',
+    marginTop: 20,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#9CA3AF',
+  },
+  sessionItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  sessionInfo: {
+    marginLeft: 12,
+    flex: 1,
+  },
+  sessionName: {
+    fontSize: 15,
+    color: '#374151',
+  },
+  sessionMeta: {
+    fontSize: 12,
+    color: '#9CA3AF',
+    marginTop: 2,
+  },
+  signOutAllButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 16,
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: '#FEF2F2',
+  },
+  signOutAllText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#EF4444',
+    marginLeft: 8,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 20,
+    width: '90%',
+    maxHeight: '80%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1F2937',
+  },
+  modalHint: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 12,
+  },
+  modalInput: {
+    backgroundColor: '#F9FAFB',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    fontSize: 16,
+    color: '#374151',
+    marginBottom: 12,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 20,
+  },
+  modalCancelButton: {
+    flex: 1,
+    backgroundColor: '#F3F4F6',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginRight: 10,
+  },
+  modalCancelText: {
+    fontSize: 16,
+    color: '#6B7280',
+    fontWeight: '600',
+  },
+  modalSaveButton: {
+    flex: 1,
+    backgroundColor: '#2563EB',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginLeft: 10,
+  },
+  modalSaveText: {
+    fontSize: 16,
+    color: '#FFFFFF',
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+});
@@ -0,0 +1,220 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Dimensions } from 'react-native';
+import { LineChart } from 'react-native-chart-kit';
+import { Flame } from 'lucide-react-native';
+import { ADHERENCE_PERIODS, AdherencePeriod, computeAdherence, formatAdherenceRate } from '@/lib/adherence';
+import { formatDoseTime } from '@/lib/medicationSchedule';
+import { DoseLog } from '@/lib/repositories/doseLogs';
+import { Prescription } from '@/lib/repositories/prescriptions';
+
+interface AdherenceCardProps {
+  prescriptions: Prescription[];
+  // Covering at least the longest period
+  doseLogs: DoseLog[];
+}
+
+const chartConfig = {
+  backgroundGradientFrom: '#FFFFFF',
+  backgroundGradientTo: '#FFFFFF',
+  color: (opacity = 1) => `rgba(5, 150, 105, ${opacity})`,
+  labelColor: (opacity = 1) => `rgba(55, 65, 81, ${opacity})`,
+  strokeWidth: 2,
+  decimalPlaces: 0,
+  useShadowColorFromDataset: false,
+};
+
+/**
+ * How well the patient has kept to their medicines over the last 7, 30 or 90
+ * days: the share of doses taken, the trend, their streak, and which
+ * medicines and times of day get missed.
+ */
+export default function AdherenceCard({ prescriptions, doseLogs }: AdherenceCardProps) {
+  const [period, setPeriod] = useState<AdherencePeriod>(7);
+  const summary = useMemo(() => computeAdherence(prescriptions, doseLogs, period), [prescriptions, doseLogs, period]);
+  // Periods with nothing scheduled have no rate, so they are left off the line
+  const points = summary.trend.filter((point) => point.rate !== null);
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Medicine Adherence</Text>
+        <View style={styles.periods}>
+          {ADHERENCE_PERIODS.map((days) => (
+            <TouchableOpacity
+              key={days}
+              style={[styles.periodChip, period === days && styles.periodChipSelected]}
+              onPress={() => setPeriod(days)}
+            >
+              <Text style={[styles.periodText, period === days && styles.periodTextSelected]}>{days}d</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      {summary.scheduled === 0 ? (
+        <Text style={styles.emptyText}>No scheduled doses in the last {period} days</Text>
+      ) : (
+        <>
+          <View style={styles.stats}>
+            <View style={styles.stat}>
+              <Text style={styles.statValue}>{formatAdherenceRate(summary.rate)}</Text>
+              <Text style={styles.statLabel}>
+                {summary.taken} of {summary.scheduled} doses taken
+              </Text>
+            </View>
+            <View style={styles.stat}>
+              <View style={styles.streakValue}>
+                <Flame color="#F97316" size={20} />
+                <Text style={styles.statValue}>{summary.currentStreak}</Text>
+              </View>
+              <Text style={styles.statLabel}>
+                day streak · best {summary.longestStreak}
+              </Text>
+            </View>
+          </View>
+
+          {points.length > 1 && (
+            <LineChart
+              data={{
+                labels: points.map((point) => point.label),
+                datasets: [{ data: points.map((point) => Math.round((point.rate ?? 0) * 100)) }],
+              }}
+              width={Dimensions.get('window').width - 72} // screen padding plus card padding
+              height={180}
+              yAxisSuffix="%"
+              fromZero
+              chartConfig={chartConfig}
+              style={styles.chart}
+            />
+          )}
+
+          {summary.missedTimes.length > 0 && (
+            <Text style={styles.detailText}>
+              Most missed: {summary.missedTimes.slice(0, 2).map(({ time, count }) => `${formatDoseTime(time)} (${count})`).join(', ')}
+            </Text>
+          )}
+
+          {summary.perMedicine.map((medicine) => (
+            <View key={`${medicine.prescriptionId}:${medicine.medicineIndex}`} style={styles.medicineRow}>
+              <Text style={styles.medicineName} numberOfLines={1}>{medicine.name}</Text>
+              <View style={styles.barTrack}>
+                <View style={[styles.barFill, { width: `${Math.round((medicine.rate ?? 0) * 100)}%` }]} />
+              </View>
+              <Text style={styles.medicineRate}>{formatAdherenceRate(medicine.rate)}</Text>
+            </View>
+          ))}
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  periods: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  periodChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: '#F3F4F6',
+  },
+  periodChipSelected: {
+    backgroundColor: '#059669',
+  },
+  periodText: {
+    fontSize: 12,
+    color: '#374151',
+  },
+  periodTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  stats: {
+    flexDirection: 'row',
+    marginBottom: 12,
+  },
+  stat: {
+    flex: 1,
+  },
+  streakValue: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  statValue: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  statLabel: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  chart: {
+    marginLeft: -12,
+    marginBottom: 8,
+  },
+  detailText: {
+    fontSize: 13,
+    color: '#B45309',
+    marginBottom: 10,
+  },
+  medicineRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 6,
+  },
+  medicineName: {
+    width: 110,
+    fontSize: 13,
+    color: '#374151',
+  },
+  barTrack: {
+    flex: 1,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#F3F4F6',
+    overflow: 'hidden',
+  },
+  barFill: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#10B981',
+  },
+  medicineRate: {
+    width: 40,
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#111827',
+    textAlign: 'right',
+  },
+});
@@ -0,0 +1,25 @@
+import React, { useContext } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { AppLockContext } from '@/contexts/AppLockContext';
+import LockScreen from './LockScreen';
+
+/**
+ * Wraps the root navigator: every touch resets the inactivity timer, and the
+ * lock screen covers the whole stack while the app is locked.
+ */
+export function AppLockBoundary({ children }: { children: React.ReactNode }) {
+  const { isLocked, recordActivity } = useContext(AppLockContext);
+
+  return (
+    <View style={styles.container} onTouchStart={recordActivity}>
+      {children}
+      {isLocked && <LockScreen />}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+});
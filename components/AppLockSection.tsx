@@ -0,0 +1,287 @@
+import React, { useContext, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  Switch,
+  Alert,
+} from 'react-native';
+import { Lock, Timer, Save, X } from 'lucide-react-native';
+import { AppLockContext } from '@/contexts/AppLockContext';
+import {
+  LOCK_TIMEOUT_OPTIONS,
+  MAX_PIN_LENGTH,
+  MIN_PIN_LENGTH,
+  isAppLockSupported,
+  isValidPin,
+} from '@/lib/appLock';
+
+type PinForm = 'enable' | 'disable' | null;
+
+/**
+ * "App Lock" card for the profile screens: turn the PIN lock on or off and
+ * pick how long the app may sit idle before it locks.
+ */
+export default function AppLockSection() {
+  const { isPinSet, lockTimeout, enableLock, disableLock, setLockTimeout } = useContext(AppLockContext);
+  const [activeForm, setActiveForm] = useState<PinForm>(null);
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+
+  if (!isAppLockSupported) return null;
+
+  const closeForm = () => {
+    setActiveForm(null);
+    setPin('');
+    setConfirmPin('');
+  };
+
+  const handleSave = async () => {
+    try {
+      if (activeForm === 'enable') {
+        if (!isValidPin(pin)) {
+          Alert.alert('Error', `PIN must be ${MIN_PIN_LENGTH}-${MAX_PIN_LENGTH} digits.`);
+          return;
+        }
+        if (pin !== confirmPin) {
+          Alert.alert('Error', 'PINs do not match.');
+          return;
+        }
+        await enableLock(pin);
+      } else if (activeForm === 'disable') {
+        if (!(await disableLock(pin))) {
+          Alert.alert('Error', 'Incorrect PIN.');
+          return;
+        }
+      }
+      closeForm();
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to update app lock');
+    }
+  };
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>App Lock</Text>
+
+      <View style={styles.settingItem}>
+        <Lock color="#6B7280" size={20} />
+        <Text style={styles.settingText}>Require PIN</Text>
+        <Switch
+          value={isPinSet}
+          onValueChange={(value) => setActiveForm(value ? 'enable' : 'disable')}
+          trackColor={{ false: '#E5E7EB', true: '#10B981' }}
+          thumbColor="#FFFFFF"
+        />
+      </View>
+
+      {isPinSet && (
+        <>
+          <View style={styles.timeoutHeader}>
+            <Timer color="#6B7280" size={20} />
+            <Text style={styles.settingText}>Lock after inactivity</Text>
+          </View>
+          <View style={styles.optionRow}>
+            {LOCK_TIMEOUT_OPTIONS.map((option) => (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.optionChip, lockTimeout === option.value && styles.optionChipActive]}
+                onPress={() => setLockTimeout(option.value)}
+              >
+                <Text style={[styles.optionText, lockTimeout === option.value && styles.optionTextActive]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </>
+      )}
+
+      <Modal
+        visible={activeForm !== null}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={closeForm}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>
+                {activeForm === 'enable' ? 'Set App PIN' : 'Turn Off App Lock'}
+              </Text>
+              <TouchableOpacity onPress={closeForm}>
+                <X color="#6B7280" size={24} />
+              </TouchableOpacity>
+            </View>
+
+            <TextInput
+              style={styles.modalInput}
+              value={pin}
+              onChangeText={setPin}
+              placeholder={activeForm === 'enable' ? `New PIN (${MIN_PIN_LENGTH}-${MAX_PIN_LENGTH} digits)` : 'Current PIN'}
+              keyboardType="number-pad"
+              maxLength={MAX_PIN_LENGTH}
+              secureTextEntry
+            />
+            {activeForm === 'enable' && (
+              <TextInput
+                style={styles.modalInput}
+                value={confirmPin}
+                onChangeText={setConfirmPin}
+                placeholder="Confirm PIN"
+                keyboardType="number-pad"
+                maxLength={MAX_PIN_LENGTH}
+                secureTextEntry
+              />
+            )}
+
+            <View style={styles.modalButtons}>
+              <TouchableOpacity style={styles.modalCancelButton} onPress={closeForm}>
+                <Text style={styles.modalCancelText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.modalSaveButton} onPress={handleSave}>
+                <Save color="#FFFFFF" size={16} />
+                <Text style={styles.modalSaveText}>Save</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 20,
+    marginTop: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#374151',
+    marginBottom: 16,
+  },
+  settingItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F1F5F9',
+  },
+  settingText: {
+    fontSize: 16,
+    color: '#374151',
+    marginLeft: 12,
+    flex: 1,
+  },
+  timeoutHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingTop: 16,
+    paddingBottom: 12,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  optionChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  optionChipActive: {
+    backgroundColor: '#2563EB',
+    borderColor: '#2563EB',
+  },
+  optionText: {
+    fontSize: 13,
+    color: '#374151',
+  },
+  optionTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 20,
+    width: '90%',
+    maxHeight: '80%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1F2937',
+  },
+  modalInput: {
+    backgroundColor: '#F9FAFB',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    fontSize: 16,
+    color: '#374151',
+    marginBottom: 12,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 20,
+  },
+  modalCancelButton: {
+    flex: 1,
+    backgroundColor: '#F3F4F6',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginRight: 10,
+  },
+  modalCancelText: {
+    fontSize: 16,
+    color: '#6B7280',
+    fontWeight: '600',
+  },
+  modalSaveButton: {
+    flex: 1,
+    backgroundColor: '#2563EB',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginLeft: 10,
+  },
+  modalSaveText: {
+    fontSize: 16,
+    color: '#FFFFFF',
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+});
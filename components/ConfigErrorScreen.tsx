@@ -0,0 +1,70 @@
+import React from 'react';
+import { View, Text, StyleSheet, ScrollView } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { TriangleAlert as AlertTriangle } from 'lucide-react-native';
+import { config, configErrors } from '@/lib/config';
+
+/**
+ * Shown by the root layout in place of the app when lib/config found missing
+ * or invalid environment variables, so a bad build explains itself.
+ */
+export default function ConfigErrorScreen() {
+  return (
+    <LinearGradient colors={['#00B3FF', '#5603BD']} style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <AlertTriangle color="#FFFFFF" size={48} />
+        <Text style={styles.title}>JeevanSetu is not configured</Text>
+        <Text style={styles.subtitle}>
+          This {config.environment} build is missing settings it needs to start. Add them to your .env file
+          (see .env.example) and restart the bundler.
+        </Text>
+
+        <View style={styles.card}>
+          {configErrors.map((error) => (
+            <Text key={error} style={styles.errorText}>• {error}</Text>
+          ))}
+        </View>
+      </ScrollView>
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    flexGrow: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 24,
+    paddingVertical: 48,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 15,
+    color: 'rgba(255, 255, 255, 0.85)',
+    marginTop: 8,
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 20,
+    marginTop: 24,
+    alignSelf: 'stretch',
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#B91C1C',
+    lineHeight: 20,
+    marginBottom: 8,
+  },
+});
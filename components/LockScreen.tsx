@@ -0,0 +1,228 @@
+import React, { useContext, useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert, ActivityIndicator } from 'react-native';
+import { router } from 'expo-router';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Lock, Delete } from 'lucide-react-native';
+import { AuthContext } from '@/contexts/AuthContext';
+import { AppLockContext } from '@/contexts/AppLockContext';
+import { MAX_PIN_ATTEMPTS, MAX_PIN_LENGTH, MIN_PIN_LENGTH } from '@/lib/appLock';
+
+const KEYPAD = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '', '0', 'del'];
+
+/**
+ * Full-screen PIN pad rendered over the navigation stack while the app is
+ * locked. Repeated wrong PINs block entry for a while; too many, or "Forgot
+ * PIN", signs the user out entirely.
+ */
+export default function LockScreen() {
+  const { user, logout } = useContext(AuthContext);
+  const { pinAttempts, unlock, forgetPin } = useContext(AppLockContext);
+  const { failedAttempts, lockedUntil } = pinAttempts;
+  const [pin, setPin] = useState('');
+  const [checking, setChecking] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  const cooldownSeconds = lockedUntil ? Math.max(Math.ceil((lockedUntil - now) / 1000), 0) : 0;
+
+  // Tick once a second while entry is blocked, to count down and then reopen the keypad
+  useEffect(() => {
+    setNow(Date.now());
+    if (!lockedUntil || lockedUntil <= Date.now()) return;
+    const interval = setInterval(() => {
+      setNow(Date.now());
+      if (lockedUntil <= Date.now()) clearInterval(interval);
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [lockedUntil]);
+
+  const signOut = async () => {
+    await forgetPin();
+    logout();
+    router.replace('/');
+  };
+
+  // Also catches attempts used up before the app was closed
+  useEffect(() => {
+    if (failedAttempts >= MAX_PIN_ATTEMPTS) {
+      Alert.alert('Too Many Attempts', 'For your security you have been signed out. Please sign in again.');
+      signOut();
+    }
+  }, [failedAttempts]);
+
+  const handleSubmit = async (value: string) => {
+    setChecking(true);
+    await unlock(value);
+    setChecking(false);
+    setPin('');
+  };
+
+  const handleKey = (key: string) => {
+    if (checking || cooldownSeconds > 0) return;
+    if (key === 'del') {
+      setPin(pin.slice(0, -1));
+      return;
+    }
+    if (pin.length >= MAX_PIN_LENGTH) return;
+
+    const next = pin + key;
+    setPin(next);
+    if (next.length === MAX_PIN_LENGTH) {
+      handleSubmit(next);
+    }
+  };
+
+  const handleForgotPin = () => {
+    Alert.alert(
+      'Forgot PIN?',
+      'You will be signed out and your PIN will be removed. Sign in again to continue.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Sign Out', style: 'destructive', onPress: signOut },
+      ]
+    );
+  };
+
+  return (
+    <LinearGradient colors={['#00B3FF', '#5603BD']} style={styles.overlay}>
+      <View style={styles.header}>
+        <Lock color="#FFFFFF" size={40} />
+        <Text style={styles.title}>JeevanSetu is locked</Text>
+        <Text style={styles.subtitle}>{user?.name ? `Enter ${user.name}'s PIN` : 'Enter your PIN'}</Text>
+      </View>
+
+      <View style={styles.dots}>
+        {Array.from({ length: MAX_PIN_LENGTH }).map((_, index) => (
+          <View key={index} style={[styles.dot, index < pin.length && styles.dotFilled]} />
+        ))}
+      </View>
+
+      <View style={styles.feedback}>
+        {checking ? (
+          <ActivityIndicator color="#FFFFFF" />
+        ) : cooldownSeconds > 0 ? (
+          <Text style={styles.errorText}>Too many wrong PINs. Try again in {cooldownSeconds}s.</Text>
+        ) : failedAttempts > 0 ? (
+          <Text style={styles.errorText}>
+            Incorrect PIN. {MAX_PIN_ATTEMPTS - failedAttempts} attempt{MAX_PIN_ATTEMPTS - failedAttempts === 1 ? '' : 's'} left.
+          </Text>
+        ) : null}
+      </View>
+
+      <View style={styles.keypad}>
+        {KEYPAD.map((key, index) => (
+          key ? (
+            <TouchableOpacity key={key} style={styles.key} onPress={() => handleKey(key)}>
+              {key === 'del' ? (
+                <Delete color="#FFFFFF" size={26} />
+              ) : (
+                <Text style={styles.keyText}>{key}</Text>
+              )}
+            </TouchableOpacity>
+          ) : (
+            <View key={`blank-${index}`} style={styles.key} />
+          )
+        ))}
+      </View>
+
+      <TouchableOpacity
+        style={[styles.unlockButton, (pin.length < MIN_PIN_LENGTH || cooldownSeconds > 0) && styles.unlockButtonDisabled]}
+        onPress={() => handleSubmit(pin)}
+        disabled={pin.length < MIN_PIN_LENGTH || checking || cooldownSeconds > 0}
+      >
+        <Text style={styles.unlockButtonText}>Unlock</Text>
+      </TouchableOpacity>
+
+      <TouchableOpacity style={styles.linkButton} onPress={handleForgotPin}>
+        <Text style={styles.linkText}>Forgot PIN? Sign out</Text>
+      </TouchableOpacity>
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    zIndex: 1000,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 32,
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: 32,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+    marginTop: 16,
+  },
+  subtitle: {
+    fontSize: 15,
+    color: 'rgba(255, 255, 255, 0.85)',
+    marginTop: 8,
+  },
+  dots: {
+    flexDirection: 'row',
+    gap: 14,
+  },
+  dot: {
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    borderWidth: 2,
+    borderColor: '#FFFFFF',
+  },
+  dotFilled: {
+    backgroundColor: '#FFFFFF',
+  },
+  feedback: {
+    height: 40,
+    justifyContent: 'center',
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#FEE2E2',
+    fontWeight: '600',
+  },
+  keypad: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    width: 270,
+  },
+  key: {
+    width: 72,
+    height: 72,
+    margin: 9,
+    borderRadius: 36,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  keyText: {
+    fontSize: 28,
+    color: '#FFFFFF',
+    fontWeight: '500',
+  },
+  unlockButton: {
+    marginTop: 16,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    paddingVertical: 14,
+    paddingHorizontal: 48,
+  },
+  unlockButtonDisabled: {
+    opacity: 0.5,
+  },
+  unlockButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#5603BD',
+  },
+  linkButton: {
+    paddingVertical: 16,
+  },
+  linkText: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.85)',
+  },
+});
@@ -0,0 +1,258 @@
+import React from 'react';
+import { View, Text, StyleSheet, TextInput, TouchableOpacity, Switch } from 'react-native';
+import { Trash2 } from 'lucide-react-native';
+import {
+  DEFAULT_ESCALATION,
+  EscalationRule,
+  FOOD_TIMING_LABELS,
+  FoodTiming,
+  Medication,
+  TIME_SLOTS,
+  TimeSlot,
+  formatDoseTime,
+} from '@/lib/medicationSchedule';
+
+interface MedicationScheduleEditorProps {
+  medications: Medication[];
+  onChange: (medications: Medication[]) => void;
+}
+
+const SLOT_LABELS: Record<TimeSlot, string> = {
+  morning: 'Morning',
+  afternoon: 'Afternoon',
+  evening: 'Evening',
+  night: 'Night',
+};
+
+/**
+ * Lets the doctor check and correct the proposed structure of each medicine
+ * before the prescription is saved; the patient's schedule is built from
+ * exactly what is confirmed here.
+ */
+export default function MedicationScheduleEditor({ medications, onChange }: MedicationScheduleEditorProps) {
+  const update = (index: number, changes: Partial<Medication>) =>
+    onChange(medications.map((medication, i) => (i === index ? { ...medication, ...changes } : medication)));
+
+  const toggleSlot = (index: number, slot: TimeSlot) => {
+    const time = TIME_SLOTS[slot];
+    const { times } = medications[index];
+    update(index, {
+      times: times.includes(time) ? times.filter((t) => t !== time) : [...times, time].sort(),
+    });
+  };
+
+  const updateEscalation = (index: number, changes: Partial<EscalationRule>) => {
+    const { escalation } = medications[index];
+    if (escalation) update(index, { escalation: { ...escalation, ...changes } });
+  };
+
+  // Blank or zero while typing; the save checks the numbers make sense
+  const toMinutes = (value: string) => {
+    const minutes = parseInt(value, 10);
+    return Number.isNaN(minutes) || minutes < 0 ? 0 : minutes;
+  };
+
+  return (
+    <View>
+      {medications.map((medication, index) => (
+        <View key={index} style={styles.card}>
+          <View style={styles.row}>
+            <TextInput
+              style={[styles.input, styles.nameInput]}
+              value={medication.name}
+              onChangeText={(name) => update(index, { name })}
+              placeholder="Medicine"
+            />
+            <TouchableOpacity
+              style={styles.removeButton}
+              onPress={() => onChange(medications.filter((_medication, i) => i !== index))}
+            >
+              <Trash2 color="#EF4444" size={18} />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.row}>
+            <TextInput
+              style={[styles.input, styles.halfInput]}
+              value={medication.strength ?? ''}
+              onChangeText={(strength) => update(index, { strength: strength.trim() ? strength : null })}
+              placeholder="Strength (500mg)"
+            />
+            <TextInput
+              style={[styles.input, styles.halfInput]}
+              value={medication.dose}
+              onChangeText={(dose) => update(index, { dose })}
+              placeholder="Dose (1 tablet)"
+            />
+          </View>
+
+          <View style={styles.switchRow}>
+            <Text style={styles.label}>Only when needed (SOS)</Text>
+            <Switch
+              value={medication.asNeeded}
+              onValueChange={(asNeeded) =>
+                update(index, { asNeeded, times: asNeeded ? [] : [TIME_SLOTS.morning], escalation: asNeeded ? null : medication.escalation })
+              }
+              trackColor={{ false: '#D1D5DB', true: '#A7F3D0' }}
+              thumbColor={medication.asNeeded ? '#10B981' : '#F9FAFB'}
+            />
+          </View>
+
+          {!medication.asNeeded && (
+            <>
+              <Text style={styles.label}>Times</Text>
+              <View style={styles.chips}>
+                {(Object.keys(TIME_SLOTS) as TimeSlot[]).map((slot) => {
+                  const selected = medication.times.includes(TIME_SLOTS[slot]);
+                  return (
+                    <TouchableOpacity
+                      key={slot}
+                      style={[styles.chip, selected && styles.chipSelected]}
+                      onPress={() => toggleSlot(index, slot)}
+                    >
+                      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                        {SLOT_LABELS[slot]} · {formatDoseTime(TIME_SLOTS[slot])}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </>
+          )}
+
+          <Text style={styles.label}>Food</Text>
+          <View style={styles.chips}>
+            {(Object.keys(FOOD_TIMING_LABELS) as FoodTiming[]).map((food) => (
+              <TouchableOpacity
+                key={food}
+                style={[styles.chip, medication.food === food && styles.chipSelected]}
+                onPress={() => update(index, { food })}
+              >
+                <Text style={[styles.chipText, medication.food === food && styles.chipTextSelected]}>
+                  {FOOD_TIMING_LABELS[food]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.label}>Duration in days (leave empty to continue until stopped)</Text>
+          <TextInput
+            style={styles.input}
+            value={medication.durationDays === null ? '' : String(medication.durationDays)}
+            onChangeText={(value) => {
+              const days = parseInt(value, 10);
+              update(index, { durationDays: Number.isNaN(days) || days <= 0 ? null : days });
+            }}
+            placeholder="e.g. 5"
+            keyboardType="number-pad"
+          />
+
+          {!medication.asNeeded && (
+            <>
+              <View style={styles.switchRow}>
+                <Text style={styles.label}>Escalate missed doses</Text>
+                <Switch
+                  value={medication.escalation !== null}
+                  onValueChange={(enabled) => update(index, { escalation: enabled ? { ...DEFAULT_ESCALATION } : null })}
+                  trackColor={{ false: '#D1D5DB', true: '#FECACA' }}
+                  thumbColor={medication.escalation ? '#EF4444' : '#F9FAFB'}
+                />
+              </View>
+              {medication.escalation && (
+                <View style={styles.row}>
+                  <View style={styles.halfInput}>
+                    <Text style={styles.label}>Remind again after (min)</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={medication.escalation.remindAfterMinutes ? String(medication.escalation.remindAfterMinutes) : ''}
+                      onChangeText={(value) => updateEscalation(index, { remindAfterMinutes: toMinutes(value) })}
+                      keyboardType="number-pad"
+                    />
+                  </View>
+                  <View style={styles.halfInput}>
+                    <Text style={styles.label}>Text contacts after (min)</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={medication.escalation.alertContactsAfterMinutes ? String(medication.escalation.alertContactsAfterMinutes) : ''}
+                      onChangeText={(value) => updateEscalation(index, { alertContactsAfterMinutes: toMinutes(value) })}
+                      keyboardType="number-pad"
+                    />
+                  </View>
+                </View>
+              )}
+            </>
+          )}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  nameInput: {
+    flex: 1,
+    fontWeight: '600',
+  },
+  halfInput: {
+    flex: 1,
+  },
+  removeButton: {
+    padding: 8,
+    marginBottom: 8,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 6,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginBottom: 10,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#F3F4F6',
+  },
+  chipSelected: {
+    backgroundColor: '#10B981',
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#374151',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,183 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, ActivityIndicator } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import {
+  OTP_LENGTH,
+  OtpRequestState,
+  getResendWaitSeconds,
+  isOtpExpired,
+} from '@/lib/phoneAuth';
+
+interface OtpVerificationProps {
+  request: OtpRequestState;
+  isSubmitting: boolean;
+  onVerify: (code: string) => void;
+  onResend: () => void;
+  onChangeNumber: () => void;
+}
+
+const formatCountdown = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const remainder = seconds % 60;
+  return `${minutes}:${remainder.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Code entry step shared by the phone login and phone signup screens.
+ * Shows the resend cooldown and disables verification once the code expires.
+ */
+export default function OtpVerification({
+  request,
+  isSubmitting,
+  onVerify,
+  onResend,
+  onChangeNumber,
+}: OtpVerificationProps) {
+  const [code, setCode] = useState('');
+  const [now, setNow] = useState(Date.now());
+
+  // Tick once a second to drive the resend and expiry countdowns
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // A fresh code invalidates whatever was typed for the previous one
+  useEffect(() => {
+    setCode('');
+  }, [request.sentAt]);
+
+  const resendWait = getResendWaitSeconds(request, now);
+  const expired = isOtpExpired(request, now);
+  const expiresIn = Math.max(0, Math.ceil((request.expiresAt - now) / 1000));
+  const canVerify = code.length === OTP_LENGTH && !expired && !isSubmitting;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.description}>
+        Enter the {OTP_LENGTH}-digit code sent to {request.phone}
+      </Text>
+
+      <View style={styles.inputContainer}>
+        <TextInput
+          style={styles.input}
+          value={code}
+          onChangeText={(text) => setCode(text.replace(/\D/g, '').slice(0, OTP_LENGTH))}
+          keyboardType="number-pad"
+          textContentType="oneTimeCode"
+          autoComplete="sms-otp"
+          maxLength={OTP_LENGTH}
+          placeholder="------"
+          placeholderTextColor="#9CA3AF"
+        />
+      </View>
+
+      <Text style={[styles.expiryText, expired && styles.expiredText]}>
+        {expired ? 'Code expired. Request a new one.' : `Code expires in ${formatCountdown(expiresIn)}`}
+      </Text>
+
+      <TouchableOpacity
+        onPress={() => onVerify(code)}
+        disabled={!canVerify}
+        style={[styles.buttonContainer, !canVerify && styles.buttonDisabled]}
+      >
+        <LinearGradient
+          colors={['#00B3FF', '#5603BD']}
+          start={{ x: 0, y: 0 }}
+          end={{ x: 1, y: 1 }}
+          style={styles.button}
+        >
+          {isSubmitting ? (
+            <ActivityIndicator color="#FFFFFF" />
+          ) : (
+            <Text style={styles.buttonText}>Verify</Text>
+          )}
+        </LinearGradient>
+      </TouchableOpacity>
+
+      <TouchableOpacity onPress={onResend} disabled={resendWait > 0 || isSubmitting} style={styles.linkButton}>
+        <Text style={[styles.linkText, resendWait > 0 && styles.linkTextDisabled]}>
+          {resendWait > 0 ? `Resend code in ${formatCountdown(resendWait)}` : 'Resend code'}
+        </Text>
+      </TouchableOpacity>
+
+      <TouchableOpacity onPress={onChangeNumber} style={styles.linkButton}>
+        <Text style={styles.linkText}>Change mobile number</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+  },
+  description: {
+    fontSize: 15,
+    color: '#4B5563',
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+  inputContainer: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    paddingHorizontal: 20,
+    paddingVertical: 14,
+    borderWidth: 1,
+    borderColor: 'rgba(229, 231, 235, 0.8)',
+    shadowColor: '#000000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  input: {
+    fontSize: 24,
+    letterSpacing: 12,
+    textAlign: 'center',
+    color: '#1F2937',
+    fontWeight: '600',
+  },
+  expiryText: {
+    marginTop: 12,
+    fontSize: 13,
+    color: '#6B7280',
+    textAlign: 'center',
+  },
+  expiredText: {
+    color: '#EF4444',
+  },
+  buttonContainer: {
+    alignItems: 'center',
+    marginTop: 24,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  button: {
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 16,
+    paddingHorizontal: 48,
+    minWidth: 180,
+  },
+  buttonText: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    letterSpacing: 0.5,
+  },
+  linkButton: {
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  linkText: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#5603BD',
+  },
+  linkTextDisabled: {
+    color: '#9CA3AF',
+  },
+});
@@ -0,0 +1,80 @@
+import React, { useContext } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, StyleSheet } from 'react-native';
+import { User, Users } from 'lucide-react-native';
+import { AuthContext } from '@/contexts/AuthContext';
+
+// Chip row for caregivers to pick whose data the screen shows; hidden when there are no dependents
+export default function ProfileSwitcher() {
+  const { profiles, activePatientId, switchProfile } = useContext(AuthContext);
+
+  if (profiles.length <= 1) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.row}>
+        {profiles.map((profile) => {
+          const isActive = profile.patientId === activePatientId;
+          const Icon = profile.kind === 'self' ? User : Users;
+          return (
+            <TouchableOpacity
+              key={profile.patientId}
+              style={[styles.chip, isActive && styles.chipActive]}
+              onPress={() => switchProfile(profile.patientId)}
+            >
+              <Icon size={14} color={isActive ? '#FFFFFF' : '#5603BD'} />
+              <Text style={[styles.chipText, isActive && styles.chipTextActive]}>
+                {profile.kind === 'self' ? 'Me' : profile.name}
+              </Text>
+              {profile.relationship ? (
+                <Text style={[styles.chipSubtext, isActive && styles.chipTextActive]}>
+                  {profile.relationship}
+                </Text>
+              ) : null}
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E2E8F0',
+  },
+  row: {
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#5603BD',
+    backgroundColor: '#FFFFFF',
+  },
+  chipActive: {
+    backgroundColor: '#5603BD',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#5603BD',
+  },
+  chipSubtext: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+  },
+});
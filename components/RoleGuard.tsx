@@ -0,0 +1,103 @@
+import React, { useContext, useEffect, useState } from 'react';
+import { View, ActivityIndicator, StyleSheet } from 'react-native';
+import { Redirect } from 'expo-router';
+import { AuthContext, UserRole, getHomeRoute } from '@/contexts/AuthContext';
+import { isDoctorVerified } from '@/lib/doctorVerification';
+
+interface RoleGuardProps {
+  role: UserRole;
+  children: React.ReactNode;
+}
+
+/**
+ * Gate for a route group: waits for the session to be restored, then sends
+ * signed-out users to login, other roles to their own home, patients who
+ * have not finished onboarding to the onboarding flow, and doctors who are
+ * not yet verified to the credential submission screen.
+ */
+export function RoleGuard({ role, children }: RoleGuardProps) {
+  const { user, isInitializing, checkPatientOnboardingComplete } = useContext(AuthContext);
+  const [onboardingComplete, setOnboardingComplete] = useState<boolean | null>(null);
+
+  const [doctorVerified, setDoctorVerified] = useState<boolean | null>(null);
+
+  const needsOnboardingCheck = role === 'patient' && user?.role === 'patient';
+  const needsVerificationCheck = role === 'doctor' && user?.role === 'doctor';
+
+  useEffect(() => {
+    let isMounted = true;
+
+    if (!needsOnboardingCheck || !user) {
+      setOnboardingComplete(null);
+      return;
+    }
+
+    checkPatientOnboardingComplete(user.id).then((complete) => {
+      if (isMounted) {
+        setOnboardingComplete(complete);
+      }
+    });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [user?.id, needsOnboardingCheck]);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    if (!needsVerificationCheck || !user) {
+      setDoctorVerified(null);
+      return;
+    }
+
+    isDoctorVerified(user.id).then((verified) => {
+      if (isMounted) {
+        setDoctorVerified(verified);
+      }
+    });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [user?.id, needsVerificationCheck]);
+
+  if (
+    isInitializing ||
+    (needsOnboardingCheck && onboardingComplete === null) ||
+    (needsVerificationCheck && doctorVerified === null)
+  ) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#5603BD" />
+      </View>
+    );
+  }
+
+  if (!user) {
+    return <Redirect href="/login" />;
+  }
+
+  if (user.role !== role) {
+    return <Redirect href={getHomeRoute(user.role)} />;
+  }
+
+  if (needsOnboardingCheck && !onboardingComplete) {
+    return <Redirect href="/onboarding" />;
+  }
+
+  if (needsVerificationCheck && !doctorVerified) {
+    return <Redirect href="/doctor/verification" />;
+  }
+
+  return <>{children}</>;
+}
+
+const styles = StyleSheet.create({
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+  },
+});
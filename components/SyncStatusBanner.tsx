@@ -0,0 +1,93 @@
+import React, { useContext } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { CloudOff, RefreshCw } from 'lucide-react-native';
+import { OfflineContext } from '@/contexts/OfflineContext';
+
+interface SyncStatusBannerProps {
+  // When the screen is showing cached data, the time that copy was saved
+  cachedAt?: string | null;
+}
+
+/**
+ * Tells the patient when they are offline or have changes waiting to sync.
+ * Renders nothing while online with an empty outbox.
+ */
+export default function SyncStatusBanner({ cachedAt }: SyncStatusBannerProps) {
+  const { isOnline, pendingActions, isSyncing, syncNow } = useContext(OfflineContext);
+
+  if (isOnline && pendingActions.length === 0 && !cachedAt) return null;
+
+  const pendingText = pendingActions.length > 0
+    ? `${pendingActions.length} change${pendingActions.length === 1 ? '' : 's'} waiting to sync`
+    : null;
+  const cachedText = cachedAt
+    ? `Showing data saved ${new Date(cachedAt).toLocaleString()}`
+    : null;
+
+  return (
+    <View style={[styles.banner, isOnline ? styles.bannerPending : styles.bannerOffline]}>
+      <CloudOff color={isOnline ? '#92400E' : '#374151'} size={18} />
+      <View style={styles.textContainer}>
+        <Text style={styles.title}>{isOnline ? 'Not synced yet' : 'You are offline'}</Text>
+        {[pendingText, cachedText].filter(Boolean).map((line) => (
+          <Text key={line} style={styles.subtitle}>{line}</Text>
+        ))}
+      </View>
+      {isOnline && pendingActions.length > 0 && (
+        isSyncing ? (
+          <ActivityIndicator size="small" color="#5603BD" />
+        ) : (
+          <TouchableOpacity style={styles.syncButton} onPress={syncNow}>
+            <RefreshCw color="#5603BD" size={14} />
+            <Text style={styles.syncButtonText}>Sync now</Text>
+          </TouchableOpacity>
+        )
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 16,
+    marginTop: 8,
+    padding: 12,
+    borderRadius: 12,
+  },
+  bannerOffline: {
+    backgroundColor: '#F3F4F6',
+  },
+  bannerPending: {
+    backgroundColor: '#FEF3C7',
+  },
+  textContainer: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  subtitle: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  syncButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#FFFFFF',
+  },
+  syncButtonText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#5603BD',
+    marginLeft: 4,
+  },
+});
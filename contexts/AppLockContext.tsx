@@ -0,0 +1,188 @@
+import React, { createContext, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
+import { AuthContext } from './AuthContext';
+import {
+  MAX_PIN_ATTEMPTS,
+  PinAttempts,
+  clearPin,
+  getLockTimeout,
+  getPinAttempts,
+  hasPin,
+  isAppLockSupported,
+  recordFailedPinAttempt,
+  resetPinAttempts,
+  saveLockTimeout,
+  savePin,
+  verifyPin,
+} from '../lib/appLock';
+
+const NO_FAILED_ATTEMPTS: PinAttempts = { failedAttempts: 0, lockedUntil: null };
+
+interface AppLockContextType {
+  isLocked: boolean;
+  isPinSet: boolean;
+  lockTimeout: number;
+  // Wrong PINs since the last unlock, persisted so they survive a restart
+  pinAttempts: PinAttempts;
+  // Resolves false for a wrong PIN, and without checking it while entry is locked out
+  unlock: (pin: string) => Promise<boolean>;
+  enableLock: (pin: string) => Promise<void>;
+  disableLock: (pin: string) => Promise<boolean>;
+  // Escape hatch from the lock screen: drops the PIN, then the caller signs out
+  forgetPin: () => Promise<void>;
+  setLockTimeout: (timeoutMs: number) => Promise<void>;
+  // Called on every touch so the inactivity timer only runs while the app is idle
+  recordActivity: () => void;
+}
+
+export const AppLockContext = createContext<AppLockContextType>({
+  isLocked: false,
+  isPinSet: false,
+  lockTimeout: 0,
+  pinAttempts: NO_FAILED_ATTEMPTS,
+  unlock: async () => false,
+  enableLock: async () => {},
+  disableLock: async () => false,
+  forgetPin: async () => {},
+  setLockTimeout: async () => {},
+  recordActivity: () => {},
+});
+
+export const AppLockProvider = ({ children }: { children: ReactNode }) => {
+  const { user, isInitializing } = useContext(AuthContext);
+  const [isPinSet, setIsPinSet] = useState(false);
+  const [isLocked, setIsLocked] = useState(false);
+  const [lockTimeout, setLockTimeoutState] = useState(0);
+  const [pinAttempts, setPinAttempts] = useState<PinAttempts>(NO_FAILED_ATTEMPTS);
+  const lastActiveRef = useRef(Date.now());
+  const idleTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Set once the persisted session has been restored; later user changes are fresh sign-ins
+  const sessionRestoredRef = useRef(false);
+
+  const clearIdleTimer = () => {
+    if (idleTimerRef.current) {
+      clearTimeout(idleTimerRef.current);
+      idleTimerRef.current = null;
+    }
+  };
+
+  const startIdleTimer = () => {
+    clearIdleTimer();
+    if (!isPinSet || isLocked) return;
+    // "Immediately" only applies to backgrounding; in the foreground wait at least a minute
+    idleTimerRef.current = setTimeout(() => setIsLocked(true), Math.max(lockTimeout, 60 * 1000));
+  };
+
+  // Load this user's PIN state. A cold start with a PIN set begins locked; a
+  // sign-in with a password does not, since the user has just authenticated.
+  useEffect(() => {
+    if (isInitializing) return;
+    const isColdStart = !sessionRestoredRef.current;
+    sessionRestoredRef.current = true;
+
+    if (!user || !isAppLockSupported) {
+      setIsPinSet(false);
+      setIsLocked(false);
+      setPinAttempts(NO_FAILED_ATTEMPTS);
+      return;
+    }
+
+    const loadLockState = async () => {
+      const [pinSet, timeout, attempts] = await Promise.all([
+        hasPin(user.id),
+        getLockTimeout(user.id, user.role),
+        getPinAttempts(user.id),
+      ]);
+      setIsPinSet(pinSet);
+      setLockTimeoutState(timeout);
+      setPinAttempts(attempts);
+      setIsLocked(pinSet && isColdStart);
+    };
+
+    loadLockState();
+  }, [user?.id, isInitializing]);
+
+  useEffect(() => {
+    startIdleTimer();
+    return clearIdleTimer;
+  }, [isPinSet, isLocked, lockTimeout]);
+
+  useEffect(() => {
+    const handleAppStateChange = (state: AppStateStatus) => {
+      if (state === 'active') {
+        if (isPinSet && Date.now() - lastActiveRef.current >= lockTimeout) {
+          setIsLocked(true);
+        }
+        startIdleTimer();
+      } else if (state === 'background') {
+        lastActiveRef.current = Date.now();
+        clearIdleTimer();
+      }
+    };
+
+    const subscription = AppState.addEventListener('change', handleAppStateChange);
+    return () => subscription.remove();
+  }, [isPinSet, isLocked, lockTimeout]);
+
+  const recordActivity = () => {
+    lastActiveRef.current = Date.now();
+    if (isPinSet && !isLocked) {
+      startIdleTimer();
+    }
+  };
+
+  const unlock = async (pin: string): Promise<boolean> => {
+    if (!user) return false;
+    // Read from SecureStore rather than state, so a restart mid-lockout can't skip it
+    const attempts = await getPinAttempts(user.id);
+    if (attempts.failedAttempts >= MAX_PIN_ATTEMPTS || (attempts.lockedUntil ?? 0) > Date.now()) {
+      setPinAttempts(attempts);
+      return false;
+    }
+
+    if (!(await verifyPin(user.id, pin))) {
+      setPinAttempts(await recordFailedPinAttempt(user.id));
+      return false;
+    }
+
+    await resetPinAttempts(user.id);
+    setPinAttempts(NO_FAILED_ATTEMPTS);
+    lastActiveRef.current = Date.now();
+    setIsLocked(false);
+    return true;
+  };
+
+  const enableLock = async (pin: string) => {
+    if (!user) return;
+    await savePin(user.id, pin);
+    setIsPinSet(true);
+  };
+
+  const disableLock = async (pin: string): Promise<boolean> => {
+    if (!user || !(await verifyPin(user.id, pin))) return false;
+    await clearPin(user.id);
+    setIsPinSet(false);
+    setLockTimeoutState(await getLockTimeout(user.id, user.role));
+    return true;
+  };
+
+  const forgetPin = async () => {
+    if (!user) return;
+    await clearPin(user.id);
+    setIsPinSet(false);
+    setIsLocked(false);
+    setPinAttempts(NO_FAILED_ATTEMPTS);
+  };
+
+  const setLockTimeout = async (timeoutMs: number) => {
+    if (!user) return;
+    await saveLockTimeout(user.id, timeoutMs);
+    setLockTimeoutState(timeoutMs);
+  };
+
+  return (
+    <AppLockContext.Provider value={{ isLocked: isLocked && !!user, isPinSet, lockTimeout, pinAttempts, unlock, enableLock, disableLock, forgetPin, setLockTimeout, recordActivity }}>
+      {children}
+    </AppLockContext.Provider>
+  );
+};
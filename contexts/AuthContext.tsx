@@ -1,37 +1,160 @@
-import React, { createContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useState, useEffect, useRef, ReactNode } from 'react';
+import * as Linking from 'expo-linking';
+import * as WebBrowser from 'expo-web-browser';
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { supabase, testSupabaseConnection } from '../lib/supabase';
+import {
+  OtpRequestState,
+  getOtpErrorMessage,
+  getPhoneAuthClient,
+  nextOtpRequest,
+  normalizePhoneNumber,
+} from '../lib/phoneAuth';
+import {
+  CaregiverAction,
+  CaregiverPermission,
+  CaregiverPermissions,
+  FULL_PERMISSIONS,
+  fetchDependents,
+  logCaregiverAction,
+} from '../lib/caregivers';
+import { createFamilyProfile, fetchFamilyProfiles } from '../lib/familyProfiles';
+import {
+  clearDeviceSessions,
+  registerDeviceSession,
+  removeDeviceSession,
+  syncProfileEmail,
+} from '../lib/accountSecurity';
+import { clearOfflineCache } from '../lib/offlineCache';
 import { Session, User as SupabaseUser } from '@supabase/supabase-js';
 
+// Admin accounts are provisioned directly in the database; there is no admin sign-up
+export type UserRole = 'doctor' | 'patient' | 'pharmacy' | 'admin';
+
 export interface User {
   id: string;
   email: string;
-  role: 'doctor' | 'patient';
+  role: UserRole;
   name: string;
   avatar?: string;
 }
 
+// A patient whose data the signed-in user can work with: themselves, a household member
+// held under their login, or a dependent they care for
+export interface PatientProfile {
+  patientId: string;
+  name: string;
+  kind: 'self' | 'family' | 'dependent';
+  relationship?: string;
+  permissions: CaregiverPermissions;
+}
+
+// Last profile selected in the switcher, restored on the next launch
+const ACTIVE_PROFILE_KEY = 'auth.activePatientId';
+
+// Role chosen before leaving for the OAuth browser; survives an app restart mid-flow
+const INTENDED_ROLE_KEY = 'auth.intendedRole';
+
+export const OAUTH_CALLBACK_PATH = 'auth/callback';
+
+// Password reset emails link back here with a ?code= for the recovery session
+export const PASSWORD_RESET_PATH = 'reset-password';
+
+export interface OAuthSignInResult {
+  user: User;
+  isNewUser: boolean;
+}
+
+// Landing screen for each role once the user is signed in
+export const getHomeRoute = (role: UserRole) => {
+  switch (role) {
+    case 'doctor':
+      return '/(doctor)/appointments';
+    case 'pharmacy':
+      return '/(pharmacy)/home';
+    case 'admin':
+      return '/(admin)/review';
+    default:
+      return '/(patient)/today';
+  }
+};
+
 interface AuthContextType {
   user: User | null;
-  login: (email: string, password: string) => Promise<void>;
-  loginWithGoogle: (role: 'doctor' | 'patient') => Promise<void>;
-  signup: (email: string, password: string, name: string, role: 'doctor' | 'patient') => Promise<void>;
+  login: (email: string, password: string) => Promise<User>;
+  // Resolves with the auth code to hand to the callback route, or null if cancelled
+  loginWithGoogle: (role: UserRole) => Promise<string | null>;
+  completeOAuthSignIn: (code: string) => Promise<OAuthSignInResult>;
+  signup: (email: string, password: string, name: string, role: UserRole) => Promise<void>;
+  // Phone + OTP flow for patients without email. Pass `name` to sign up a new patient.
+  sendPhoneOtp: (phone: string, name?: string) => Promise<OtpRequestState>;
+  verifyPhoneOtp: (phone: string, token: string) => Promise<User>;
   logout: () => void;
+  // Account security: reset links are handled by the reset-password route
+  requestPasswordReset: (email: string) => Promise<void>;
+  completePasswordRecovery: (code: string) => Promise<void>;
+  updatePassword: (newPassword: string) => Promise<void>;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+  // Sends a confirmation link to the new address; the change applies once it is opened
+  changeEmail: (newEmail: string) => Promise<void>;
+  signOutEverywhere: () => Promise<void>;
   isLoading: boolean;
+  isInitializing: boolean;
   isAuthenticated: boolean;
   checkPatientOnboarding: (userId: string) => Promise<boolean>;
   checkPatientOnboardingComplete: (userId: string) => Promise<boolean>;
+  // Profile switcher: patient screens should query by activePatientId rather than user.id
+  profiles: PatientProfile[];
+  activeProfile: PatientProfile | null;
+  activePatientId: string | null;
+  switchProfile: (patientId: string) => Promise<void>;
+  refreshProfiles: () => Promise<void>;
+  addFamilyProfile: (name: string, relationship: string) => Promise<PatientProfile>;
+  hasPermission: (permission: CaregiverPermission) => boolean;
+  // Records the signed-in caregiver as the actor when the active profile is a dependent
+  recordCaregiverAction: (action: CaregiverAction, resourceId?: string) => Promise<void>;
 }
 
 export const AuthContext = createContext<AuthContextType>({
   user: null,
-  login: async () => {},
-  loginWithGoogle: async () => {},
+  login: async () => {
+    throw new Error('AuthProvider is not mounted');
+  },
+  loginWithGoogle: async () => null,
+  completeOAuthSignIn: async () => {
+    throw new Error('AuthProvider is not mounted');
+  },
   signup: async () => {},
+  sendPhoneOtp: async () => {
+    throw new Error('AuthProvider is not mounted');
+  },
+  verifyPhoneOtp: async () => {
+    throw new Error('AuthProvider is not mounted');
+  },
   logout: () => {},
+  requestPasswordReset: async () => {},
+  completePasswordRecovery: async () => {
+    throw new Error('AuthProvider is not mounted');
+  },
+  updatePassword: async () => {},
+  changePassword: async () => {},
+  changeEmail: async () => {},
+  signOutEverywhere: async () => {},
   isLoading: false,
+  isInitializing: true,
   isAuthenticated: false,
   checkPatientOnboarding: async () => false,
   checkPatientOnboardingComplete: async () => false,
+  profiles: [],
+  activeProfile: null,
+  activePatientId: null,
+  switchProfile: async () => {},
+  refreshProfiles: async () => {},
+  addFamilyProfile: async () => {
+    throw new Error('AuthProvider is not mounted');
+  },
+  hasPermission: () => false,
+  recordCaregiverAction: async () => {},
 });
 
 interface AuthProviderProps {
@@ -41,11 +164,27 @@ interface AuthProviderProps {
 export function AuthProvider({ children }: AuthProviderProps) {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(false);
-  const [intendedRole, setIntendedRole] = useState<'doctor' | 'patient' | null>(null);
+  // True until the persisted session (and its profile) has been restored
+  const [isInitializing, setIsInitializing] = useState(true);
+  // In-flight code exchanges, so the deep link and the in-app browser result can't both redeem one code
+  const oauthExchangesRef = useRef<Record<string, Promise<OAuthSignInResult>>>({});
+  // Last OTP sent, used to throttle resends and detect expired codes
+  const otpRequestRef = useRef<OtpRequestState | null>(null);
+  // Family members and caregiving dependents, in switcher order
+  const [otherProfiles, setOtherProfiles] = useState<PatientProfile[]>([]);
+  const [selectedPatientId, setSelectedPatientId] = useState<string | null>(null);
 
   // Derive isAuthenticated from user state
   const isAuthenticated = user !== null;
 
+  const selfProfile: PatientProfile | null = user
+    ? { patientId: user.id, name: user.name, kind: 'self', permissions: FULL_PERMISSIONS }
+    : null;
+  const profiles = selfProfile ? [selfProfile, ...otherProfiles] : [];
+  // Fall back to the user's own profile until the others load, or if access was revoked
+  const activeProfile = profiles.find((profile) => profile.patientId === selectedPatientId) ?? selfProfile;
+  const activePatientId = activeProfile?.patientId ?? null;
+
   // Helper to fetch user profile from Supabase users table
   const fetchUserProfile = async (supabaseUser: SupabaseUser): Promise<User | null> => {
     if (!supabaseUser) return null;
@@ -113,7 +252,53 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   };
 
-  const login = async (email: string, password: string) => {
+  // Create the users row (and patients row for patients) for a newly created auth user
+  const provisionUserProfile = async (userId: string, urole: UserRole) => {
+    try {
+      const { error: rpcError } = await supabase.rpc('handle_new_user', { _id: userId, _role: urole });
+      if (rpcError) {
+        console.error('RPC error:', rpcError);
+        // Don't throw here, as the user was created in auth
+        console.warn('User profile creation failed, but auth signup succeeded');
+      } else {
+        console.log('User profile created successfully');
+      }
+
+      // For patients, ensure patient record is created with profile_completed = false
+      if (urole === 'patient') {
+        const { error: patientError } = await supabase
+          .from('patients')
+          .upsert({
+            id: userId,
+            profile_completed: false,
+            medical_history_completed: false,
+          }, {
+            onConflict: 'id'
+          });
+
+        if (patientError) {
+          console.error('Error creating patient record:', patientError);
+        } else {
+          console.log('Patient record created successfully');
+        }
+      }
+
+      // Pharmacies fill in their store details from the portal profile screen
+      if (urole === 'pharmacy') {
+        const { error: pharmacyError } = await supabase
+          .from('pharmacies')
+          .upsert({ id: userId }, { onConflict: 'id' });
+
+        if (pharmacyError) {
+          console.error('Error creating pharmacy record:', pharmacyError);
+        }
+      }
+    } catch (rpcError) {
+      console.error('Error calling handle_new_user:', rpcError);
+    }
+  };
+
+  const login = async (email: string, password: string): Promise<User> => {
     setIsLoading(true);
     try {
       console.log('Attempting login with:', email);
@@ -138,6 +323,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
         }
         setUser(userProfile);
         console.log('Login successful');
+        return userProfile;
       } else {
         throw new Error('No user data returned from authentication service');
       }
@@ -149,24 +335,74 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   };
 
-  const loginWithGoogle = async (role: 'doctor' | 'patient') => {
-    setIntendedRole(role);
+  const loginWithGoogle = async (role: UserRole): Promise<string | null> => {
     setIsLoading(true);
-    const { error } = await supabase.auth.signInWithOAuth({
-      provider: 'google',
-      options: {
-        redirectTo: 'your-app-scheme://auth/callback' // Replace with your app's deep link
+    try {
+      await AsyncStorage.setItem(INTENDED_ROLE_KEY, role);
+
+      const redirectTo = Linking.createURL(OAUTH_CALLBACK_PATH);
+      const { data, error } = await supabase.auth.signInWithOAuth({
+        provider: 'google',
+        options: {
+          redirectTo,
+          skipBrowserRedirect: true,
+        },
+      });
+      if (error) {
+        throw error;
       }
-    });
-    if (error) {
+
+      const result = await WebBrowser.openAuthSessionAsync(data.url, redirectTo);
+      if (result.type !== 'success') {
+        console.log('Google sign-in was not completed:', result.type);
+        return null;
+      }
+
+      const { queryParams } = Linking.parse(result.url);
+      if (queryParams?.error_description) {
+        throw new Error(String(queryParams.error_description));
+      }
+      return typeof queryParams?.code === 'string' ? queryParams.code : null;
+    } finally {
       setIsLoading(false);
-      throw error;
     }
-    // Note: User data will be handled in the auth state change listener
-    setIsLoading(false);
   };
 
-  const signup = async (email: string, password: string, uname: string, urole: 'doctor' | 'patient') => {
+  const exchangeOAuthCode = async (code: string): Promise<OAuthSignInResult> => {
+    const { data, error } = await supabase.auth.exchangeCodeForSession(code);
+    if (error) {
+      console.error('OAuth code exchange error:', error);
+      throw new Error(`Google sign-in failed: ${error.message}`);
+    }
+
+    let userProfile = await fetchUserProfile(data.user);
+    const isNewUser = !userProfile;
+
+    if (!userProfile) {
+      // First Google login: create the profile with the role picked before sign-in
+      const storedRole = await AsyncStorage.getItem(INTENDED_ROLE_KEY);
+      const role: UserRole = storedRole === 'doctor' || storedRole === 'pharmacy' ? storedRole : 'patient';
+      await provisionUserProfile(data.user.id, role);
+      userProfile = await fetchUserProfile(data.user);
+    }
+    if (!userProfile) {
+      throw new Error('User profile could not be created. Please contact support.');
+    }
+
+    await AsyncStorage.removeItem(INTENDED_ROLE_KEY);
+    setUser(userProfile);
+    return { user: userProfile, isNewUser };
+  };
+
+  const completeOAuthSignIn = (code: string): Promise<OAuthSignInResult> => {
+    if (!oauthExchangesRef.current[code]) {
+      setIsLoading(true);
+      oauthExchangesRef.current[code] = exchangeOAuthCode(code).finally(() => setIsLoading(false));
+    }
+    return oauthExchangesRef.current[code];
+  };
+
+  const signup = async (email: string, password: string, uname: string, urole: UserRole) => {
     setIsLoading(true);
     try {
       console.log('Attempting signup with:', email, uname, urole);
@@ -192,51 +428,180 @@ export function AuthProvider({ children }: AuthProviderProps) {
       console.log('User created with ID:', userId);
 
       // Insert user profile into Supabase users table
-      try {
-        const { error: rpcError } = await supabase.rpc('handle_new_user', { _id: userId, _role: urole });
-        if (rpcError) {
-          console.error('RPC error:', rpcError);
-          // Don't throw here, as the user was created in auth
-          console.warn('User profile creation failed, but auth signup succeeded');
-        } else {
-          console.log('User profile created successfully');
-        }
+      await provisionUserProfile(userId, urole);
+    } catch (error) {
+      console.error('Signup failed:', error);
+      throw error;
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
-        // For patients, ensure patient record is created with profile_completed = false
-        if (urole === 'patient') {
-          const { error: patientError } = await supabase
-            .from('patients')
-            .upsert({
-              id: userId,
-              profile_completed: false,
-              medical_history_completed: false,
-            }, {
-              onConflict: 'id'
-            });
-
-          if (patientError) {
-            console.error('Error creating patient record:', patientError);
-          } else {
-            console.log('Patient record created successfully');
-          }
+  const sendPhoneOtp = async (phone: string, name?: string): Promise<OtpRequestState> => {
+    const normalizedPhone = normalizePhoneNumber(phone);
+    if (!normalizedPhone) {
+      throw new Error('Please enter a valid 10-digit mobile number.');
+    }
+
+    // Throws if the resend cooldown is still running
+    const request = nextOtpRequest(otpRequestRef.current, normalizedPhone);
+
+    setIsLoading(true);
+    try {
+      const { error } = await getPhoneAuthClient().signInWithOtp({
+        phone: normalizedPhone,
+        options: name
+          ? {
+              shouldCreateUser: true,
+              data: {
+                name,
+                role: 'patient',
+              },
+            }
+          : { shouldCreateUser: false },
+      });
+      if (error) {
+        console.error('Send OTP error:', error);
+        if (!name && /signups not allowed|not found/i.test(error.message)) {
+          throw new Error('No account found for this number. Please sign up first.');
         }
-      } catch (rpcError) {
-        console.error('Error calling handle_new_user:', rpcError);
+        throw new Error(getOtpErrorMessage(error.message));
       }
 
-    } catch (error) {
-      console.error('Signup failed:', error);
-      throw error;
+      otpRequestRef.current = request;
+      return request;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const verifyPhoneOtp = async (phone: string, token: string): Promise<User> => {
+    const normalizedPhone = normalizePhoneNumber(phone);
+    if (!normalizedPhone) {
+      throw new Error('Please enter a valid 10-digit mobile number.');
+    }
+
+    const request = otpRequestRef.current;
+    if (!request || request.phone !== normalizedPhone || Date.now() >= request.expiresAt) {
+      throw new Error('This code has expired. Please request a new one.');
+    }
+
+    setIsLoading(true);
+    try {
+      const { data, error } = await getPhoneAuthClient().verifyOtp({
+        phone: normalizedPhone,
+        token: token.trim(),
+        type: 'sms',
+      });
+      if (error) {
+        console.error('Verify OTP error:', error);
+        throw new Error(getOtpErrorMessage(error.message));
+      }
+      if (!data.user) {
+        throw new Error('No user data returned from authentication service');
+      }
+
+      otpRequestRef.current = null;
+
+      let userProfile = await fetchUserProfile(data.user);
+      if (!userProfile) {
+        // First verification of a phone sign-up: create the rows the way signup does
+        await provisionUserProfile(data.user.id, 'patient');
+        userProfile = await fetchUserProfile(data.user);
+      }
+      if (!userProfile) {
+        throw new Error('User profile not found. Please contact support.');
+      }
+
+      // Only fills an empty number, so a sign-up whose first save failed is repaired on the next sign-in
+      const userId = data.user.id;
+      const savePhone = () =>
+        supabase
+          .from('users')
+          .update({ phone: normalizedPhone })
+          .eq('id', userId)
+          .is('phone', null);
+      let { error: phoneError } = await savePhone();
+      if (phoneError) {
+        ({ error: phoneError } = await savePhone());
+      }
+      if (phoneError) {
+        console.error('Error saving phone number:', phoneError);
+        await supabase.auth.signOut();
+        throw new Error('Your number was verified but could not be saved to your profile. Please try again.');
+      }
+
+      setUser(userProfile);
+      return userProfile;
     } finally {
       setIsLoading(false);
     }
   };
 
+  const refreshProfiles = async () => {
+    if (!user) return;
+    const [family, links] = await Promise.all([
+      fetchFamilyProfiles(user.id),
+      fetchDependents(user.id),
+    ]);
+    setOtherProfiles([
+      ...family.map((member): PatientProfile => ({
+        patientId: member.id,
+        name: member.name,
+        kind: 'family',
+        relationship: member.relationship,
+        permissions: FULL_PERMISSIONS,
+      })),
+      ...links.map((link): PatientProfile => ({
+        patientId: link.patientId,
+        name: link.patientName,
+        kind: 'dependent',
+        relationship: link.relationship,
+        permissions: link.permissions,
+      })),
+    ]);
+  };
+
+  const addFamilyProfile = async (name: string, relationship: string): Promise<PatientProfile> => {
+    if (!user) {
+      throw new Error('You must be signed in to add a family member.');
+    }
+    const member = await createFamilyProfile(user.id, name, relationship);
+    await refreshProfiles();
+    return {
+      patientId: member.id,
+      name: member.name,
+      kind: 'family',
+      relationship: member.relationship,
+      permissions: FULL_PERMISSIONS,
+    };
+  };
+
+  const switchProfile = async (patientId: string) => {
+    setSelectedPatientId(patientId);
+    await AsyncStorage.setItem(ACTIVE_PROFILE_KEY, patientId);
+  };
+
+  const hasPermission = (permission: CaregiverPermission) => {
+    return !!activeProfile && activeProfile.permissions[permission];
+  };
+
+  const recordCaregiverAction = async (action: CaregiverAction, resourceId?: string) => {
+    if (!user || activeProfile?.kind !== 'dependent') return;
+    await logCaregiverAction(user.id, activeProfile.patientId, action, resourceId);
+  };
+
   const logout = async () => {
     setIsLoading(true);
     try {
       console.log('Logging out user...');
+      if (user) {
+        await removeDeviceSession(user.id);
+      }
       await supabase.auth.signOut();
+      await AsyncStorage.removeItem(ACTIVE_PROFILE_KEY);
+      await clearOfflineCache();
+      setSelectedPatientId(null);
       setUser(null);
       console.log('User logged out successfully');
     } catch (error) {
@@ -246,28 +611,154 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   };
 
+  const requestPasswordReset = async (email: string) => {
+    const { error } = await supabase.auth.resetPasswordForEmail(email.trim(), {
+      redirectTo: Linking.createURL(PASSWORD_RESET_PATH),
+    });
+    if (error) {
+      throw new Error(`Failed to send reset link: ${error.message}`);
+    }
+  };
+
+  // The code is tied to the PKCE verifier stored when the reset was requested on this device
+  const completePasswordRecovery = async (code: string) => {
+    const { error } = await supabase.auth.exchangeCodeForSession(code);
+    if (error) {
+      throw new Error('This reset link is invalid or has expired. Please request a new one.');
+    }
+  };
+
+  const updatePassword = async (newPassword: string) => {
+    const { error } = await supabase.auth.updateUser({ password: newPassword });
+    if (error) {
+      throw new Error(`Failed to update password: ${error.message}`);
+    }
+  };
+
+  const changePassword = async (currentPassword: string, newPassword: string) => {
+    if (!user?.email) {
+      throw new Error('Password sign-in is not set up for this account.');
+    }
+
+    // Re-authenticate so an unlocked phone alone can't be used to take over the account
+    const { error: verifyError } = await supabase.auth.signInWithPassword({
+      email: user.email,
+      password: currentPassword,
+    });
+    if (verifyError) {
+      throw new Error('Current password is incorrect.');
+    }
+
+    await updatePassword(newPassword);
+  };
+
+  const changeEmail = async (newEmail: string) => {
+    const { error } = await supabase.auth.updateUser(
+      { email: newEmail.trim() },
+      { emailRedirectTo: Linking.createURL(OAUTH_CALLBACK_PATH) }
+    );
+    if (error) {
+      throw new Error(`Failed to change email: ${error.message}`);
+    }
+  };
+
+  // Revokes every refresh token for the account, including this device's
+  const signOutEverywhere = async () => {
+    if (!user) return;
+    setIsLoading(true);
+    try {
+      await clearDeviceSessions(user.id);
+      const { error } = await supabase.auth.signOut({ scope: 'global' });
+      if (error) {
+        throw new Error(`Failed to sign out everywhere: ${error.message}`);
+      }
+      await AsyncStorage.removeItem(ACTIVE_PROFILE_KEY);
+      await clearOfflineCache();
+      setSelectedPatientId(null);
+      setUser(null);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   useEffect(() => {
+    let isMounted = true;
+
     // Test Supabase connection on mount
     testSupabaseConnection();
 
-    const { data: authListener } = supabase.auth.onAuthStateChange(async (event, session: Session | null) => {
+    // Restore the persisted session on cold start before rendering guarded screens
+    const restoreSession = async () => {
+      try {
+        const { data, error } = await supabase.auth.getSession();
+        if (error) {
+          console.error('Error restoring session:', error);
+        }
+        const sessionUser = data.session?.user;
+        const userProfile = sessionUser ? await fetchUserProfile(sessionUser) : null;
+        if (userProfile) {
+          registerDeviceSession(userProfile.id);
+        }
+        if (isMounted) {
+          setUser(userProfile);
+        }
+      } catch (error) {
+        console.error('Exception restoring session:', error);
+      } finally {
+        if (isMounted) {
+          setIsInitializing(false);
+        }
+      }
+    };
+
+    restoreSession();
+
+    const { data: authListener } = supabase.auth.onAuthStateChange((event, session: Session | null) => {
+      // The initial session is handled by restoreSession above
+      if (event === 'INITIAL_SESSION') return;
+
       if (session?.user) {
-        // Use intendedRole if set, otherwise default to patient
-        const userProfile = await fetchUserProfile(session.user);
-        setUser(userProfile);
-        setIntendedRole(null);
+        const sessionUser = session.user;
+        // Defer Supabase calls out of the auth callback to avoid deadlocking the client
+        setTimeout(async () => {
+          if (event === 'SIGNED_IN') {
+            registerDeviceSession(sessionUser.id);
+          }
+          if (event === 'USER_UPDATED' && sessionUser.email) {
+            syncProfileEmail(sessionUser.id, sessionUser.email);
+          }
+          const userProfile = await fetchUserProfile(sessionUser);
+          if (isMounted) {
+            // Keep a profile set by login/verify if the row was still being created
+            setUser((current) => userProfile ?? (current?.id === sessionUser.id ? current : null));
+          }
+        }, 0);
       } else {
         setUser(null);
       }
     });
 
     return () => {
+      isMounted = false;
       authListener?.subscription.unsubscribe();
     };
-  }, [intendedRole]);
+  }, []);
+
+  // Load the profiles a patient can switch between whenever a different user signs in
+  useEffect(() => {
+    if (!user || user.role !== 'patient') {
+      setOtherProfiles([]);
+      return;
+    }
+
+    refreshProfiles();
+    AsyncStorage.getItem(ACTIVE_PROFILE_KEY).then((storedId) => {
+      setSelectedPatientId(storedId);
+    });
+  }, [user?.id]);
 
   return (
-    <AuthContext.Provider value={{ user, login, loginWithGoogle, signup, logout, isLoading, isAuthenticated, checkPatientOnboarding, checkPatientOnboardingComplete }}>
+    <AuthContext.Provider value={{ user, login, loginWithGoogle, completeOAuthSignIn, signup, sendPhoneOtp, verifyPhoneOtp, logout, requestPasswordReset, completePasswordRecovery, updatePassword, changePassword, changeEmail, signOutEverywhere, isLoading, isInitializing, isAuthenticated, checkPatientOnboarding, checkPatientOnboardingComplete, profiles, activeProfile, activePatientId, switchProfile, refreshProfiles, addFamilyProfile, hasPermission, recordCaregiverAction }}>
       {children}
     </AuthContext.Provider>
   );
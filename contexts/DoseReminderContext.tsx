@@ -0,0 +1,276 @@
+import React, { createContext, useContext, useEffect, useRef, ReactNode } from 'react';
+import { Alert, AppState } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { useRouter } from 'expo-router';
+import { AuthContext } from './AuthContext';
+import { OfflineContext } from './OfflineContext';
+import { ToastContext } from './ToastContext';
+import {
+  SNOOZE_ACTION,
+  TAKE_ACTION,
+  cancelDoseReminders,
+  configureDoseReminders,
+  isDoseReminder,
+  scheduleDoseReminders,
+  snoozeDoseReminder,
+} from '../lib/doseReminders';
+import { addDays, doseKey, toDateKey } from '../lib/medicationSchedule';
+import {
+  EmergencyContact,
+  MissedDose,
+  findDosesToAlert,
+  markDosesAlerted,
+  sendMissedDoseAlert,
+} from '../lib/missedDoseAlerts';
+import { fetchWithCache } from '../lib/offlineCache';
+import { doseLoggedAction } from '../lib/outbox';
+import { subscribeToPrescriptionChanges } from '../lib/realtime';
+import { fetchDoseLogs, reviveDoseLogs } from '../lib/repositories/doseLogs';
+import { fetchPatient } from '../lib/repositories/patients';
+import { Prescription, fetchPatientPrescriptions } from '../lib/repositories/prescriptions';
+
+interface DoseReminderContextType {
+  // Reschedule from the latest prescriptions and dose log, e.g. after a dose is marked
+  refreshReminders: () => void;
+}
+
+export const DoseReminderContext = createContext<DoseReminderContextType>({
+  refreshReminders: () => {},
+});
+
+/**
+ * Keeps local reminders in step with the signed-in patient's own
+ * prescriptions and handles the "Taken" and "Snooze" buttons on them.
+ * Reminders are rescheduled on sign-in, whenever the app comes back to the
+ * foreground, when a prescription changes and when a dose is marked. Each
+ * refresh also checks for critical doses that went unmarked past their
+ * contact window and offers to text the patient's chosen contacts.
+ */
+export const DoseReminderProvider = ({ children }: { children: ReactNode }) => {
+  const { user } = useContext(AuthContext);
+  const { pendingActions, submit } = useContext(OfflineContext);
+  const { showToast } = useContext(ToastContext);
+  const router = useRouter();
+  const isPatient = user?.role === 'patient';
+  // Read from listeners registered once, so keep the latest values in refs
+  const pendingActionsRef = useRef(pendingActions);
+  pendingActionsRef.current = pendingActions;
+  const handledResponsesRef = useRef(new Set<string>());
+  // Several refreshes can land together (foreground, realtime, a dose marked); ask only once
+  const promptingRef = useRef(false);
+
+  const pendingDoseCount = pendingActions.filter((entry) => entry.action.type === 'dose_logged').length;
+
+  const refreshReminders = async () => {
+    if (!user || !isPatient) return;
+    const today = toDateKey();
+
+    // Both fall back to the cached copies, so reminders still get rescheduled offline. Yesterday's
+    // log is needed too, since a late-evening dose's follow-ups run past midnight; it has its own
+    // cache because the Today screen caches only today's
+    const [prescriptions, doseLogs] = await Promise.all([
+      fetchWithCache(user.id, 'prescriptions', () => fetchPatientPrescriptions(user.id, { status: 'active' })),
+      fetchWithCache(user.id, 'recentDoseLogs', () => fetchDoseLogs(user.id, addDays(today, -1), today), reviveDoseLogs),
+    ]);
+    if (!prescriptions.data) return;
+
+    const loggedDoseKeys = new Set([
+      ...(doseLogs.data ?? []).map((log) =>
+        doseKey(log.prescriptionId, log.medicineIndex, log.scheduledDate, log.scheduledTime)
+      ),
+      ...pendingActionsRef.current.flatMap((entry) =>
+        entry.action.type === 'dose_logged'
+          ? [doseKey(entry.action.dose.prescriptionId, entry.action.dose.medicineIndex, entry.action.dose.scheduledDate, entry.action.dose.scheduledTime)]
+          : []
+      ),
+    ]);
+    await scheduleDoseReminders(user.id, prescriptions.data, loggedDoseKeys);
+    // Without the dose log every dose looks missed, and contacts would be texted about nothing
+    if (doseLogs.data) {
+      await promptMissedDoses(prescriptions.data, loggedDoseKeys);
+    }
+  };
+
+  const markMissedDosesTaken = async (doses: MissedDose[]) => {
+    if (!user) return;
+    for (const dose of doses) {
+      const result = await submit(
+        doseLoggedAction(
+          {
+            patientId: user.id,
+            prescriptionId: dose.prescriptionId,
+            medicineIndex: dose.medicineIndex,
+            scheduledDate: dose.scheduledDate,
+            scheduledTime: dose.scheduledTime,
+          },
+          'taken'
+        ),
+        user.id
+      );
+      if (result.status === 'failed') {
+        console.error('Error marking missed dose:', result.message);
+      }
+    }
+    refreshReminders();
+  };
+
+  const alertContacts = async (doses: MissedDose[]) => {
+    if (!user) return;
+    const { data: patient } = await fetchWithCache(user.id, 'patient', () => fetchPatient(user.id));
+    try {
+      const result = await sendMissedDoseAlert(
+        user.name,
+        doses,
+        (patient?.emergency_contacts ?? []) as EmergencyContact[]
+      );
+      if (result === 'sent') {
+        showToast('Your emergency contacts have been texted', 'info');
+      } else if (result === 'no_contacts') {
+        Alert.alert(
+          'No contacts chosen',
+          'Choose who should hear about missed doses under Emergency Contacts on your profile.'
+        );
+      } else if (result === 'unavailable') {
+        Alert.alert('SMS unavailable', 'This device cannot send text messages.');
+      }
+    } catch (error) {
+      console.error('Error sending missed dose alert:', error);
+      showToast('Could not text your emergency contacts', 'error');
+    }
+  };
+
+  const promptMissedDoses = async (prescriptions: Prescription[], loggedDoseKeys: Set<string>) => {
+    if (!user || promptingRef.current || AppState.currentState !== 'active') return;
+    const missed = await findDosesToAlert(user.id, prescriptions, loggedDoseKeys);
+    if (missed.length === 0) return;
+
+    promptingRef.current = true;
+    // Recorded before asking, so dismissing the prompt doesn't bring it back on every refresh
+    await markDosesAlerted(user.id, missed.map((dose) => dose.key));
+    const names = missed.map((dose) => dose.medicineName).join(', ');
+    Alert.alert(
+      'Missed medicine',
+      `${names} hasn't been marked as taken. Let your emergency contacts know so someone can check on you?`,
+      [
+        {
+          text: 'I took it',
+          onPress: () => {
+            promptingRef.current = false;
+            markMissedDosesTaken(missed);
+          },
+        },
+        {
+          text: 'Text contacts',
+          style: 'destructive',
+          onPress: () => {
+            promptingRef.current = false;
+            alertContacts(missed);
+          },
+        },
+      ],
+      { cancelable: true, onDismiss: () => (promptingRef.current = false) }
+    );
+  };
+
+  const handleResponse = async (response: Notifications.NotificationResponse) => {
+    const { request, date } = response.notification;
+    const data = request.content.data;
+    if (!user || !isDoseReminder(data) || data.patientId !== user.id) return;
+
+    // A cold start can deliver the same response to both the listener and getLastNotificationResponseAsync
+    const responseKey = `${request.identifier}:${response.actionIdentifier}:${date}`;
+    if (handledResponsesRef.current.has(responseKey)) return;
+    handledResponsesRef.current.add(responseKey);
+
+    switch (response.actionIdentifier) {
+      case TAKE_ACTION: {
+        const result = await submit(
+          doseLoggedAction(
+            {
+              patientId: data.patientId,
+              prescriptionId: data.prescriptionId,
+              medicineIndex: data.medicineIndex,
+              scheduledDate: data.scheduledDate,
+              scheduledTime: data.scheduledTime,
+            },
+            'taken'
+          ),
+          data.patientId
+        );
+        if (result.status === 'failed') {
+          console.error('Error marking dose from reminder:', result.message);
+        }
+        refreshReminders();
+        break;
+      }
+      case SNOOZE_ACTION:
+        await snoozeDoseReminder(data);
+        break;
+      default:
+        router.push('/(patient)/today');
+    }
+    await Notifications.dismissNotificationAsync(request.identifier);
+  };
+
+  const handleResponseRef = useRef(handleResponse);
+  handleResponseRef.current = handleResponse;
+  const refreshRef = useRef(refreshReminders);
+  refreshRef.current = refreshReminders;
+
+  useEffect(() => {
+    configureDoseReminders();
+    const responses = Notifications.addNotificationResponseReceivedListener((response) =>
+      handleResponseRef.current(response)
+    );
+    // The contact prompt normally waits for the app to open; if it's already open, ask now
+    const received = Notifications.addNotificationReceivedListener((notification) => {
+      const data = notification.request.content.data;
+      if (isDoseReminder(data) && data.stage === 'alert_contacts') refreshRef.current();
+    });
+    return () => {
+      responses.remove();
+      received.remove();
+    };
+  }, []);
+
+  // Sign-in schedules this patient's reminders and handles a tap that launched the app;
+  // sign-out cancels everything so the next person on the device isn't reminded
+  useEffect(() => {
+    if (!user) {
+      cancelDoseReminders();
+      return;
+    }
+    if (!isPatient) return;
+
+    refreshRef.current();
+    const handleLaunchResponse = async () => {
+      const response = await Notifications.getLastNotificationResponseAsync();
+      if (response) {
+        await handleResponseRef.current(response);
+        await Notifications.clearLastNotificationResponseAsync();
+      }
+    };
+    handleLaunchResponse();
+
+    const unsubscribe = subscribeToPrescriptionChanges(user.id, () => refreshRef.current());
+    const appState = AppState.addEventListener('change', (state) => {
+      // Also picks up the new day's doses when the app is reopened the next morning
+      if (state === 'active') refreshRef.current();
+    });
+    return () => {
+      unsubscribe();
+      appState.remove();
+    };
+  }, [user?.id, isPatient]);
+
+  // A dose marked offline shouldn't still be reminded about
+  useEffect(() => {
+    if (pendingDoseCount > 0) refreshRef.current();
+  }, [pendingDoseCount]);
+
+  return (
+    <DoseReminderContext.Provider value={{ refreshReminders }}>
+      {children}
+    </DoseReminderContext.Provider>
+  );
+};
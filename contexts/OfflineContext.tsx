@@ -0,0 +1,159 @@
+import React, { createContext, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import NetInfo from '@react-native-community/netinfo';
+import { AuthContext } from './AuthContext';
+import { logCaregiverAction } from '../lib/caregivers';
+import {
+  MAX_OUTBOX_ATTEMPTS,
+  OutboxAction,
+  OutboxEntry,
+  caregiverActionFor,
+  createOutboxEntry,
+  isNetworkError,
+  loadOutbox,
+  runOutboxEntry,
+  saveOutbox,
+} from '../lib/outbox';
+
+export type SubmitResult =
+  | { status: 'saved'; id?: string }
+  // Stored on the device; it will be sent when the connection returns
+  | { status: 'queued'; entry: OutboxEntry }
+  | { status: 'failed'; message: string };
+
+interface OfflineContextType {
+  isOnline: boolean;
+  // Writes waiting to reach the server, oldest first
+  pendingActions: OutboxEntry[];
+  isSyncing: boolean;
+  // For the active profile unless another patient is named, e.g. from a reminder
+  submit: (action: OutboxAction, patientId?: string) => Promise<SubmitResult>;
+  syncNow: () => Promise<void>;
+}
+
+export const OfflineContext = createContext<OfflineContextType>({
+  isOnline: true,
+  pendingActions: [],
+  isSyncing: false,
+  submit: async () => ({ status: 'failed', message: 'Offline support is not available' }),
+  syncNow: async () => {},
+});
+
+export const OfflineProvider = ({ children }: { children: ReactNode }) => {
+  const { user, activeProfile } = useContext(AuthContext);
+  const [isOnline, setIsOnline] = useState(true);
+  const [pendingActions, setPendingActions] = useState<OutboxEntry[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+  // The outbox is read and rewritten across awaits, so keep the latest copy outside render state
+  const outboxRef = useRef<OutboxEntry[]>([]);
+  const syncingRef = useRef(false);
+
+  const updateOutbox = async (entries: OutboxEntry[]) => {
+    outboxRef.current = entries;
+    setPendingActions(entries);
+    if (user) await saveOutbox(user.id, entries);
+  };
+
+  const recordDelivered = async (entry: OutboxEntry, id?: string) => {
+    if (!user || !entry.caregiverAction) return;
+    await logCaregiverAction(user.id, entry.patientId, entry.caregiverAction, id);
+  };
+
+  /**
+   * Replay queued writes in the order they were made. Each carries its
+   * idempotency key, so an entry that reached the server before the
+   * connection dropped is not saved twice.
+   */
+  const syncNow = async () => {
+    if (!user || syncingRef.current || outboxRef.current.length === 0) return;
+    syncingRef.current = true;
+    setIsSyncing(true);
+
+    try {
+      for (const entry of [...outboxRef.current]) {
+        const { data, error } = await runOutboxEntry(entry);
+
+        if (!error) {
+          await updateOutbox(outboxRef.current.filter((queued) => queued.id !== entry.id));
+          await recordDelivered(entry, data.id);
+          continue;
+        }
+
+        // Still offline: leave this and everything after it for the next attempt
+        if (isNetworkError(error)) break;
+
+        const attempts = entry.attempts + 1;
+        if (attempts >= MAX_OUTBOX_ATTEMPTS) {
+          console.error('Dropping queued action after repeated failures:', entry.action.type, error.message);
+          await updateOutbox(outboxRef.current.filter((queued) => queued.id !== entry.id));
+        } else {
+          await updateOutbox(
+            outboxRef.current.map((queued) =>
+              queued.id === entry.id ? { ...queued, attempts, lastError: error.message } : queued
+            )
+          );
+        }
+      }
+    } finally {
+      syncingRef.current = false;
+      setIsSyncing(false);
+    }
+  };
+
+  const submit = async (action: OutboxAction, patientId = activeProfile?.patientId): Promise<SubmitResult> => {
+    if (!user || !activeProfile || !patientId) {
+      return { status: 'failed', message: 'No active profile' };
+    }
+
+    const forDependent = patientId === activeProfile.patientId && activeProfile.kind === 'dependent';
+    const caregiverAction = forDependent ? caregiverActionFor(action) : undefined;
+    const entry = createOutboxEntry(patientId, action, caregiverAction);
+
+    if (isOnline) {
+      const { data, error } = await runOutboxEntry(entry);
+      if (!error) {
+        await recordDelivered(entry, data.id);
+        return { status: 'saved', id: data.id };
+      }
+      if (!isNetworkError(error)) {
+        return { status: 'failed', message: error.message };
+      }
+    }
+
+    await updateOutbox([...outboxRef.current, entry]);
+    return { status: 'queued', entry };
+  };
+
+  // Each account has its own outbox; load it on sign-in and forget it on sign-out
+  useEffect(() => {
+    if (!user) {
+      outboxRef.current = [];
+      setPendingActions([]);
+      return;
+    }
+
+    const restoreOutbox = async () => {
+      const entries = await loadOutbox(user.id);
+      outboxRef.current = entries;
+      setPendingActions(entries);
+      syncNow();
+    };
+    restoreOutbox();
+  }, [user?.id]);
+
+  useEffect(() => {
+    return NetInfo.addEventListener((state) => {
+      // isInternetReachable is null until it has been checked; treat that as online
+      setIsOnline(!!state.isConnected && state.isInternetReachable !== false);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (isOnline) syncNow();
+  }, [isOnline]);
+
+  return (
+    <OfflineContext.Provider value={{ isOnline, pendingActions, isSyncing, submit, syncNow }}>
+      {children}
+    </OfflineContext.Provider>
+  );
+};
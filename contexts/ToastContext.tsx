@@ -0,0 +1,102 @@
+import React, { createContext, useEffect, useRef, useState, ReactNode } from 'react';
+import { Animated, StyleSheet, Text, TouchableOpacity } from 'react-native';
+import { CheckCircle, Info, XCircle } from 'lucide-react-native';
+
+export type ToastTone = 'success' | 'info' | 'error';
+
+interface Toast {
+  id: number;
+  message: string;
+  tone: ToastTone;
+}
+
+interface ToastContextType {
+  showToast: (message: string, tone?: ToastTone) => void;
+}
+
+export const ToastContext = createContext<ToastContextType>({
+  showToast: () => {},
+});
+
+const TOAST_DURATION_MS = 4000;
+
+const TONES: Record<ToastTone, { background: string; icon: typeof Info }> = {
+  success: { background: '#059669', icon: CheckCircle },
+  info: { background: '#5603BD', icon: Info },
+  error: { background: '#DC2626', icon: XCircle },
+};
+
+/**
+ * Short, non-blocking messages for things that happen in the background,
+ * like a doctor confirming an appointment. One toast shows at a time; a new
+ * one replaces the current one.
+ */
+export const ToastProvider = ({ children }: { children: ReactNode }) => {
+  const [toast, setToast] = useState<Toast | null>(null);
+  const opacity = useRef(new Animated.Value(0)).current;
+  const hideTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const hideToast = () => {
+    Animated.timing(opacity, { toValue: 0, duration: 200, useNativeDriver: true }).start(() => setToast(null));
+  };
+
+  const showToast = (message: string, tone: ToastTone = 'info') => {
+    setToast({ id: Date.now(), message, tone });
+  };
+
+  useEffect(() => {
+    if (!toast) return;
+    Animated.timing(opacity, { toValue: 1, duration: 200, useNativeDriver: true }).start();
+    hideTimerRef.current = setTimeout(hideToast, TOAST_DURATION_MS);
+    return () => {
+      if (hideTimerRef.current) clearTimeout(hideTimerRef.current);
+    };
+  }, [toast?.id]);
+
+  const Icon = toast ? TONES[toast.tone].icon : Info;
+
+  return (
+    <ToastContext.Provider value={{ showToast }}>
+      {children}
+      {toast && (
+        <Animated.View
+          style={[styles.toast, { backgroundColor: TONES[toast.tone].background, opacity }]}
+          pointerEvents="box-none"
+        >
+          <TouchableOpacity style={styles.content} onPress={hideToast} activeOpacity={0.8}>
+            <Icon color="#FFFFFF" size={20} />
+            <Text style={styles.message}>{toast.message}</Text>
+          </TouchableOpacity>
+        </Animated.View>
+      )}
+    </ToastContext.Provider>
+  );
+};
+
+const styles = StyleSheet.create({
+  toast: {
+    position: 'absolute',
+    top: 56,
+    left: 16,
+    right: 16,
+    borderRadius: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.15,
+    shadowRadius: 8,
+    elevation: 6,
+  },
+  content: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  message: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#FFFFFF',
+  },
+});
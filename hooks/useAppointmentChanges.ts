@@ -0,0 +1,19 @@
+import { useEffect, useRef } from 'react';
+import { AppointmentChange, AppointmentScope, subscribeToAppointmentChanges } from '@/lib/realtime';
+
+/**
+ * Keep a screen subscribed to appointment changes while it is mounted. The
+ * handler may change every render; only a new patient or doctor resubscribes.
+ */
+export function useAppointmentChanges(
+  scope: AppointmentScope | null,
+  onChange: (change: AppointmentChange) => void
+) {
+  const handlerRef = useRef(onChange);
+  handlerRef.current = onChange;
+
+  useEffect(() => {
+    if (!scope) return;
+    return subscribeToAppointmentChanges(scope, (change) => handlerRef.current(change));
+  }, [scope?.column, scope?.id]);
+}
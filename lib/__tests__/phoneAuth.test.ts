@@ -0,0 +1,157 @@
+import {
+  OTP_EXPIRY_SECONDS,
+  OTP_MAX_SENDS,
+  OTP_RESEND_COOLDOWN_SECONDS,
+  createLocalPhoneAuthClient,
+  createOtpRequest,
+  getOtpErrorMessage,
+  getResendWaitSeconds,
+  isOtpExpired,
+  nextOtpRequest,
+} from '../phoneAuth';
+
+// The real client is never used here; every test runs against the local stand-in
+jest.mock('../supabase', () => ({ supabase: { auth: {} } }));
+
+const PHONE = '+919876543210';
+const CODE = '123456';
+const START = Date.UTC(2026, 0, 1, 9, 0, 0);
+
+const seconds = (count: number) => count * 1000;
+
+describe('resend throttle', () => {
+  it('lets the first code for a number go straight away', () => {
+    expect(nextOtpRequest(null, PHONE, START)).toEqual({
+      phone: PHONE,
+      sentAt: START,
+      expiresAt: START + seconds(OTP_EXPIRY_SECONDS),
+      sendCount: 1,
+    });
+  });
+
+  it('refuses a resend until the cooldown has run out', () => {
+    const first = createOtpRequest(PHONE, START);
+
+    expect(getResendWaitSeconds(first, START + seconds(15))).toBe(OTP_RESEND_COOLDOWN_SECONDS - 15);
+    expect(() => nextOtpRequest(first, PHONE, START + seconds(15))).toThrow(
+      `Please wait ${OTP_RESEND_COOLDOWN_SECONDS - 15} seconds before requesting a new code.`
+    );
+
+    const resent = nextOtpRequest(first, PHONE, START + seconds(OTP_RESEND_COOLDOWN_SECONDS));
+    expect(resent.sendCount).toBe(2);
+    expect(resent.expiresAt).toBe(START + seconds(OTP_RESEND_COOLDOWN_SECONDS + OTP_EXPIRY_SECONDS));
+  });
+
+  it('does not hold a different number to the cooldown', () => {
+    const first = createOtpRequest(PHONE, START);
+    expect(nextOtpRequest(first, '+919812345678', START + seconds(1)).sendCount).toBe(1);
+  });
+
+  it('stops sending once a number has had the maximum codes', () => {
+    let request = createOtpRequest(PHONE, START);
+    let now = START;
+    while (request.sendCount < OTP_MAX_SENDS) {
+      now += seconds(OTP_RESEND_COOLDOWN_SECONDS);
+      request = nextOtpRequest(request, PHONE, now);
+    }
+
+    expect(() => nextOtpRequest(request, PHONE, now + seconds(OTP_RESEND_COOLDOWN_SECONDS))).toThrow(
+      'Too many codes requested for this number. Please try again later.'
+    );
+  });
+});
+
+describe('OTP expiry', () => {
+  it('treats a code as live until the expiry time, then expired', () => {
+    const request = createOtpRequest(PHONE, START);
+
+    expect(isOtpExpired(request, START + seconds(OTP_EXPIRY_SECONDS) - 1)).toBe(false);
+    expect(isOtpExpired(request, START + seconds(OTP_EXPIRY_SECONDS))).toBe(true);
+    expect(isOtpExpired(null, START)).toBe(true);
+  });
+});
+
+describe('local phone auth client', () => {
+  const setup = (existingPhones: string[] = []) => {
+    let now = START;
+    const client = createLocalPhoneAuthClient({
+      testOtps: { [PHONE]: CODE },
+      existingPhones,
+      now: () => now,
+    });
+    return {
+      client,
+      advance: (ms: number) => {
+        now += ms;
+      },
+    };
+  };
+
+  it('signs up a new number with the test code', async () => {
+    const { client } = setup();
+
+    const sent = await client.signInWithOtp({ phone: PHONE, options: { shouldCreateUser: true } });
+    expect(sent.error).toBeNull();
+
+    const verified = await client.verifyOtp({ phone: PHONE, token: CODE, type: 'sms' });
+    expect(verified.error).toBeNull();
+    expect(verified.data.user?.phone).toBe(PHONE);
+  });
+
+  it('resolves the same account when the number signs in again', async () => {
+    const { client, advance } = setup();
+
+    await client.signInWithOtp({ phone: PHONE });
+    const first = await client.verifyOtp({ phone: PHONE, token: CODE, type: 'sms' });
+    advance(seconds(OTP_RESEND_COOLDOWN_SECONDS));
+    await client.signInWithOtp({ phone: PHONE, options: { shouldCreateUser: false } });
+    const second = await client.verifyOtp({ phone: PHONE, token: CODE, type: 'sms' });
+
+    expect(second.data.user?.id).toBe(first.data.user?.id);
+  });
+
+  it('refuses to sign in a number with no account', async () => {
+    const { client } = setup();
+
+    const { error } = await client.signInWithOtp({ phone: PHONE, options: { shouldCreateUser: false } });
+    expect(error?.message).toMatch(/signups not allowed/i);
+  });
+
+  it('throttles resends with the Supabase error, which maps to a wait message', async () => {
+    const { client, advance } = setup([PHONE]);
+
+    await client.signInWithOtp({ phone: PHONE, options: { shouldCreateUser: false } });
+    advance(seconds(20));
+    const { error } = await client.signInWithOtp({ phone: PHONE, options: { shouldCreateUser: false } });
+
+    expect(error?.status).toBe(429);
+    expect(getOtpErrorMessage(error!.message)).toBe(
+      `Please wait ${OTP_RESEND_COOLDOWN_SECONDS - 20} seconds before requesting a new code.`
+    );
+
+    advance(seconds(OTP_RESEND_COOLDOWN_SECONDS - 20));
+    expect((await client.signInWithOtp({ phone: PHONE })).error).toBeNull();
+  });
+
+  it('rejects a code once it has expired', async () => {
+    const { client, advance } = setup([PHONE]);
+
+    await client.signInWithOtp({ phone: PHONE });
+    advance(seconds(OTP_EXPIRY_SECONDS));
+    const { data, error } = await client.verifyOtp({ phone: PHONE, token: CODE, type: 'sms' });
+
+    expect(data.user).toBeNull();
+    expect(getOtpErrorMessage(error!.message)).toBe('This code has expired. Please request a new one.');
+  });
+
+  it('rejects a wrong code and accepts a code only once', async () => {
+    const { client } = setup([PHONE]);
+
+    await client.signInWithOtp({ phone: PHONE });
+    const wrong = await client.verifyOtp({ phone: PHONE, token: '000000', type: 'sms' });
+    expect(getOtpErrorMessage(wrong.error!.message)).toBe('Incorrect code. Please check the SMS and try again.');
+
+    expect((await client.verifyOtp({ phone: PHONE, token: CODE, type: 'sms' })).error).toBeNull();
+    expect((await client.verifyOtp({ phone: PHONE, token: CODE, type: 'sms' })).error?.message).toMatch(/expired/i);
+  });
+});
@@ -0,0 +1,80 @@
+import { supabase } from './supabase';
+import { AccessAuditEventRow, UserRow, single } from './repositories/types';
+
+export type AccessAction = 'viewed_history' | 'viewed_readings' | 'viewed_report' | 'downloaded_report';
+
+export type AccessResource = 'prescriptions' | 'readings' | 'report';
+
+export interface AccessEvent {
+  id: string;
+  actorId: string;
+  actorName: string;
+  actorRole: string;
+  action: AccessAction;
+  resourceType: AccessResource;
+  resourceId: string | null;
+  resourceLabel: string;
+  createdAt: string;
+}
+
+export const ACCESS_ACTION_LABELS: Record<AccessAction, string> = {
+  viewed_history: 'Viewed prescription history',
+  viewed_readings: 'Viewed health readings',
+  viewed_report: 'Viewed report',
+  downloaded_report: 'Downloaded report',
+};
+
+/**
+ * Record that someone other than the patient looked at their health data.
+ * Failures are logged rather than thrown so an audit hiccup never blocks care.
+ */
+export const logAccessEvent = async (
+  actorId: string,
+  patientId: string,
+  action: AccessAction,
+  resourceType: AccessResource,
+  resource?: { id: string; label?: string }
+) => {
+  const { error } = await supabase.from('access_audit_events').insert({
+    actor_id: actorId,
+    patient_id: patientId,
+    action,
+    resource_type: resourceType,
+    resource_id: resource?.id ?? null,
+    resource_label: resource?.label ?? null,
+  });
+
+  if (error) {
+    console.error('Error logging access event:', error);
+  }
+};
+
+type AccessEventWithActor = Omit<AccessAuditEventRow, 'patient_id'> & {
+  actor: Pick<UserRow, 'name' | 'role'> | Pick<UserRow, 'name' | 'role'>[] | null;
+};
+
+// Most recent first: who opened this patient's records, and what they opened
+export const fetchAccessHistory = async (patientId: string, limit = 100): Promise<AccessEvent[]> => {
+  const { data, error } = await supabase
+    .from('access_audit_events')
+    .select('id, actor_id, action, resource_type, resource_id, resource_label, created_at, actor:actor_id ( name, role )')
+    .eq('patient_id', patientId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error fetching access history:', error);
+    return [];
+  }
+  return (data || []).map((row: AccessEventWithActor) => ({
+    id: row.id,
+    actorId: row.actor_id,
+    actorName: single(row.actor)?.name || 'Unknown',
+    actorRole: single(row.actor)?.role || '',
+    action: row.action,
+    resourceType: row.resource_type,
+    resourceId: row.resource_id,
+    resourceLabel: row.resource_label || '',
+    createdAt: row.created_at,
+  }));
+};
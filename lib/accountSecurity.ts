@@ -0,0 +1,141 @@
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { supabase } from './supabase';
+import { UserSessionRow } from './repositories/types';
+
+// Random per-install id so each device shows up once in the session list
+const DEVICE_ID_KEY = 'auth.deviceId';
+
+export interface DeviceSession {
+  id: string;
+  deviceId: string;
+  deviceName: string;
+  platform: string;
+  signedInAt: string;
+  lastActiveAt: string;
+  isCurrent: boolean;
+}
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+// Shared by the reset and change-password forms; returns an error message or null
+export const validateNewPassword = (password: string, confirmPassword: string): string | null => {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters.`;
+  }
+  if (password !== confirmPassword) {
+    return 'Passwords do not match.';
+  }
+  return null;
+};
+
+export const getDeviceId = async (): Promise<string> => {
+  const stored = await AsyncStorage.getItem(DEVICE_ID_KEY);
+  if (stored) return stored;
+
+  const deviceId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+  await AsyncStorage.setItem(DEVICE_ID_KEY, deviceId);
+  return deviceId;
+};
+
+const getDeviceName = () => {
+  switch (Platform.OS) {
+    case 'ios':
+      return `iPhone / iPad (iOS ${Platform.Version})`;
+    case 'android':
+      return `Android device (API ${Platform.Version})`;
+    case 'web':
+      return 'Web browser';
+    default:
+      return Platform.OS;
+  }
+};
+
+/**
+ * Upsert this device's row in `user_sessions`. Called whenever a session is
+ * restored or created so `last_active_at` stays roughly current.
+ */
+export const registerDeviceSession = async (userId: string) => {
+  try {
+    const deviceId = await getDeviceId();
+    const now = new Date().toISOString();
+    const { error } = await supabase
+      .from('user_sessions')
+      .upsert({
+        user_id: userId,
+        device_id: deviceId,
+        device_name: getDeviceName(),
+        platform: Platform.OS,
+        last_active_at: now,
+      }, {
+        onConflict: 'user_id,device_id'
+      });
+
+    if (error) {
+      console.error('Error registering device session:', error);
+    }
+  } catch (error) {
+    console.error('Exception registering device session:', error);
+  }
+};
+
+export const fetchDeviceSessions = async (userId: string): Promise<DeviceSession[]> => {
+  const deviceId = await getDeviceId();
+  const { data, error } = await supabase
+    .from('user_sessions')
+    .select('*')
+    .eq('user_id', userId)
+    .order('last_active_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching device sessions:', error);
+    return [];
+  }
+
+  return (data || []).map((row: UserSessionRow) => ({
+    id: row.id,
+    deviceId: row.device_id,
+    deviceName: row.device_name || 'Unknown device',
+    platform: row.platform || '',
+    signedInAt: row.created_at,
+    lastActiveAt: row.last_active_at,
+    isCurrent: row.device_id === deviceId,
+  }));
+};
+
+export const removeDeviceSession = async (userId: string) => {
+  const deviceId = await getDeviceId();
+  const { error } = await supabase
+    .from('user_sessions')
+    .delete()
+    .eq('user_id', userId)
+    .eq('device_id', deviceId);
+
+  if (error) {
+    console.error('Error removing device session:', error);
+  }
+};
+
+export const clearDeviceSessions = async (userId: string) => {
+  const { error } = await supabase
+    .from('user_sessions')
+    .delete()
+    .eq('user_id', userId);
+
+  if (error) {
+    throw new Error(`Failed to clear sessions: ${error.message}`);
+  }
+};
+
+// Keep the users row in step once a change of email has been confirmed
+export const syncProfileEmail = async (userId: string, email: string) => {
+  const { error } = await supabase
+    .from('users')
+    .update({ email })
+    .eq('id', userId)
+    .neq('email', email);
+
+  if (error) {
+    console.error('Error syncing profile email:', error);
+  }
+};
@@ -0,0 +1,203 @@
+// Adherence figures computed on the device from prescriptions and the dose
+// log. A scheduled dose with no log entry counts as missed once it is more
+// than LATE_AFTER_MINUTES overdue; until then it is simply not counted yet.
+import { DoseLog } from './repositories/doseLogs';
+import { Prescription } from './repositories/prescriptions';
+import {
+  LATE_AFTER_MINUTES,
+  addDays,
+  doseKey,
+  getDosesForDate,
+  scheduledAt,
+  toDateKey,
+} from './medicationSchedule';
+
+export const ADHERENCE_PERIODS = [7, 30, 90] as const;
+export type AdherencePeriod = (typeof ADHERENCE_PERIODS)[number];
+
+interface DoseCounts {
+  scheduled: number;
+  // Includes late doses
+  taken: number;
+  late: number;
+  skipped: number;
+  // Never marked either way
+  missed: number;
+  // Share of scheduled doses taken, 0-1; null when nothing was scheduled
+  rate: number | null;
+}
+
+export interface MedicineAdherence extends DoseCounts {
+  prescriptionId: string;
+  medicineIndex: number;
+  name: string;
+}
+
+export interface TrendPoint {
+  // The day ("Mon") or, for longer periods, the week's first day ("12/10")
+  label: string;
+  rate: number | null;
+}
+
+export interface AdherenceSummary extends DoseCounts {
+  periodDays: AdherencePeriod;
+  // Consecutive days with every dose taken, ending today or yesterday
+  currentStreak: number;
+  longestStreak: number;
+  perMedicine: MedicineAdherence[];
+  // Dose times with doses skipped or missed, most often first
+  missedTimes: { time: string; count: number }[];
+  trend: TrendPoint[];
+}
+
+interface ExpectedDose {
+  prescriptionId: string;
+  medicineIndex: number;
+  name: string;
+  date: string;
+  time: string;
+  log: DoseLog | undefined;
+}
+
+const emptyCounts = (): DoseCounts => ({ scheduled: 0, taken: 0, late: 0, skipped: 0, missed: 0, rate: null });
+
+const count = (doses: ExpectedDose[]): DoseCounts => {
+  const counts = doses.reduce((totals, { log }) => {
+    totals.scheduled += 1;
+    if (!log) totals.missed += 1;
+    else if (log.status === 'skipped') totals.skipped += 1;
+    else {
+      totals.taken += 1;
+      if (log.status === 'late') totals.late += 1;
+    }
+    return totals;
+  }, emptyCounts());
+  return { ...counts, rate: counts.scheduled > 0 ? counts.taken / counts.scheduled : null };
+};
+
+const isTaken = ({ log }: ExpectedDose) => !!log && log.status !== 'skipped';
+
+/**
+ * Every dose that should have been taken in the period, paired with its log
+ * entry. Stopped prescriptions only count up to their last logged dose, since
+ * the date they were stopped isn't recorded.
+ */
+const expectedDoses = (prescriptions: Prescription[], logs: DoseLog[], dates: string[], now: Date) => {
+  const logsByKey = new Map(
+    logs.map((log) => [doseKey(log.prescriptionId, log.medicineIndex, log.scheduledDate, log.scheduledTime), log])
+  );
+  const lastLogged = logs.reduce<Record<string, string>>((last, log) => {
+    if (!last[log.prescriptionId] || log.scheduledDate > last[log.prescriptionId]) {
+      last[log.prescriptionId] = log.scheduledDate;
+    }
+    return last;
+  }, {});
+  const overdueBefore = now.getTime() - LATE_AFTER_MINUTES * 60 * 1000;
+
+  return dates.flatMap((date) =>
+    prescriptions
+      .filter((prescription) => prescription.status === 'active' || date <= (lastLogged[prescription.id] ?? ''))
+      .flatMap((prescription) =>
+        getDosesForDate(prescription.medicines, date).flatMap(({ medicineIndex, medication, time }): ExpectedDose[] => {
+          const log = logsByKey.get(doseKey(prescription.id, medicineIndex, date, time));
+          if (!log && scheduledAt(date, time).getTime() > overdueBefore) return [];
+          const name = medication.strength ? `${medication.name} ${medication.strength}` : medication.name;
+          return [{ prescriptionId: prescription.id, medicineIndex, name, date, time, log }];
+        })
+      )
+  );
+};
+
+const streaks = (doses: ExpectedDose[], dates: string[], today: string) => {
+  // Days with nothing scheduled neither extend nor break a streak
+  const completeByDate = new Map<string, boolean>();
+  doses.forEach((dose) => completeByDate.set(dose.date, (completeByDate.get(dose.date) ?? true) && isTaken(dose)));
+
+  let longestStreak = 0;
+  let run = 0;
+  dates.forEach((date) => {
+    const complete = completeByDate.get(date);
+    if (complete === undefined) return;
+    run = complete ? run + 1 : 0;
+    longestStreak = Math.max(longestStreak, run);
+  });
+
+  // Today's remaining doses may still be taken, so a miss today doesn't end the current streak yet
+  let currentStreak = 0;
+  for (const date of [...dates].reverse()) {
+    const complete = completeByDate.get(date);
+    if (complete === undefined || (!complete && date === today)) continue;
+    if (!complete) break;
+    currentStreak += 1;
+  }
+  return { currentStreak, longestStreak };
+};
+
+const trendFor = (doses: ExpectedDose[], dates: string[]): TrendPoint[] => {
+  const bucketDays = dates.length <= 7 ? 1 : 7;
+  const buckets: string[][] = [];
+  // Built back from today so the last point is always the current day or week
+  for (let end = dates.length; end > 0; end -= bucketDays) {
+    buckets.unshift(dates.slice(Math.max(end - bucketDays, 0), end));
+  }
+
+  return buckets.map((bucket) => {
+    const [year, month, day] = bucket[0].split('-').map(Number);
+    return {
+      label:
+        bucketDays === 1
+          ? new Date(year, month - 1, day).toLocaleDateString('en-US', { weekday: 'short' })
+          : `${day}/${month}`,
+      rate: count(doses.filter((dose) => bucket.includes(dose.date))).rate,
+    };
+  });
+};
+
+/**
+ * Adherence over the last `periodDays` days, today included. `logs` must
+ * cover at least that period; extra entries are ignored.
+ */
+export const computeAdherence = (
+  prescriptions: Prescription[],
+  logs: DoseLog[],
+  periodDays: AdherencePeriod,
+  now: Date = new Date()
+): AdherenceSummary => {
+  const today = toDateKey(now);
+  const dates = Array.from({ length: periodDays }, (_day, offset) => addDays(today, offset - periodDays + 1));
+  const doses = expectedDoses(prescriptions, logs, dates, now);
+
+  const byMedicine = new Map<string, ExpectedDose[]>();
+  doses.forEach((dose) => {
+    const key = `${dose.prescriptionId}:${dose.medicineIndex}`;
+    byMedicine.set(key, [...(byMedicine.get(key) ?? []), dose]);
+  });
+  const perMedicine = [...byMedicine.values()]
+    .map(
+      (medicineDoses): MedicineAdherence => ({
+        prescriptionId: medicineDoses[0].prescriptionId,
+        medicineIndex: medicineDoses[0].medicineIndex,
+        name: medicineDoses[0].name,
+        ...count(medicineDoses),
+      })
+    )
+    .sort((a, b) => (a.rate ?? 1) - (b.rate ?? 1));
+
+  const missedByTime = doses
+    .filter((dose) => !isTaken(dose))
+    .reduce<Record<string, number>>((totals, dose) => ({ ...totals, [dose.time]: (totals[dose.time] ?? 0) + 1 }), {});
+
+  return {
+    periodDays,
+    ...count(doses),
+    ...streaks(doses, dates, today),
+    perMedicine,
+    missedTimes: Object.entries(missedByTime)
+      .map(([time, missedCount]) => ({ time, count: missedCount }))
+      .sort((a, b) => b.count - a.count || a.time.localeCompare(b.time)),
+    trend: trendFor(doses, dates),
+  };
+};
+
+// "86%", or a dash when nothing was scheduled
+export const formatAdherenceRate = (rate: number | null) => (rate === null ? '–' : `${Math.round(rate * 100)}%`);
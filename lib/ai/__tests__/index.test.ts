@@ -0,0 +1,198 @@
+import {
+  AiError,
+  AiOptOutError,
+  AiProvider,
+  AiRequest,
+  chat,
+  readDevicePhoto,
+  setAiProvider,
+  structurePrescription,
+  transcribePrescription,
+} from '..';
+import { fetchAiOptOut } from '../preferences';
+import { createMockProvider } from '../providers/mock';
+
+jest.mock('../../supabase', () => ({ supabase: {} }));
+jest.mock('../preferences', () => ({
+  fetchAiOptOut: jest.fn(async () => false),
+  updateAiOptOut: jest.fn(),
+}));
+
+const PATIENT_ID = 'f3b4c2a1-0000-4000-8000-000000000001';
+
+/**
+ * Wraps the mock provider: records every request and lets a test replace the
+ * reply for a given attempt, so bad model output can be simulated.
+ */
+const recordingProvider = (overrides: ((request: AiRequest, reply: string) => string)[] = []) => {
+  const mock = createMockProvider();
+  const requests: AiRequest[] = [];
+  const provider: AiProvider = {
+    name: 'recording',
+    generate: async (request) => {
+      const reply = await mock.generate(request);
+      const override = overrides[requests.length];
+      requests.push(request);
+      return override ? override(request, reply) : reply;
+    },
+  };
+  return { provider, requests };
+};
+
+const placeholderIn = (prompt: string, kind: string) => prompt.match(new RegExp(`\\[${kind}_\\d+\\]`))?.[0];
+
+beforeEach(() => {
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  jest.mocked(fetchAiOptOut).mockResolvedValue(false);
+  setAiProvider(createMockProvider());
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  setAiProvider(null);
+});
+
+describe('with the mock provider', () => {
+  it('reads a device photo into a validated reading', async () => {
+    await expect(readDevicePhoto('aW1hZ2U=')).resolves.toEqual({
+      type: 'blood_pressure',
+      systolic: 120,
+      diastolic: 80,
+      unit: 'mmHg',
+      confidence: 95,
+    });
+  });
+
+  it('transcribes a dictated prescription', async () => {
+    const transcription = await transcribePrescription('YXVkaW8=');
+    expect(transcription.medicines).toHaveLength(2);
+    expect(transcription.instructions).toMatch(/after meals/);
+  });
+
+  it('structures a typed prescription into medicines with a local schedule', async () => {
+    const result = await structurePrescription('Paracetamol 500mg 1-0-1 after food for 5 days', '', '2026-01-01');
+
+    expect(result.medicines).toHaveLength(1);
+    expect(result.medicines[0]).toMatchObject({
+      name: expect.stringMatching(/paracetamol/i),
+      strength: '500mg',
+      startDate: '2026-01-01',
+      food: 'after_food',
+      durationDays: 5,
+      asNeeded: false,
+    });
+  });
+
+  it('answers in the assistant chat', async () => {
+    await expect(chat([], 'Is it safe to walk after dinner?')).resolves.toMatch(/healthcare professional/);
+  });
+});
+
+describe('schema validation', () => {
+  it('rejects a reply that never matches the schema', async () => {
+    const wrongType = (_request: AiRequest, reply: string) =>
+      JSON.stringify({ ...JSON.parse(reply), confidence: 'high' });
+    const { provider, requests } = recordingProvider([wrongType, wrongType, wrongType]);
+    setAiProvider(provider);
+
+    const reading = readDevicePhoto('aW1hZ2U=');
+    await expect(reading).rejects.toBeInstanceOf(AiError);
+    await expect(reading).rejects.toThrow('Invalid AI response: "confidence": expected a number');
+    // The first attempt and two retries
+    expect(requests).toHaveLength(3);
+  });
+
+  it('rejects a reply with a value outside the allowed set', async () => {
+    const unknownType = (_request: AiRequest, reply: string) =>
+      JSON.stringify({ ...JSON.parse(reply), type: 'heart_rate' });
+    setAiProvider(recordingProvider([unknownType, unknownType, unknownType]).provider);
+
+    await expect(readDevicePhoto('aW1hZ2U=')).rejects.toThrow(
+      'Invalid AI response: "type": expected one of blood_pressure, blood_glucose, other'
+    );
+  });
+
+  it('falls back to the rule-based reading when a prescription reply stays invalid', async () => {
+    const notJson = () => 'Sorry, I could not read that prescription.';
+    setAiProvider(recordingProvider([notJson, notJson, notJson]).provider);
+
+    const result = await structurePrescription('Cetirizine 10mg 0-0-1', 'Take with water', '2026-01-01');
+    expect(result.instructions).toBe('Take with water');
+    expect(result.medicines).toHaveLength(1);
+    expect(result.medicines[0].name).toMatch(/cetirizine/i);
+  });
+});
+
+describe('retry on an invalid reply', () => {
+  it('asks again with the validation error and accepts the corrected reply', async () => {
+    const { provider, requests } = recordingProvider([
+      (_request, reply) => `Here is the reading:\n${reply.replace('"unit":"mmHg",', '')}`,
+    ]);
+    setAiProvider(provider);
+
+    await expect(readDevicePhoto('aW1hZ2U=')).resolves.toMatchObject({ systolic: 120, unit: 'mmHg' });
+    expect(requests).toHaveLength(2);
+    expect(requests[0].prompt).not.toMatch(/previous reply was rejected/);
+    expect(requests[1].prompt).toContain('Your previous reply was rejected ("unit" is missing)');
+  });
+
+  it('pulls the JSON out of a reply wrapped in a code fence', async () => {
+    const { provider, requests } = recordingProvider([(_request, reply) => `\`\`\`json\n${reply}\n\`\`\``]);
+    setAiProvider(provider);
+
+    await expect(transcribePrescription('YXVkaW8=')).resolves.toMatchObject({ medicines: expect.any(Array) });
+    expect(requests).toHaveLength(1);
+  });
+});
+
+describe('redaction round trip', () => {
+  const context = { patientId: PATIENT_ID, knownNames: ['Asha Devi'] };
+
+  it('sends placeholders instead of names and numbers and restores them in the chat reply', async () => {
+    const { provider, requests } = recordingProvider([
+      ({ prompt }) =>
+        `${placeholderIn(prompt, 'NAME')}, your son can be reached on ${placeholderIn(prompt, 'PHONE')}.`,
+    ]);
+    setAiProvider(provider);
+
+    const reply = await chat([], 'I am Asha Devi. Please remind my son on 9876543210 about my tablets.', context);
+
+    expect(requests[0].prompt).not.toMatch(/Asha|9876543210/);
+    expect(requests[0].patientId).toBe(PATIENT_ID);
+    expect(reply).toBe('Asha Devi, your son can be reached on 9876543210.');
+  });
+
+  it('restores placeholders anywhere in a structured reply', async () => {
+    const { provider, requests } = recordingProvider([
+      ({ prompt }, reply) =>
+        JSON.stringify({
+          ...JSON.parse(reply),
+          instructions: `Call ${placeholderIn(prompt, 'NAME')} at ${placeholderIn(prompt, 'PHONE')} if the fever stays`,
+        }),
+    ]);
+    setAiProvider(provider);
+
+    const result = await structurePrescription(
+      'Paracetamol 500mg 1-0-1',
+      'Call Asha at 9876543210 if the fever stays',
+      '2026-01-01',
+      context
+    );
+
+    expect(requests[0].prompt).not.toMatch(/Asha|9876543210/);
+    expect(result.instructions).toBe('Call Asha at 9876543210 if the fever stays');
+  });
+});
+
+describe('AI opt-out', () => {
+  it('refuses AI tasks for a patient who opted out without calling the provider', async () => {
+    jest.mocked(fetchAiOptOut).mockResolvedValue(true);
+    const { provider, requests } = recordingProvider();
+    setAiProvider(provider);
+
+    await expect(readDevicePhoto('aW1hZ2U=', { patientId: PATIENT_ID })).rejects.toBeInstanceOf(AiOptOutError);
+    await expect(chat([], 'Hello', { patientId: PATIENT_ID })).rejects.toBeInstanceOf(AiOptOutError);
+    expect(requests).toHaveLength(0);
+  });
+});
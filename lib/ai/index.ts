@@ -0,0 +1,288 @@
+import { config } from '../config';
+import { Medication, TIME_SLOTS, TimeSlot, parseMedicationText, suggestEscalation } from '../medicationSchedule';
+import { fetchAiOptOut } from './preferences';
+import { createMockProvider } from './providers/mock';
+import { createProxyProvider } from './providers/proxy';
+import { redact, restore, restoreDeep } from './redaction';
+import { Schema, arrayOf, boolean, extractJson, number, object, oneOf, optional, string } from './schema';
+import {
+  AiAttachment,
+  AiContext,
+  AiError,
+  AiOptOutError,
+  AiProvider,
+  AiTask,
+  ChatTurn,
+  DeviceReading,
+  ParsedPrescription,
+  ProposedMedication,
+  StructuredPrescription,
+} from './types';
+
+export * from './types';
+export { uriToBase64 } from './media';
+export { fetchAiOptOut, updateAiOptOut } from './preferences';
+
+// Extra attempts after the first when a reply fails validation
+const MAX_RETRIES = 2;
+
+let provider: AiProvider | null = null;
+
+export const getAiProvider = (): AiProvider => {
+  if (!provider) {
+    provider = config.aiProvider === 'mock' ? createMockProvider() : createProxyProvider();
+  }
+  return provider;
+};
+
+// Swap the provider, e.g. to the mock in tests or a storybook
+export const setAiProvider = (next: AiProvider | null) => {
+  provider = next;
+};
+
+// False when the patient has opted out of AI processing; screens use it to pick their non-AI path
+export const isAiAllowed = async (patientId?: string | null) =>
+  !patientId || !(await fetchAiOptOut(patientId));
+
+const assertAiAllowed = async (task: AiTask, context: AiContext) => {
+  if (!(await isAiAllowed(context.patientId))) {
+    throw new AiOptOutError(task);
+  }
+};
+
+/**
+ * Ask for a JSON reply and validate it against `schema`. Names, phone numbers,
+ * addresses and IDs are swapped for placeholders before the prompt is sent and
+ * put back into the validated reply. Invalid replies are retried with the
+ * validation error appended, so the model can correct itself.
+ */
+const runStructured = async <T>(
+  task: AiTask,
+  prompt: string,
+  input: Record<string, unknown>,
+  schema: Schema<T>,
+  context: AiContext,
+  attachments?: AiAttachment[]
+): Promise<T> => {
+  await assertAiAllowed(task, context);
+  const { text: redactedPrompt, replacements } = redact(prompt, context.knownNames);
+  let lastError = '';
+
+  for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+    const retryNote = lastError
+      ? `\n\nYour previous reply was rejected (${lastError}). Reply with only the JSON object, no other text.`
+      : '';
+    const text = await getAiProvider().generate({
+      task,
+      prompt: redactedPrompt + retryNote,
+      input,
+      attachments,
+      patientId: context.patientId ?? undefined,
+    });
+
+    const json = extractJson(text);
+    const parsed = json.ok ? schema(json.value) : json;
+    if (parsed.ok) return restoreDeep(parsed.value, replacements);
+
+    lastError = parsed.error;
+    console.warn(`AI ${task} reply failed validation (attempt ${attempt + 1}):`, lastError);
+  }
+
+  throw new AiError(task, `Invalid AI response: ${lastError}`);
+};
+
+const deviceReadingSchema = object<DeviceReading>({
+  type: oneOf(['blood_pressure', 'blood_glucose', 'other'] as const),
+  systolic: optional(number()),
+  diastolic: optional(number()),
+  glucose: optional(number()),
+  unit: string(),
+  confidence: number(),
+});
+
+const parsedPrescriptionSchema = object<ParsedPrescription>({
+  medicines: arrayOf(string()),
+  instructions: string(),
+});
+
+const TIME_SLOT_NAMES = Object.keys(TIME_SLOTS) as TimeSlot[];
+
+const structuredPrescriptionSchema = object<StructuredPrescription>({
+  medicines: arrayOf(
+    object<ProposedMedication>({
+      name: string(),
+      strength: optional(string()),
+      dose: string(),
+      timesOfDay: arrayOf(oneOf(TIME_SLOT_NAMES)),
+      food: oneOf(['before_food', 'with_food', 'after_food', 'any'] as const),
+      durationDays: optional(number()),
+      asNeeded: boolean(),
+    })
+  ),
+  instructions: string(),
+});
+
+/**
+ * Read the values off a photo of a blood pressure monitor or glucometer.
+ * Photos can't be redacted, so only the device display should be in frame;
+ * throws AiOptOutError for patients who opted out.
+ */
+export const readDevicePhoto = async (imageBase64: string, context: AiContext = {}): Promise<DeviceReading> => {
+  const prompt = `Analyze this medical device reading image and extract the health measurements. The image shows a display from a medical device. Please identify:
+
+1. The type of measurement (blood pressure, blood glucose, or other)
+2. The numerical values shown
+3. The units (mmHg for blood pressure, mg/dL or mmol/L for glucose)
+4. Any additional information displayed
+
+Please format your response as JSON with the following structure:
+{
+  "type": "blood_pressure" | "blood_glucose" | "other",
+  "systolic": number (if blood pressure),
+  "diastolic": number (if blood pressure),
+  "glucose": number (if blood glucose),
+  "unit": "string",
+  "confidence": number (0-100)
+}
+
+If you cannot clearly identify the readings, set confidence to 0.`;
+
+  return runStructured('read_device_photo', prompt, {}, deviceReadingSchema, context, [
+    { mimeType: 'image/jpeg', data: imageBase64 },
+  ]);
+};
+
+// Transcribe a doctor's dictated prescription into medicines and instructions
+export const transcribePrescription = async (
+  audioBase64: string,
+  context: AiContext = {},
+  mimeType = 'audio/mpeg'
+): Promise<ParsedPrescription> =>
+  runStructured(
+    'transcribe_prescription',
+    'Transcribe this audio clip and extract prescription information. Do not include the patient\'s name or any contact details. Return in JSON format with keys "medicines" (array of strings) and "instructions" (string).',
+    {},
+    parsedPrescriptionSchema,
+    context,
+    [{ mimeType, data: audioBase64 }]
+  );
+
+const toMedication = (proposed: ProposedMedication, startDate: string): Medication => ({
+  name: proposed.name,
+  strength: proposed.strength || null,
+  dose: proposed.dose,
+  times: proposed.asNeeded ? [] : proposed.timesOfDay.map((slot) => TIME_SLOTS[slot]),
+  food: proposed.food,
+  startDate,
+  durationDays: proposed.durationDays ?? null,
+  asNeeded: proposed.asNeeded,
+  // Suggested locally; the model isn't asked to judge which medicines are critical
+  escalation: proposed.asNeeded ? null : suggestEscalation(proposed.name),
+});
+
+// One medicine per non-empty line, read by rules rather than a model
+const structureLocally = (text: string, instructions: string, startDate: string): Medication[] =>
+  text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => parseMedicationText(line, instructions, startDate));
+
+/**
+ * Turn a doctor's typed or dictated prescription into structured medicines
+ * (strength, dose, times of day, food, duration, as-needed) for them to review
+ * before saving. This is the only point AI touches a prescription; the
+ * schedule is computed locally from then on. Patients who opted out, or
+ * replies that can't be validated, get the rule-based reading instead.
+ */
+export const structurePrescription = async (
+  text: string,
+  instructions: string,
+  startDate: string,
+  context: AiContext = {}
+): Promise<{ medicines: Medication[]; instructions: string }> => {
+  if (!(await isAiAllowed(context.patientId))) {
+    return { medicines: structureLocally(text, instructions, startDate), instructions };
+  }
+
+  const prompt = `Parse the following prescription into structured medicines. Return JSON in this exact format:
+{
+  "medicines": [
+    {
+      "name": "medicine name without the strength",
+      "strength": "500mg" (omit if not given),
+      "dose": "1 tablet" or "5 ml" etc. (amount per dose),
+      "timesOfDay": array of "morning" | "afternoon" | "evening" | "night" (empty if taken only when needed),
+      "food": "before_food" | "with_food" | "after_food" | "any",
+      "durationDays": number of days to take it (omit if it should continue until stopped),
+      "asNeeded": boolean (true for SOS / when required medicines)
+    }
+  ],
+  "instructions": "any general advice that is not about a single medicine"
+}
+
+Read shorthand such as OD (once daily), BD (twice daily), TDS (three times daily) and 1-0-1 (morning and night). Do not invent medicines, doses or durations that are not in the text.
+
+Prescription text: ${text}
+Instructions: ${instructions}`;
+
+  try {
+    const structured = await runStructured(
+      'parse_prescription_text',
+      prompt,
+      { text, instructions },
+      structuredPrescriptionSchema,
+      context
+    );
+    return {
+      medicines: structured.medicines.map((medicine) => toMedication(medicine, startDate)),
+      instructions: structured.instructions || instructions,
+    };
+  } catch (error) {
+    console.error('Error structuring prescription, using rule-based reading:', error);
+    return { medicines: structureLocally(text, instructions, startDate), instructions };
+  }
+};
+
+// Reply to a patient in the health assistant, given the recent conversation
+export const chat = async (history: ChatTurn[], message: string, context: AiContext = {}): Promise<string> => {
+  await assertAiAllowed('chat', context);
+
+  const conversationHistory = history
+    .map((turn) => `${turn.sender === 'user' ? 'User' : 'Assistant'}: ${turn.text}`)
+    .join('\n');
+
+  const prompt = `You are a friendly and knowledgeable health assistant for patients. Provide clear, concise, and helpful information about health topics. Always include a disclaimer to consult healthcare professionals for medical advice.
+
+Format your responses using markdown for better readability:
+- Use bold for important terms or headings (do not include markdown symbols like **)
+- Use bullet points (-) for lists without markdown symbols
+- Use numbered lists (1., 2., etc.) without markdown symbols
+- Keep paragraphs short and to the point
+- Use emojis sparingly for friendliness (e.g., 💊 for medicine)
+- Structure responses with clear sections if needed
+- End with a clear disclaimer
+
+Format the output for display on a phone screen, keeping content concise, easy to read, and mobile-friendly.
+
+Keep responses engaging, empathetic, and easy to read. Avoid long paragraphs.
+
+Previous conversation:
+${conversationHistory}
+
+User: ${message}
+
+Assistant:`;
+
+  const { text: redactedPrompt, replacements } = redact(prompt, context.knownNames);
+  const reply = await getAiProvider().generate({
+    task: 'chat',
+    prompt: redactedPrompt,
+    input: { history, message },
+    patientId: context.patientId ?? undefined,
+  });
+  if (!reply.trim()) {
+    throw new AiError('chat', 'Empty AI response');
+  }
+  return restore(reply, replacements);
+};
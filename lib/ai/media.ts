@@ -0,0 +1,16 @@
+/**
+ * Read a local file (camera photo, voice recording) as base64 for inline
+ * upload. React Native's Blob has no arrayBuffer(), so go through FileReader.
+ */
+export const uriToBase64 = async (uri: string): Promise<string> => {
+  const response = await fetch(uri);
+  const blob = await response.blob();
+  const dataUrl = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+  // Drop the "data:<mime>;base64," prefix
+  return dataUrl.split(',')[1];
+};
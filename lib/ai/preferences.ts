@@ -0,0 +1,40 @@
+import { supabase } from '../supabase';
+
+// Opt-outs rarely change, so each is looked up once per session
+const optOutCache = new Map<string, boolean>();
+
+/**
+ * Whether this person has turned off AI processing of their data. Fails
+ * closed: if the setting can't be read, treat them as opted out.
+ */
+export const fetchAiOptOut = async (userId: string): Promise<boolean> => {
+  const cached = optOutCache.get(userId);
+  if (cached !== undefined) return cached;
+
+  const { data, error } = await supabase
+    .from('users')
+    .select('ai_opt_out')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching AI preference:', error);
+    return true;
+  }
+
+  const optedOut = !!data?.ai_opt_out;
+  optOutCache.set(userId, optedOut);
+  return optedOut;
+};
+
+export const updateAiOptOut = async (userId: string, optOut: boolean) => {
+  const { error } = await supabase
+    .from('users')
+    .update({ ai_opt_out: optOut, updated_at: new Date().toISOString() })
+    .eq('id', userId);
+
+  if (error) {
+    throw new Error(`Failed to update AI preference: ${error.message}`);
+  }
+  optOutCache.set(userId, optOut);
+};
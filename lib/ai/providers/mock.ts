@@ -0,0 +1,64 @@
+import { TIME_SLOTS, TimeSlot, parseMedicationText } from '../../medicationSchedule';
+import { AiProvider, AiRequest, ProposedMedication } from '../types';
+
+// Fixed values so screens and tests see the same result on every run
+const MOCK_DEVICE_READING = {
+  type: 'blood_pressure',
+  systolic: 120,
+  diastolic: 80,
+  unit: 'mmHg',
+  confidence: 95,
+};
+
+const MOCK_TRANSCRIPTION = {
+  medicines: ['Paracetamol 500mg - 1 tablet', 'Cetirizine 10mg - 1 tablet'],
+  instructions: 'Paracetamol twice daily after meals, cetirizine once at night, for 5 days.',
+};
+
+// The same reading the rules give, shaped as the model's reply
+const parsePrescriptionText = (input: Record<string, unknown>) => {
+  const instructions = String(input.instructions ?? '');
+  const medicines = String(input.text ?? '')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line): ProposedMedication => {
+      const medication = parseMedicationText(line, instructions, '');
+      return {
+        name: medication.name,
+        strength: medication.strength ?? undefined,
+        dose: medication.dose,
+        timesOfDay: (Object.keys(TIME_SLOTS) as TimeSlot[]).filter((slot) => medication.times.includes(TIME_SLOTS[slot])),
+        food: medication.food,
+        durationDays: medication.durationDays ?? undefined,
+        asNeeded: medication.asNeeded,
+      };
+    });
+  return { medicines, instructions };
+};
+
+const chatReply = (input: Record<string, unknown>) =>
+  `You asked: "${String(input.message ?? '')}"\n\n` +
+  'This is a sample reply from the offline assistant. Connect the app to an AI provider for real answers.\n\n' +
+  'Please consult a healthcare professional for medical advice.';
+
+/**
+ * Answers every task locally and deterministically, so AI features can be
+ * exercised with no network or API key. Structured tasks reply with JSON
+ * text, exactly as a real model would, and go through the same validation.
+ */
+export const createMockProvider = (): AiProvider => ({
+  name: 'mock',
+  generate: async ({ task, input }: AiRequest) => {
+    switch (task) {
+      case 'read_device_photo':
+        return JSON.stringify(MOCK_DEVICE_READING);
+      case 'transcribe_prescription':
+        return JSON.stringify(MOCK_TRANSCRIPTION);
+      case 'parse_prescription_text':
+        return JSON.stringify(parsePrescriptionText(input));
+      case 'chat':
+        return chatReply(input);
+    }
+  },
+});
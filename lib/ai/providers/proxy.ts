@@ -0,0 +1,31 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '../../supabase';
+import { AiError, AiOptOutError, AiProvider } from '../types';
+
+/**
+ * Sends every task to the ai-proxy edge function, which holds the Gemini key,
+ * checks the caller's session and enforces per-user rate limits. supabase-js
+ * attaches the signed-in user's access token automatically.
+ */
+export const createProxyProvider = (): AiProvider => ({
+  name: 'proxy',
+  generate: async ({ task, prompt, attachments, patientId }) => {
+    const { data, error } = await supabase.functions.invoke<{ text: string }>('ai-proxy', {
+      body: { task, prompt, attachments, patientId },
+    });
+
+    if (error) {
+      // The function explains rejections (signed out, rate limited) in its JSON body
+      if (error instanceof FunctionsHttpError) {
+        const body = await error.context.json().catch(() => null);
+        if (body?.code === 'ai_opted_out') throw new AiOptOutError(task);
+        throw new AiError(task, body?.error || error.message);
+      }
+      throw new AiError(task, error.message);
+    }
+    if (!data) {
+      throw new AiError(task, 'Empty AI response');
+    }
+    return data.text;
+  },
+});
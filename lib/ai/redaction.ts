@@ -0,0 +1,131 @@
+// Strip personal identifiers from text before it leaves the device for the
+// model. Each distinct value gets a stable placeholder ([NAME_1], [PHONE_1])
+// so the model can still refer to it, and replies are restored afterwards.
+
+export type Replacements = Record<string, string>;
+
+export interface RedactedText {
+  text: string;
+  // Placeholder -> original value
+  replacements: Replacements;
+}
+
+type Kind = 'NAME' | 'EMAIL' | 'PHONE' | 'ID' | 'ADDRESS';
+
+// Runs before known names, which would otherwise split "asha@example.com"
+const EMAIL = /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/g;
+
+// Order matters: longer, more specific identifiers are matched before the
+// generic patterns that could otherwise eat part of them
+const PATTERNS: { kind: Kind; pattern: RegExp }[] = [
+  // UUIDs, e.g. patient and record ids pasted into a message
+  { kind: 'ID', pattern: /\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi },
+  // ABHA health ID (14 digits, often 2-4-4-4)
+  { kind: 'ID', pattern: /\b\d{2}-?\d{4}-?\d{4}-?\d{4}\b/g },
+  // Aadhaar (12 digits, often 4-4-4)
+  { kind: 'ID', pattern: /\b\d{4}[\s-]?\d{4}[\s-]?\d{4}\b/g },
+  // PAN
+  { kind: 'ID', pattern: /\b[A-Z]{5}\d{4}[A-Z]\b/g },
+  // Indian mobiles with or without +91 / 0, and landlines with an STD code
+  { kind: 'PHONE', pattern: /(?:\+91[\s-]?|\b0)?\b[6-9]\d{4}[\s-]?\d{5}\b/g },
+  { kind: 'PHONE', pattern: /\b0\d{2,4}[\s-]\d{6,8}\b/g },
+  // Hospital / MRN style numbers: any run of 8+ digits
+  { kind: 'ID', pattern: /\b\d{8,}\b/g },
+  // "Flat 12, Green Park Road", "H.No 4-5/6": the keyword needs a number after it, so "house
+  // remedies" or "I feel flat" stay as written, and only capitalised words after it are taken as the street
+  {
+    kind: 'ADDRESS',
+    pattern: /\b(?:[Hh]ouse|[Ff]lat|[Hh]\.?\s?[Nn]o\.?|[Pp]lot|[Dd]oor)\s*(?:[Nn]o\.?\s*)?\d[\w/-]*(?:,?\s+[A-Z]\w*(?:\s+[A-Z]\w*)*)?/g,
+  },
+  {
+    kind: 'ADDRESS',
+    pattern: /\b\d{1,5}[\w/-]*,?\s+(?:[A-Z][\w.]*\s+){0,4}(?:Road|Rd|Street|St|Lane|Nagar|Colony|Marg|Sector|Block|Layout|Apartments?)\b[^.;\n]*/g,
+  },
+  { kind: 'ADDRESS', pattern: /\b(?:pin(?:\s?code)?|postal code)[:\s-]*\d{6}\b/gi },
+  // Names introduced by an honorific or "my name is"
+  {
+    kind: 'NAME',
+    pattern: /\b(?:Mr|Mrs|Ms|Miss|Dr|Shri|Smt|Kumari)\.?\s+[A-Z][a-z]+(?:\s+[A-Z][a-z]+){0,2}/g,
+  },
+];
+
+// "My name is Asha Devi": only the name is replaced, the lead-in stays
+const INTRODUCED_NAME = /\b([Mm]y name is|[Nn]ame:)\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+){0,2})/g;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Replace identifiers in `text` with placeholders. `knownNames` are people we
+ * know appear in the data (the patient, family members, the doctor); they are
+ * matched in full and by each part, since prompts often use a first name only.
+ */
+export const redact = (text: string, knownNames: (string | null | undefined)[] = [], replacements: Replacements = {}): RedactedText => {
+  const placeholderFor = new Map(Object.entries(replacements).map(([placeholder, value]) => [value.toLowerCase(), placeholder]));
+  const counts: Partial<Record<Kind, number>> = {};
+  for (const placeholder of Object.keys(replacements)) {
+    const kind = placeholder.slice(1, placeholder.lastIndexOf('_')) as Kind;
+    counts[kind] = (counts[kind] ?? 0) + 1;
+  }
+
+  const substitute = (kind: Kind) => (match: string) => {
+    // Already a placeholder from an earlier pattern
+    if (/^\[[A-Z]+_\d+\]$/.test(match)) return match;
+    const key = match.trim().toLowerCase();
+    let placeholder = placeholderFor.get(key);
+    if (!placeholder) {
+      counts[kind] = (counts[kind] ?? 0) + 1;
+      placeholder = `[${kind}_${counts[kind]}]`;
+      placeholderFor.set(key, placeholder);
+      replacements[placeholder] = match.trim();
+    }
+    return placeholder;
+  };
+
+  let result = text.replace(EMAIL, substitute('EMAIL'));
+
+  // Full names before their parts, longest first, so "Asha Devi" isn't split into two placeholders
+  const nameVariants = knownNames
+    .filter((name): name is string => !!name && name.trim().length > 0)
+    .flatMap((name) => [name.trim(), ...name.trim().split(/\s+/).filter((part) => part.length >= 3)])
+    .sort((a, b) => b.length - a.length);
+  for (const name of new Set(nameVariants)) {
+    result = result.replace(new RegExp(`\\b${escapeRegExp(name)}\\b`, 'gi'), substitute('NAME'));
+  }
+
+  for (const { kind, pattern } of PATTERNS) {
+    result = result.replace(pattern, substitute(kind));
+  }
+  result = result.replace(INTRODUCED_NAME, (_match, leadIn: string, name: string) => `${leadIn} ${substitute('NAME')(name)}`);
+
+  return { text: result, replacements };
+};
+
+/**
+ * Put the original values back into a model reply. A value can itself hold an
+ * earlier placeholder ("house no 12 near [NAME_1]"), so passes repeat until
+ * nothing changes; each pass can only uncover placeholders made before it.
+ */
+export const restore = (text: string, replacements: Replacements): string => {
+  let restored = text;
+  for (let pass = 0; pass < Object.keys(replacements).length; pass++) {
+    const next = restored.replace(
+      /\[(?:NAME|EMAIL|PHONE|ID|ADDRESS)_\d+\]/g,
+      (placeholder) => replacements[placeholder] ?? placeholder
+    );
+    if (next === restored) break;
+    restored = next;
+  }
+  return restored;
+};
+
+// Restore every string inside a parsed JSON reply
+export const restoreDeep = <T>(value: T, replacements: Replacements): T => {
+  if (typeof value === 'string') return restore(value, replacements) as T;
+  if (Array.isArray(value)) return value.map((item) => restoreDeep(item, replacements)) as T;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, restoreDeep(item, replacements)])
+    ) as T;
+  }
+  return value;
+};
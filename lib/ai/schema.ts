@@ -0,0 +1,82 @@
+// Minimal validators for model replies. Each returns the typed value or a
+// message explaining what was wrong, which is fed back to the model on retry.
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; error: string };
+
+export type Schema<T> = (value: unknown) => ValidationResult<T>;
+
+type Field<T> = { schema: Schema<T>; optional?: boolean };
+
+export const string = (): Schema<string> => (value) =>
+  typeof value === 'string' ? { ok: true, value } : { ok: false, error: 'expected a string' };
+
+export const number = (): Schema<number> => (value) => {
+  // Models often quote numbers ("120"); accept those rather than burn a retry
+  const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed)
+    ? { ok: true, value: parsed }
+    : { ok: false, error: 'expected a number' };
+};
+
+export const boolean = (): Schema<boolean> => (value) =>
+  typeof value === 'boolean' ? { ok: true, value } : { ok: false, error: 'expected true or false' };
+
+export const oneOf = <T extends string>(options: readonly T[]): Schema<T> => (value) =>
+  options.includes(value as T)
+    ? { ok: true, value: value as T }
+    : { ok: false, error: `expected one of ${options.join(', ')}` };
+
+export const arrayOf = <T>(item: Schema<T>): Schema<T[]> => (value) => {
+  if (!Array.isArray(value)) return { ok: false, error: 'expected an array' };
+  const items: T[] = [];
+  for (const [index, entry] of value.entries()) {
+    const result = item(entry);
+    if (!result.ok) return { ok: false, error: `[${index}]: ${result.error}` };
+    items.push(result.value);
+  }
+  return { ok: true, value: items };
+};
+
+export const optional = <T>(schema: Schema<T>): Field<T> => ({ schema, optional: true });
+
+export const object = <T>(shape: { [K in keyof T]-?: Schema<T[K]> | Field<T[K]> }): Schema<T> => (value) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { ok: false, error: 'expected a JSON object' };
+  }
+
+  const record = value as Record<string, unknown>;
+  const result: Partial<T> = {};
+  for (const key of Object.keys(shape) as (keyof T & string)[]) {
+    const entry = shape[key];
+    const field: Field<T[typeof key]> = typeof entry === 'function' ? { schema: entry } : entry;
+    const raw = record[key];
+
+    if (raw === undefined || raw === null) {
+      if (field.optional) continue;
+      return { ok: false, error: `"${key}" is missing` };
+    }
+    const parsed = field.schema(raw);
+    if (!parsed.ok) return { ok: false, error: `"${key}": ${parsed.error}` };
+    result[key] = parsed.value;
+  }
+  return { ok: true, value: result as T };
+};
+
+/**
+ * Pull the JSON value out of a model reply, which may wrap it in a markdown
+ * fence or surround it with prose.
+ */
+export const extractJson = (text: string): ValidationResult<unknown> => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = (fenced ? fenced[1] : text).trim();
+
+  const start = candidate.search(/[[{]/);
+  if (start === -1) return { ok: false, error: 'reply did not contain JSON' };
+  const end = Math.max(candidate.lastIndexOf('}'), candidate.lastIndexOf(']'));
+
+  try {
+    return { ok: true, value: JSON.parse(candidate.slice(start, end + 1)) };
+  } catch {
+    return { ok: false, error: 'reply was not valid JSON' };
+  }
+};
@@ -0,0 +1,91 @@
+import { FoodTiming, TimeSlot } from '../medicationSchedule';
+
+export type AiTask =
+  | 'read_device_photo'
+  | 'transcribe_prescription'
+  | 'parse_prescription_text'
+  | 'chat';
+
+// Inline media sent with a prompt, base64 encoded without the data: prefix
+export interface AiAttachment {
+  mimeType: string;
+  data: string;
+}
+
+export interface AiRequest {
+  task: AiTask;
+  prompt: string;
+  attachments?: AiAttachment[];
+  // The task's structured input, so providers that don't read the prompt (the mock) can still
+  // answer. It is not redacted, so only local providers may use it; it never leaves the device.
+  input: Record<string, unknown>;
+  // Whose data this is; the proxy refuses requests for patients who opted out
+  patientId?: string;
+}
+
+// Who a request is about, so their data can be protected before it is sent
+export interface AiContext {
+  patientId?: string | null;
+  // People likely to be named in the text (patient, family, doctor), redacted wherever they appear
+  knownNames?: (string | null | undefined)[];
+}
+
+export interface AiProvider {
+  name: string;
+  // Resolves with the model's raw text reply
+  generate: (request: AiRequest) => Promise<string>;
+}
+
+export class AiError extends Error {
+  constructor(
+    public task: AiTask,
+    message: string
+  ) {
+    super(message);
+    this.name = 'AiError';
+  }
+}
+
+// The patient has turned AI processing off; callers should offer their non-AI path
+export class AiOptOutError extends AiError {
+  constructor(task: AiTask) {
+    super(task, 'AI processing is turned off for this patient');
+    this.name = 'AiOptOutError';
+  }
+}
+
+export interface DeviceReading {
+  type: 'blood_pressure' | 'blood_glucose' | 'other';
+  systolic?: number;
+  diastolic?: number;
+  glucose?: number;
+  unit: string;
+  // 0-100; below 50 the photo could not be read reliably
+  confidence: number;
+}
+
+export interface ParsedPrescription {
+  medicines: string[];
+  instructions: string;
+}
+
+// A medicine as the model proposes it at prescription entry; the doctor reviews it before saving
+export interface ProposedMedication {
+  name: string;
+  strength?: string;
+  dose: string;
+  timesOfDay: TimeSlot[];
+  food: FoodTiming;
+  durationDays?: number;
+  asNeeded: boolean;
+}
+
+export interface StructuredPrescription {
+  medicines: ProposedMedication[];
+  instructions: string;
+}
+
+export interface ChatTurn {
+  sender: 'user' | 'assistant';
+  text: string;
+}
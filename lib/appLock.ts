@@ -0,0 +1,132 @@
+import { Platform } from 'react-native';
+import * as Crypto from 'expo-crypto';
+import * as SecureStore from 'expo-secure-store';
+import type { UserRole } from '../contexts/AuthContext';
+
+export const MIN_PIN_LENGTH = 4;
+export const MAX_PIN_LENGTH = 6;
+
+// Wrong PINs allowed before the lock screen forces a full sign-out
+export const MAX_PIN_ATTEMPTS = 5;
+
+const MINUTE = 60 * 1000;
+
+// After this many wrong PINs every further one blocks entry for a while, so
+// the remaining attempts can't be spent in a quick burst
+export const PIN_COOLDOWN_AFTER = 3;
+export const PIN_COOLDOWN_MS = 30 * 1000;
+
+export interface PinAttempts {
+  failedAttempts: number;
+  // Epoch ms until which no PIN is checked; null when entry is open
+  lockedUntil: number | null;
+}
+
+// Doctors use shared clinic tablets, so their sessions lock much sooner
+export const DEFAULT_LOCK_TIMEOUTS: Record<UserRole, number> = {
+  doctor: 1 * MINUTE,
+  pharmacy: 2 * MINUTE,
+  admin: 1 * MINUTE,
+  patient: 5 * MINUTE,
+};
+
+export const LOCK_TIMEOUT_OPTIONS: { label: string; value: number }[] = [
+  { label: 'Immediately', value: 0 },
+  { label: '1 minute', value: 1 * MINUTE },
+  { label: '2 minutes', value: 2 * MINUTE },
+  { label: '5 minutes', value: 5 * MINUTE },
+  { label: '15 minutes', value: 15 * MINUTE },
+];
+
+// SecureStore is native-only; the web build runs without an app lock
+export const isAppLockSupported = Platform.OS !== 'web';
+
+// Keys are per user so people sharing a device each keep their own PIN
+const pinHashKey = (userId: string) => `appLock.pinHash.${userId}`;
+const pinSaltKey = (userId: string) => `appLock.pinSalt.${userId}`;
+const timeoutKey = (userId: string) => `appLock.timeout.${userId}`;
+// Kept with the PIN so restarting the app doesn't hand out fresh attempts
+const failedAttemptsKey = (userId: string) => `appLock.failedAttempts.${userId}`;
+const lockedUntilKey = (userId: string) => `appLock.lockedUntil.${userId}`;
+
+export const isValidPin = (pin: string) =>
+  new RegExp(`^\\d{${MIN_PIN_LENGTH},${MAX_PIN_LENGTH}}$`).test(pin);
+
+const hashPin = (pin: string, salt: string) =>
+  Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `${salt}:${pin}`);
+
+export const hasPin = async (userId: string): Promise<boolean> => {
+  if (!isAppLockSupported) return false;
+  return !!(await SecureStore.getItemAsync(pinHashKey(userId)));
+};
+
+export const savePin = async (userId: string, pin: string) => {
+  if (!isValidPin(pin)) {
+    throw new Error(`PIN must be ${MIN_PIN_LENGTH}-${MAX_PIN_LENGTH} digits.`);
+  }
+
+  const salt = Crypto.randomUUID();
+  await SecureStore.setItemAsync(pinSaltKey(userId), salt);
+  await SecureStore.setItemAsync(pinHashKey(userId), await hashPin(pin, salt));
+};
+
+export const verifyPin = async (userId: string, pin: string): Promise<boolean> => {
+  const [storedHash, salt] = await Promise.all([
+    SecureStore.getItemAsync(pinHashKey(userId)),
+    SecureStore.getItemAsync(pinSaltKey(userId)),
+  ]);
+  if (!storedHash || !salt) return false;
+  return (await hashPin(pin, salt)) === storedHash;
+};
+
+export const getPinAttempts = async (userId: string): Promise<PinAttempts> => {
+  if (!isAppLockSupported) return { failedAttempts: 0, lockedUntil: null };
+  const [failedAttempts, lockedUntil] = await Promise.all([
+    SecureStore.getItemAsync(failedAttemptsKey(userId)),
+    SecureStore.getItemAsync(lockedUntilKey(userId)),
+  ]);
+  return {
+    failedAttempts: failedAttempts !== null ? Number(failedAttempts) : 0,
+    lockedUntil: lockedUntil !== null ? Number(lockedUntil) : null,
+  };
+};
+
+export const recordFailedPinAttempt = async (userId: string): Promise<PinAttempts> => {
+  const { failedAttempts } = await getPinAttempts(userId);
+  const next: PinAttempts = {
+    failedAttempts: failedAttempts + 1,
+    lockedUntil: failedAttempts + 1 >= PIN_COOLDOWN_AFTER ? Date.now() + PIN_COOLDOWN_MS : null,
+  };
+  await SecureStore.setItemAsync(failedAttemptsKey(userId), String(next.failedAttempts));
+  if (next.lockedUntil !== null) {
+    await SecureStore.setItemAsync(lockedUntilKey(userId), String(next.lockedUntil));
+  }
+  return next;
+};
+
+export const resetPinAttempts = async (userId: string) => {
+  if (!isAppLockSupported) return;
+  await Promise.all([
+    SecureStore.deleteItemAsync(failedAttemptsKey(userId)),
+    SecureStore.deleteItemAsync(lockedUntilKey(userId)),
+  ]);
+};
+
+export const clearPin = async (userId: string) => {
+  if (!isAppLockSupported) return;
+  await Promise.all([
+    SecureStore.deleteItemAsync(pinHashKey(userId)),
+    SecureStore.deleteItemAsync(pinSaltKey(userId)),
+    SecureStore.deleteItemAsync(timeoutKey(userId)),
+    resetPinAttempts(userId),
+  ]);
+};
+
+export const getLockTimeout = async (userId: string, role: UserRole): Promise<number> => {
+  const stored = isAppLockSupported ? await SecureStore.getItemAsync(timeoutKey(userId)) : null;
+  return stored !== null ? Number(stored) : DEFAULT_LOCK_TIMEOUTS[role];
+};
+
+export const saveLockTimeout = async (userId: string, timeoutMs: number) => {
+  await SecureStore.setItemAsync(timeoutKey(userId), String(timeoutMs));
+};
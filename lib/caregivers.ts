@@ -0,0 +1,198 @@
+import { supabase } from './supabase';
+import { normalizePhoneNumber } from './phoneAuth';
+import { CaregiverLinkRow, single } from './repositories/types';
+
+export type CaregiverPermission = 'view_readings' | 'mark_medicines' | 'book_appointments';
+
+export type CaregiverPermissions = Record<CaregiverPermission, boolean>;
+
+export type CaregiverAction =
+  | 'reading_added'
+  | 'reading_deleted'
+  | 'medicine_taken'
+  | 'medicine_skipped'
+  | 'appointment_requested'
+  | 'appointment_booked';
+
+export interface CaregiverLink {
+  id: string;
+  caregiverId: string;
+  caregiverName: string;
+  patientId: string;
+  patientName: string;
+  relationship: string;
+  permissions: CaregiverPermissions;
+}
+
+export const FULL_PERMISSIONS: CaregiverPermissions = {
+  view_readings: true,
+  mark_medicines: true,
+  book_appointments: true,
+};
+
+export const PERMISSION_LABELS: Record<CaregiverPermission, string> = {
+  view_readings: 'View health readings',
+  mark_medicines: 'Mark medicines as taken',
+  book_appointments: 'Book appointments',
+};
+
+const LINK_SELECT = `
+  id,
+  caregiver_id,
+  patient_id,
+  relationship,
+  can_view_readings,
+  can_mark_medicines,
+  can_book_appointments,
+  caregiver:caregiver_id ( name ),
+  patient:patient_id ( name )
+`;
+
+type LinkWithPeople = Omit<CaregiverLinkRow, 'status' | 'created_at' | 'updated_at'> & {
+  caregiver: { name: string } | { name: string }[] | null;
+  patient: { name: string } | { name: string }[] | null;
+};
+
+const mapLink = (row: LinkWithPeople): CaregiverLink => ({
+  id: row.id,
+  caregiverId: row.caregiver_id,
+  caregiverName: single(row.caregiver)?.name || 'Unknown',
+  patientId: row.patient_id,
+  patientName: single(row.patient)?.name || 'Unknown',
+  relationship: row.relationship || '',
+  permissions: {
+    view_readings: !!row.can_view_readings,
+    mark_medicines: !!row.can_mark_medicines,
+    book_appointments: !!row.can_book_appointments,
+  },
+});
+
+const toColumns = (permissions: CaregiverPermissions) => ({
+  can_view_readings: permissions.view_readings,
+  can_mark_medicines: permissions.mark_medicines,
+  can_book_appointments: permissions.book_appointments,
+});
+
+// Patients this user looks after
+export const fetchDependents = async (caregiverId: string): Promise<CaregiverLink[]> => {
+  const { data, error } = await supabase
+    .from('caregiver_links')
+    .select(LINK_SELECT)
+    .eq('caregiver_id', caregiverId)
+    .eq('status', 'active');
+
+  if (error) {
+    console.error('Error fetching dependents:', error);
+    return [];
+  }
+  return (data || []).map(mapLink);
+};
+
+// Caregivers who can act for this patient
+export const fetchCaregivers = async (patientId: string): Promise<CaregiverLink[]> => {
+  const { data, error } = await supabase
+    .from('caregiver_links')
+    .select(LINK_SELECT)
+    .eq('patient_id', patientId)
+    .eq('status', 'active')
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching caregivers:', error);
+    return [];
+  }
+  return (data || []).map(mapLink);
+};
+
+/**
+ * Grant a registered user caregiver access to a patient. The caregiver is
+ * looked up by email or mobile number.
+ */
+export const addCaregiver = async (
+  patientId: string,
+  contact: string,
+  relationship: string,
+  permissions: CaregiverPermissions
+): Promise<void> => {
+  const trimmed = contact.trim();
+  const column = trimmed.includes('@') ? 'email' : 'phone';
+  // Phone sign-up stores numbers in E.164, so "98765 43210" has to be looked up as "+919876543210"
+  const value = column === 'email' ? trimmed.toLowerCase() : normalizePhoneNumber(trimmed);
+  if (!value) {
+    throw new Error('Enter a valid email or mobile number.');
+  }
+
+  const { data: caregiver, error: lookupError } = await supabase
+    .from('users')
+    .select('id')
+    .eq(column, value)
+    .maybeSingle();
+
+  if (lookupError) {
+    throw new Error(`Failed to look up caregiver: ${lookupError.message}`);
+  }
+  if (!caregiver) {
+    throw new Error('No JeevanSetu account found for that email or mobile number.');
+  }
+  if (caregiver.id === patientId) {
+    throw new Error('You cannot add yourself as a caregiver.');
+  }
+
+  const { error } = await supabase
+    .from('caregiver_links')
+    .upsert({
+      caregiver_id: caregiver.id,
+      patient_id: patientId,
+      relationship,
+      status: 'active',
+      ...toColumns(permissions),
+      updated_at: new Date().toISOString(),
+    }, {
+      onConflict: 'caregiver_id,patient_id'
+    });
+
+  if (error) {
+    throw new Error(`Failed to add caregiver: ${error.message}`);
+  }
+};
+
+export const updateCaregiverPermissions = async (linkId: string, permissions: CaregiverPermissions) => {
+  const { error } = await supabase
+    .from('caregiver_links')
+    .update({ ...toColumns(permissions), updated_at: new Date().toISOString() })
+    .eq('id', linkId);
+
+  if (error) {
+    throw new Error(`Failed to update permissions: ${error.message}`);
+  }
+};
+
+export const revokeCaregiver = async (linkId: string) => {
+  const { error } = await supabase
+    .from('caregiver_links')
+    .update({ status: 'revoked', updated_at: new Date().toISOString() })
+    .eq('id', linkId);
+
+  if (error) {
+    throw new Error(`Failed to remove caregiver: ${error.message}`);
+  }
+};
+
+// Attribute an action taken on a dependent's behalf to the caregiver who took it
+export const logCaregiverAction = async (
+  caregiverId: string,
+  patientId: string,
+  action: CaregiverAction,
+  resourceId?: string
+) => {
+  const { error } = await supabase.from('caregiver_actions').insert({
+    caregiver_id: caregiverId,
+    patient_id: patientId,
+    action,
+    resource_id: resourceId ?? null,
+  });
+
+  if (error) {
+    console.error('Error logging caregiver action:', error);
+  }
+};
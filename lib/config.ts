@@ -0,0 +1,92 @@
+export type AppEnvironment = 'local' | 'development' | 'staging' | 'production';
+export type AiProviderName = 'proxy' | 'mock';
+
+export interface AppConfig {
+  environment: AppEnvironment;
+  supabaseUrl: string;
+  supabaseAnonKey: string;
+  // AI calls go through the ai-proxy edge function, which holds the Gemini key;
+  // the mock provider answers every task locally, with no network
+  aiProvider: AiProviderName;
+}
+
+const ENVIRONMENTS: AppEnvironment[] = ['local', 'development', 'staging', 'production'];
+const AI_PROVIDERS: AiProviderName[] = ['proxy', 'mock'];
+
+// Local builds talk to `supabase start`, which only serves plain http
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '10.0.2.2'];
+
+/**
+ * Expo only inlines EXPO_PUBLIC_* variables that are read with a literal
+ * `process.env.NAME`, so each one is listed here rather than looked up by key.
+ */
+const readEnv = () => ({
+  EXPO_PUBLIC_APP_ENV: process.env.EXPO_PUBLIC_APP_ENV,
+  EXPO_PUBLIC_SUPABASE_URL: process.env.EXPO_PUBLIC_SUPABASE_URL,
+  EXPO_PUBLIC_SUPABASE_ANON_KEY: process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY,
+  EXPO_PUBLIC_AI_PROVIDER: process.env.EXPO_PUBLIC_AI_PROVIDER,
+});
+
+const validateSupabaseUrl = (value: string, environment: AppEnvironment): string | null => {
+  if (!value) return 'EXPO_PUBLIC_SUPABASE_URL is not set.';
+
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return `EXPO_PUBLIC_SUPABASE_URL is not a valid URL: "${value}".`;
+  }
+
+  const isLocalHost = LOCAL_HOSTS.includes(url.hostname);
+  if (environment !== 'local' && isLocalHost) {
+    return `EXPO_PUBLIC_SUPABASE_URL points at ${url.hostname}, which is only allowed when EXPO_PUBLIC_APP_ENV=local.`;
+  }
+  if (url.protocol !== 'https:' && !(environment === 'local' && isLocalHost)) {
+    return 'EXPO_PUBLIC_SUPABASE_URL must use https.';
+  }
+  return null;
+};
+
+const loadConfig = (): { config: AppConfig; errors: string[] } => {
+  const env = readEnv();
+  const errors: string[] = [];
+
+  const requestedEnvironment = (env.EXPO_PUBLIC_APP_ENV || 'development').trim() as AppEnvironment;
+  if (!ENVIRONMENTS.includes(requestedEnvironment)) {
+    errors.push(`EXPO_PUBLIC_APP_ENV must be one of ${ENVIRONMENTS.join(', ')} (got "${env.EXPO_PUBLIC_APP_ENV}").`);
+  }
+  const environment = ENVIRONMENTS.includes(requestedEnvironment) ? requestedEnvironment : 'development';
+
+  const supabaseUrl = (env.EXPO_PUBLIC_SUPABASE_URL || '').trim();
+  const urlError = validateSupabaseUrl(supabaseUrl, environment);
+  if (urlError) errors.push(urlError);
+
+  const supabaseAnonKey = (env.EXPO_PUBLIC_SUPABASE_ANON_KEY || '').trim();
+  if (!supabaseAnonKey) {
+    errors.push('EXPO_PUBLIC_SUPABASE_ANON_KEY is not set.');
+  } else if (supabaseAnonKey.split('.').length !== 3) {
+    errors.push('EXPO_PUBLIC_SUPABASE_ANON_KEY does not look like a Supabase anon key (expected a JWT).');
+  }
+
+  const requestedProvider = (env.EXPO_PUBLIC_AI_PROVIDER || 'proxy').trim() as AiProviderName;
+  if (!AI_PROVIDERS.includes(requestedProvider)) {
+    errors.push(`EXPO_PUBLIC_AI_PROVIDER must be one of ${AI_PROVIDERS.join(', ')} (got "${env.EXPO_PUBLIC_AI_PROVIDER}").`);
+  } else if (requestedProvider === 'mock' && (environment === 'staging' || environment === 'production')) {
+    errors.push(`EXPO_PUBLIC_AI_PROVIDER=mock is not allowed in ${environment} builds.`);
+  }
+  const aiProvider = AI_PROVIDERS.includes(requestedProvider) ? requestedProvider : 'proxy';
+
+  return {
+    config: { environment, supabaseUrl, supabaseAnonKey, aiProvider },
+    errors,
+  };
+};
+
+const loaded = loadConfig();
+
+export const config: AppConfig = loaded.config;
+
+// Problems found while loading; the root layout shows them instead of the app
+export const configErrors: string[] = loaded.errors;
+
+export const isConfigValid = configErrors.length === 0;
@@ -0,0 +1,204 @@
+import { supabase } from './supabase';
+import { DoctorAccessConsentRow, DoctorRow, UserRow, single } from './repositories/types';
+
+export type ConsentCategory = 'readings' | 'reports' | 'prescriptions' | 'profile';
+
+export type ConsentCategories = Record<ConsentCategory, boolean>;
+
+export interface DoctorConsent {
+  id: string;
+  patientId: string;
+  patientName: string;
+  doctorId: string;
+  doctorName: string;
+  categories: ConsentCategories;
+  expiresAt: string;
+}
+
+export interface ConsentDoctor {
+  id: string;
+  name: string;
+  specialty: string;
+}
+
+export const CONSENT_CATEGORY_LABELS: Record<ConsentCategory, string> = {
+  readings: 'Health readings',
+  reports: 'Medical reports',
+  prescriptions: 'Prescription history',
+  profile: 'Profile (age, gender, blood group)',
+};
+
+export const CONSENT_CATEGORIES = Object.keys(CONSENT_CATEGORY_LABELS) as ConsentCategory[];
+
+export const DEFAULT_CONSENT_CATEGORIES: ConsentCategories = {
+  readings: true,
+  reports: true,
+  prescriptions: true,
+  profile: true,
+};
+
+export const CONSENT_DURATIONS: { label: string; days: number }[] = [
+  { label: '1 day', days: 1 },
+  { label: '1 week', days: 7 },
+  { label: '1 month', days: 30 },
+  { label: '6 months', days: 180 },
+];
+
+const CONSENT_SELECT = `
+  id,
+  patient_id,
+  doctor_id,
+  can_view_readings,
+  can_view_reports,
+  can_view_prescriptions,
+  can_view_profile,
+  expires_at,
+  patient:patient_id ( name ),
+  doctor:doctor_id ( name )
+`;
+
+type ConsentWithPeople = Omit<DoctorAccessConsentRow, 'status' | 'revoked_at' | 'created_at' | 'updated_at'> & {
+  patient: { name: string } | { name: string }[] | null;
+  doctor: { name: string } | { name: string }[] | null;
+};
+
+type ConsentDoctorRow = Pick<UserRow, 'id' | 'name'> & {
+  doctors: Pick<DoctorRow, 'specialty'> | Pick<DoctorRow, 'specialty'>[] | null;
+};
+
+const mapConsent = (row: ConsentWithPeople): DoctorConsent => ({
+  id: row.id,
+  patientId: row.patient_id,
+  patientName: single(row.patient)?.name || 'Unknown',
+  doctorId: row.doctor_id,
+  doctorName: single(row.doctor)?.name || 'Unknown',
+  categories: {
+    readings: !!row.can_view_readings,
+    reports: !!row.can_view_reports,
+    prescriptions: !!row.can_view_prescriptions,
+    profile: !!row.can_view_profile,
+  },
+  expiresAt: row.expires_at,
+});
+
+const toColumns = (categories: ConsentCategories) => ({
+  can_view_readings: categories.readings,
+  can_view_reports: categories.reports,
+  can_view_prescriptions: categories.prescriptions,
+  can_view_profile: categories.profile,
+});
+
+// Doctors this patient has shared records with and who still have access
+export const fetchPatientConsents = async (patientId: string): Promise<DoctorConsent[]> => {
+  const { data, error } = await supabase
+    .from('doctor_access_consents')
+    .select(CONSENT_SELECT)
+    .eq('patient_id', patientId)
+    .eq('status', 'active')
+    .gt('expires_at', new Date().toISOString())
+    .order('expires_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching consents:', error);
+    return [];
+  }
+  return (data || []).map(mapConsent);
+};
+
+// Patients who have currently shared at least one category with this doctor
+export const fetchDoctorConsents = async (doctorId: string): Promise<DoctorConsent[]> => {
+  const { data, error } = await supabase
+    .from('doctor_access_consents')
+    .select(CONSENT_SELECT)
+    .eq('doctor_id', doctorId)
+    .eq('status', 'active')
+    .gt('expires_at', new Date().toISOString());
+
+  if (error) {
+    console.error('Error fetching doctor consents:', error);
+    return [];
+  }
+  return (data || []).map(mapConsent);
+};
+
+// Patient ids from a doctor's consents that cover the given category
+export const consentedPatientIds = (consents: DoctorConsent[], category: ConsentCategory): string[] =>
+  consents.filter((consent) => consent.categories[category]).map((consent) => consent.patientId);
+
+export const searchConsentDoctors = async (query: string): Promise<ConsentDoctor[]> => {
+  const { data, error } = await supabase
+    .from('users')
+    .select('id, name, doctors(specialty)')
+    .eq('role', 'doctor')
+    .ilike('name', `%${query.trim()}%`)
+    .order('name', { ascending: true })
+    .limit(10);
+
+  if (error) {
+    console.error('Error searching doctors:', error);
+    return [];
+  }
+  return (data || []).map((row: ConsentDoctorRow) => ({
+    id: row.id,
+    name: row.name,
+    specialty: single(row.doctors)?.specialty || '',
+  }));
+};
+
+/**
+ * Share the chosen record categories with a doctor until the end of the
+ * given period. Granting again replaces the categories and restarts the
+ * period rather than stacking consents.
+ */
+export const grantDoctorAccess = async (
+  patientId: string,
+  doctorId: string,
+  categories: ConsentCategories,
+  durationDays: number
+): Promise<void> => {
+  if (!Object.values(categories).some(Boolean)) {
+    throw new Error('Choose at least one type of record to share.');
+  }
+
+  const expiresAt = new Date(Date.now() + durationDays * 24 * 60 * 60 * 1000);
+  const { error } = await supabase
+    .from('doctor_access_consents')
+    .upsert({
+      patient_id: patientId,
+      doctor_id: doctorId,
+      status: 'active',
+      ...toColumns(categories),
+      expires_at: expiresAt.toISOString(),
+      revoked_at: null,
+      updated_at: new Date().toISOString(),
+    }, {
+      onConflict: 'patient_id,doctor_id'
+    });
+
+  if (error) {
+    throw new Error(`Failed to share records: ${error.message}`);
+  }
+};
+
+export const updateConsentCategories = async (consentId: string, categories: ConsentCategories) => {
+  const { error } = await supabase
+    .from('doctor_access_consents')
+    .update({ ...toColumns(categories), updated_at: new Date().toISOString() })
+    .eq('id', consentId);
+
+  if (error) {
+    throw new Error(`Failed to update shared records: ${error.message}`);
+  }
+};
+
+export const revokeDoctorAccess = async (consentId: string) => {
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from('doctor_access_consents')
+    .update({ status: 'revoked', revoked_at: now, updated_at: now })
+    .eq('id', consentId);
+
+  if (error) {
+    throw new Error(`Failed to revoke access: ${error.message}`);
+  }
+};
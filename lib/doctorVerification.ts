@@ -0,0 +1,211 @@
+import { supabase } from './supabase';
+import { DoctorRow, UserRow, single } from './repositories/types';
+
+export type VerificationStatus = 'pending' | 'approved' | 'rejected';
+
+// Storage bucket holding registration certificates and ID proofs, one folder per doctor id
+export const CREDENTIALS_BUCKET = 'doctor-credentials';
+
+export interface DoctorApplication {
+  id: string;
+  name: string;
+  email: string;
+  specialty: string;
+  hospital: string;
+  registrationNo: string;
+  councilName: string;
+  yearOfRegistration: string;
+  status: VerificationStatus;
+  isVerified: boolean;
+  verificationNotes: string;
+  verifiedAt: string | null;
+  submittedAt: string;
+  hasSubmitted: boolean;
+}
+
+export type CredentialKind = 'certificate' | 'id_proof';
+
+export const CREDENTIAL_LABELS: Record<CredentialKind, string> = {
+  certificate: 'Registration Certificate',
+  id_proof: 'Government ID Proof',
+};
+
+export interface CredentialSubmission {
+  registrationNo: string;
+  councilName: string;
+  yearOfRegistration: string;
+}
+
+// A file picked on device, ready to be uploaded to the credentials bucket
+export interface CredentialUpload {
+  kind: CredentialKind;
+  uri: string;
+  name: string;
+  mimeType?: string;
+}
+
+export interface CredentialDocument {
+  name: string;
+  path: string;
+  uploadedAt: string | null;
+}
+
+type DoctorWithUser = DoctorRow & {
+  users: Pick<UserRow, 'name' | 'email'> | Pick<UserRow, 'name' | 'email'>[] | null;
+};
+
+const mapApplication = (row: DoctorWithUser): DoctorApplication => ({
+  id: row.id,
+  name: single(row.users)?.name || 'Unknown Doctor',
+  email: single(row.users)?.email || '',
+  specialty: row.specialty || '',
+  hospital: row.hospital || '',
+  registrationNo: row.registration_no || '',
+  councilName: row.council_name || '',
+  yearOfRegistration: row.year_of_registration || '',
+  status: row.verification_status || 'pending',
+  isVerified: !!row.is_verified,
+  verificationNotes: row.verification_notes || '',
+  verifiedAt: row.verified_at,
+  submittedAt: row.submitted_at || row.updated_at,
+  hasSubmitted: !!row.submitted_at,
+});
+
+// Doctors who signed up but never submitted credentials are left out of the queue
+export const fetchDoctorApplications = async (status: VerificationStatus): Promise<DoctorApplication[]> => {
+  const { data, error } = await supabase
+    .from('doctors')
+    .select('*, users!inner(name, email)')
+    .eq('verification_status', status)
+    .not('submitted_at', 'is', null)
+    .order('submitted_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching doctor applications:', error);
+    return [];
+  }
+  return (data || []).map(mapApplication);
+};
+
+export const fetchDoctorApplication = async (doctorId: string): Promise<DoctorApplication | null> => {
+  const { data, error } = await supabase
+    .from('doctors')
+    .select('*, users!inner(name, email)')
+    .eq('id', doctorId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching doctor application:', error);
+    return null;
+  }
+  return data ? mapApplication(data) : null;
+};
+
+export const isDoctorVerified = async (doctorId: string): Promise<boolean> => {
+  const { data, error } = await supabase
+    .from('doctors')
+    .select('is_verified')
+    .eq('id', doctorId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error checking doctor verification:', error);
+    return false;
+  }
+  return !!data?.is_verified;
+};
+
+export const fetchCredentialDocuments = async (doctorId: string): Promise<CredentialDocument[]> => {
+  const { data, error } = await supabase.storage
+    .from(CREDENTIALS_BUCKET)
+    .list(doctorId, { sortBy: { column: 'created_at', order: 'desc' } });
+
+  if (error) {
+    console.error('Error listing credential documents:', error);
+    return [];
+  }
+
+  return (data || [])
+    .filter((file) => !!file.id)
+    .map((file) => ({
+      name: file.name,
+      path: `${doctorId}/${file.name}`,
+      uploadedAt: file.created_at || null,
+    }));
+};
+
+export const getCredentialDocumentUrl = async (path: string): Promise<string> => {
+  const { data, error } = await supabase.storage
+    .from(CREDENTIALS_BUCKET)
+    .createSignedUrl(path, 600);
+
+  if (error) {
+    throw new Error(`Failed to open document: ${error.message}`);
+  }
+  return data.signedUrl;
+};
+
+/**
+ * Send a doctor's registration details and documents for admin review. Files are
+ * uploaded first so a failed upload never leaves an application without its proof.
+ */
+export const submitDoctorCredentials = async (
+  doctorId: string,
+  details: CredentialSubmission,
+  uploads: CredentialUpload[]
+) => {
+  for (const upload of uploads) {
+    const response = await fetch(upload.uri);
+    const body = await response.arrayBuffer();
+    const { error: uploadError } = await supabase.storage
+      .from(CREDENTIALS_BUCKET)
+      .upload(`${doctorId}/${upload.kind}-${Date.now()}-${upload.name}`, body, {
+        contentType: upload.mimeType || 'application/octet-stream',
+      });
+
+    if (uploadError) {
+      throw new Error(`Failed to upload ${CREDENTIAL_LABELS[upload.kind]}: ${uploadError.message}`);
+    }
+  }
+
+  const submittedAt = new Date().toISOString();
+  const { error } = await supabase
+    .from('doctors')
+    .upsert({
+      id: doctorId,
+      registration_no: details.registrationNo,
+      council_name: details.councilName,
+      year_of_registration: details.yearOfRegistration,
+      // Moving back to pending clears any earlier decision; only an admin can set anything else
+      verification_status: 'pending',
+      submitted_at: submittedAt,
+      updated_at: submittedAt,
+    }, {
+      onConflict: 'id'
+    });
+
+  if (error) {
+    throw new Error(`Failed to submit credentials: ${error.message}`);
+  }
+};
+
+/**
+ * Record an admin's decision on a doctor's registration. The database
+ * function checks the caller is an admin, sets `is_verified` on approval and
+ * appends the decision to the review log in one step.
+ */
+export const reviewDoctorApplication = async (
+  doctorId: string,
+  decision: Exclude<VerificationStatus, 'pending'>,
+  reason: string
+) => {
+  const { error } = await supabase.rpc('review_doctor_application', {
+    target_doctor_id: doctorId,
+    decision,
+    reason,
+  });
+
+  if (error) {
+    throw new Error(`Failed to save decision: ${error.message}`);
+  }
+};
@@ -0,0 +1,233 @@
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { Prescription } from './repositories/prescriptions';
+import {
+  ScheduledDose,
+  addDays,
+  doseKey,
+  formatDoseTime,
+  getDosesForDate,
+  scheduledAt,
+  toDateKey,
+} from './medicationSchedule';
+
+export const DOSE_REMINDER_CATEGORY = 'dose-reminder';
+export const TAKE_ACTION = 'take';
+export const SNOOZE_ACTION = 'snooze';
+
+const CHANNEL_ID = 'dose-reminders';
+export const SNOOZE_MINUTES = 10;
+// Reminders are rescheduled every time the app opens, so a few days ahead covers a
+// patient who doesn't open it for a while without hitting iOS's 64-notification limit
+const DAYS_AHEAD = 3;
+const MAX_REMINDERS = 60;
+
+// Each stage has its own identifier, so rescheduling replaces a dose's reminders rather than stacking them
+export type ReminderStage = 'due' | 'snoozed' | 'missed' | 'alert_contacts';
+
+const STAGE_PREFIX: Record<ReminderStage, string> = {
+  due: 'dose',
+  snoozed: 'dose-snooze',
+  missed: 'dose-missed',
+  alert_contacts: 'dose-alert',
+};
+
+// Carried in each reminder so an action can be written back without loading anything
+export interface DoseReminderData {
+  kind: 'dose_reminder';
+  stage: ReminderStage;
+  patientId: string;
+  prescriptionId: string;
+  medicineIndex: number;
+  scheduledDate: string;
+  scheduledTime: string;
+  medicineName: string;
+}
+
+interface PlannedReminder {
+  data: DoseReminderData;
+  title: string;
+  body: string;
+  at: Date;
+}
+
+export const isDoseReminder = (data: unknown): data is DoseReminderData =>
+  !!data && typeof data === 'object' && (data as { kind?: string }).kind === 'dose_reminder';
+
+/**
+ * Show reminders while the app is open too, and register the "Taken" and
+ * "Snooze" buttons. Both actions open the app: the write goes through the
+ * same outbox as a tap on the Today screen, which needs the app running.
+ */
+export const configureDoseReminders = async () => {
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowBanner: true,
+      shouldShowList: true,
+      shouldPlaySound: true,
+      shouldSetBadge: false,
+    }),
+  });
+
+  try {
+    await Notifications.setNotificationCategoryAsync(DOSE_REMINDER_CATEGORY, [
+      { identifier: TAKE_ACTION, buttonTitle: 'Taken', options: { opensAppToForeground: true } },
+      { identifier: SNOOZE_ACTION, buttonTitle: `Snooze ${SNOOZE_MINUTES} min`, options: { opensAppToForeground: true } },
+    ]);
+    if (Platform.OS === 'android') {
+      await Notifications.setNotificationChannelAsync(CHANNEL_ID, {
+        name: 'Medicine reminders',
+        importance: Notifications.AndroidImportance.HIGH,
+      });
+    }
+  } catch (error) {
+    console.error('Error configuring dose reminders:', error);
+  }
+};
+
+// Ask once; resolves false when the patient has declined
+const ensurePermission = async () => {
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted) return true;
+  if (!current.canAskAgain) return false;
+  const requested = await Notifications.requestPermissionsAsync();
+  return requested.granted;
+};
+
+const scheduleReminder = ({ data, title, body, at }: PlannedReminder) =>
+  Notifications.scheduleNotificationAsync({
+    identifier: `${STAGE_PREFIX[data.stage]}:${doseKey(data.prescriptionId, data.medicineIndex, data.scheduledDate, data.scheduledTime)}`,
+    content: {
+      title,
+      body,
+      data: { ...data },
+      categoryIdentifier: DOSE_REMINDER_CATEGORY,
+      sound: true,
+    },
+    trigger: { type: Notifications.SchedulableTriggerInputTypes.DATE, date: at, channelId: CHANNEL_ID },
+  });
+
+// Cancel a patient's reminders; all patients' when no id is given (on sign-out)
+export const cancelDoseReminders = async (patientId?: string, options: { keepSnoozed?: boolean } = {}) => {
+  try {
+    const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+    await Promise.all(
+      scheduled
+        .filter(({ content }) => {
+          const data = content.data;
+          if (!isDoseReminder(data)) return false;
+          if (patientId && data.patientId !== patientId) return false;
+          return !(options.keepSnoozed && data.stage === 'snoozed');
+        })
+        .map(({ identifier }) => Notifications.cancelScheduledNotificationAsync(identifier))
+    );
+  } catch (error) {
+    console.error('Error cancelling dose reminders:', error);
+  }
+};
+
+const minutesAfter = (date: Date, minutes: number) => new Date(date.getTime() + minutes * 60 * 1000);
+
+// The reminder when a dose is due, plus the missed-dose follow-ups when its medicine escalates
+const remindersFor = (
+  patientId: string,
+  prescriptionId: string,
+  date: string,
+  { medicineIndex, medication, time }: ScheduledDose
+): PlannedReminder[] => {
+  const name = medication.strength ? `${medication.name} ${medication.strength}` : medication.name;
+  const due = scheduledAt(date, time);
+  const dataFor = (stage: ReminderStage): DoseReminderData => ({
+    kind: 'dose_reminder',
+    stage,
+    patientId,
+    prescriptionId,
+    medicineIndex,
+    scheduledDate: date,
+    scheduledTime: time,
+    medicineName: name,
+  });
+
+  const reminders: PlannedReminder[] = [
+    { data: dataFor('due'), title: `Time for ${name}`, body: `${medication.dose} at ${formatDoseTime(time)}`, at: due },
+  ];
+  const { escalation } = medication;
+  if (escalation) {
+    reminders.push(
+      {
+        data: dataFor('missed'),
+        title: `Missed dose: ${name}`,
+        body: `Your ${formatDoseTime(time)} dose hasn't been marked as taken`,
+        at: minutesAfter(due, escalation.remindAfterMinutes),
+      },
+      {
+        data: dataFor('alert_contacts'),
+        title: `${name} still not taken`,
+        body: 'Mark it taken, or open the app to let your emergency contacts know',
+        at: minutesAfter(due, escalation.alertContactsAfterMinutes),
+      }
+    );
+  }
+  return reminders;
+};
+
+/**
+ * Replace a patient's scheduled reminders with the upcoming ones for their
+ * active prescriptions: one when each dose is due and, for medicines that
+ * escalate, a missed-dose reminder and a prompt to alert contacts. Doses
+ * already marked (`loggedDoseKeys`) get none, and finished courses drop out
+ * because the schedule engine no longer lists them. Runs entirely on the
+ * device, so it works offline from cached data.
+ */
+export const scheduleDoseReminders = async (
+  patientId: string,
+  prescriptions: Prescription[],
+  loggedDoseKeys: Set<string>
+) => {
+  try {
+    await cancelDoseReminders(patientId, { keepSnoozed: true });
+    // A snoozed reminder stays until its dose is marked
+    await Promise.all(
+      [...loggedDoseKeys].map((key) => Notifications.cancelScheduledNotificationAsync(`${STAGE_PREFIX.snoozed}:${key}`))
+    );
+
+    const now = new Date();
+    const today = toDateKey(now);
+    // From yesterday, since a late-evening dose's follow-ups can fall after midnight
+    const upcoming = Array.from({ length: DAYS_AHEAD + 1 }, (_day, offset) => addDays(today, offset - 1))
+      .flatMap((date) =>
+        prescriptions
+          .filter((prescription) => prescription.status === 'active')
+          .flatMap((prescription) =>
+            getDosesForDate(prescription.medicines, date)
+              .filter((dose) => !loggedDoseKeys.has(doseKey(prescription.id, dose.medicineIndex, date, dose.time)))
+              .flatMap((dose) => remindersFor(patientId, prescription.id, date, dose))
+          )
+      )
+      .filter(({ at }) => at > now)
+      .sort((a, b) => a.at.getTime() - b.at.getTime())
+      .slice(0, MAX_REMINDERS);
+
+    if (upcoming.length === 0 || !(await ensurePermission())) return;
+
+    for (const reminder of upcoming) {
+      await scheduleReminder(reminder);
+    }
+  } catch (error) {
+    console.error('Error scheduling dose reminders:', error);
+  }
+};
+
+// Remind again in a few minutes
+export const snoozeDoseReminder = async (data: DoseReminderData) => {
+  try {
+    await scheduleReminder({
+      data: { ...data, stage: 'snoozed' },
+      title: `Reminder: ${data.medicineName}`,
+      body: `Your ${formatDoseTime(data.scheduledTime)} dose is still due`,
+      at: minutesAfter(new Date(), SNOOZE_MINUTES),
+    });
+  } catch (error) {
+    console.error('Error snoozing dose reminder:', error);
+  }
+};
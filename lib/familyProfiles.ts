@@ -0,0 +1,68 @@
+import { supabase } from './supabase';
+import { UserRow } from './repositories/types';
+
+export interface FamilyProfile {
+  id: string;
+  name: string;
+  relationship: string;
+}
+
+export const FAMILY_RELATIONSHIPS = ['Spouse', 'Son', 'Daughter', 'Father', 'Mother', 'Other'];
+
+// Household members whose patient profiles are held by this login
+export const fetchFamilyProfiles = async (accountId: string): Promise<FamilyProfile[]> => {
+  const { data, error } = await supabase
+    .from('users')
+    .select('id, name, relationship')
+    .eq('account_id', accountId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching family profiles:', error);
+    return [];
+  }
+  return (data || []).map((row: Pick<UserRow, 'id' | 'name' | 'relationship'>) => ({
+    id: row.id,
+    name: row.name,
+    relationship: row.relationship || '',
+  }));
+};
+
+/**
+ * Create a patient profile owned by the signed-in account. The member gets
+ * their own users and patients rows but no auth identity of their own.
+ */
+export const createFamilyProfile = async (
+  accountId: string,
+  name: string,
+  relationship: string
+): Promise<FamilyProfile> => {
+  const { data, error } = await supabase
+    .from('users')
+    .insert({
+      account_id: accountId,
+      name,
+      relationship,
+      role: 'patient',
+    })
+    .select('id, name, relationship')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create profile: ${error.message}`);
+  }
+
+  const { error: patientError } = await supabase
+    .from('patients')
+    .insert({
+      id: data.id,
+      profile_completed: false,
+      medical_history_completed: false,
+    });
+
+  if (patientError) {
+    throw new Error(`Failed to create patient record: ${patientError.message}`);
+  }
+
+  return { id: data.id, name: data.name, relationship: data.relationship || '' };
+};
@@ -0,0 +1,257 @@
+// Works out which doses are due on a given day from a prescription's
+// structured medicines. Everything here is pure and synchronous, so the Today
+// list, reminders and adherence all agree without a network call.
+
+export type FoodTiming = 'before_food' | 'with_food' | 'after_food' | 'any';
+export type TimeSlot = 'morning' | 'afternoon' | 'evening' | 'night';
+
+// What happens when a scheduled dose goes unmarked, counted from when it was due
+export interface EscalationRule {
+  // Remind the patient again
+  remindAfterMinutes: number;
+  // Then text the emergency contacts they chose for missed-dose alerts
+  alertContactsAfterMinutes: number;
+}
+
+export interface Medication {
+  name: string;
+  // "500mg"; null when the prescription didn't say
+  strength: string | null;
+  // How much per dose, e.g. "1 tablet" or "5 ml"
+  dose: string;
+  // Local "HH:MM" times a dose is due each day; empty for as-needed medicines
+  times: string[];
+  food: FoodTiming;
+  // YYYY-MM-DD, the first day of the course
+  startDate: string;
+  // null means it continues until the doctor stops it
+  durationDays: number | null;
+  // PRN: taken only when needed, never scheduled
+  asNeeded: boolean;
+  // Set for critical medicines; null means a missed dose only shows on the Today list
+  escalation: EscalationRule | null;
+}
+
+export interface CourseProgress {
+  // 1 on the start date; 0 or less before it
+  day: number;
+  daysLeft: number | null;
+  started: boolean;
+  completed: boolean;
+}
+
+export interface ScheduledDose {
+  // Position in the prescription's medicines list
+  medicineIndex: number;
+  medication: Medication;
+  time: string;
+}
+
+// Default clock times for the slots doctors actually write ("morning and night")
+export const TIME_SLOTS: Record<TimeSlot, string> = {
+  morning: '08:00',
+  afternoon: '14:00',
+  evening: '20:00',
+  night: '22:00',
+};
+
+export const FOOD_TIMING_LABELS: Record<FoodTiming, string> = {
+  before_food: 'Before food',
+  with_food: 'With food',
+  after_food: 'After food',
+  any: 'With or without food',
+};
+
+export const DEFAULT_ESCALATION: EscalationRule = {
+  remindAfterMinutes: 30,
+  alertContactsAfterMinutes: 120,
+};
+
+// Insulin and anticoagulants, where a missed dose can't wait for the next check-up
+const CRITICAL_MEDICINE = /\b(insulin|warfarin|acenocoumarol|heparin|enoxaparin|apixaban|rivaroxaban|dabigatran|edoxaban)\b/i;
+
+// The rule a new prescription starts with; the doctor can change or clear it before saving
+export const suggestEscalation = (name: string): EscalationRule | null =>
+  CRITICAL_MEDICINE.test(name) ? { ...DEFAULT_ESCALATION } : null;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Local calendar date, so a dose at 1 AM in India isn't filed under yesterday's UTC date
+export const toDateKey = (date: Date = new Date()) => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Whole days from one YYYY-MM-DD date to another; both parse as UTC midnight, so DST can't skew it
+export const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+
+export const addDays = (dateKey: string, days: number) =>
+  new Date(Date.parse(dateKey) + days * DAY_MS).toISOString().split('T')[0];
+
+export const getCourseProgress = (medication: Medication, date: string = toDateKey()): CourseProgress => {
+  const day = daysBetween(medication.startDate, date) + 1;
+  const { durationDays } = medication;
+  return {
+    day,
+    daysLeft: durationDays === null ? null : Math.max(durationDays - Math.max(day, 1) + 1, 0),
+    started: day >= 1,
+    completed: durationDays !== null && day > durationDays,
+  };
+};
+
+// A medicine can be taken on `date`: its course has started and not yet ended
+export const isMedicationActive = (medication: Medication, date: string = toDateKey()) => {
+  const { started, completed } = getCourseProgress(medication, date);
+  return started && !completed;
+};
+
+// The times a medicine is due on `date`, earliest first
+export const getDoseTimes = (medication: Medication, date: string = toDateKey()) =>
+  medication.asNeeded || !isMedicationActive(medication, date) ? [] : [...medication.times].sort();
+
+// Every scheduled dose across a prescription's medicines on `date`, in time order
+export const getDosesForDate = (medications: Medication[], date: string = toDateKey()): ScheduledDose[] =>
+  medications
+    .flatMap((medication, medicineIndex) =>
+      getDoseTimes(medication, date).map((time) => ({ medicineIndex, medication, time }))
+    )
+    .sort((a, b) => a.time.localeCompare(b.time) || a.medicineIndex - b.medicineIndex);
+
+// A dose marked more than this long after it was due is recorded as late
+export const LATE_AFTER_MINUTES = 60;
+
+// When a dose was due, as a local date and time
+export const scheduledAt = (date: string, time: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(year, month - 1, day, hours, minutes);
+};
+
+// "HH:MM" for a Date, in local time
+export const toTimeKey = (date: Date = new Date()) =>
+  `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+
+// Identifies one dose across the dose log, the outbox and reminders
+export const doseKey = (prescriptionId: string, medicineIndex: number, date: string, time: string) =>
+  `${prescriptionId}:${medicineIndex}:${date}:${time}`;
+
+export const isDoseLate = (date: string, time: string, takenAt: Date) =>
+  takenAt.getTime() - scheduledAt(date, time).getTime() > LATE_AFTER_MINUTES * 60 * 1000;
+
+// Every medicine has run its full course. Open-ended medicines never complete on their own.
+export const isCourseComplete = (medications: Medication[], date: string = toDateKey()) =>
+  medications.length > 0 && medications.every((medication) => getCourseProgress(medication, date).completed);
+
+// "08:00" -> "8:00 AM"
+export const formatDoseTime = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const suffix = hours >= 12 ? 'PM' : 'AM';
+  return `${hours % 12 || 12}:${String(minutes).padStart(2, '0')} ${suffix}`;
+};
+
+export const describeFrequency = (medication: Medication) => {
+  if (medication.asNeeded) return 'As needed';
+  switch (medication.times.length) {
+    case 0:
+      return 'As per instructions';
+    case 1:
+      return 'Once daily';
+    case 2:
+      return 'Twice daily';
+    case 3:
+      return 'Three times daily';
+    default:
+      return `${medication.times.length} times daily`;
+  }
+};
+
+// One line for lists, matching how prescriptions were written before they were structured
+export const formatMedication = (medication: Medication) =>
+  `${medication.name}${medication.strength ? ` ${medication.strength}` : ''} - ${medication.dose}`;
+
+// "Twice daily, after food, for 5 days"
+export const describeSchedule = (medication: Medication) =>
+  [
+    describeFrequency(medication),
+    medication.food === 'any' ? '' : FOOD_TIMING_LABELS[medication.food].toLowerCase(),
+    medication.durationDays === null ? 'until stopped' : `for ${medication.durationDays} days`,
+  ]
+    .filter(Boolean)
+    .join(', ');
+
+const STRENGTH = /(\d+(?:\.\d+)?\s*(?:mg|mcg|g|ml|iu|units?))\b/i;
+const DOSE = /\b((?:\d+(?:\.\d+)?|half|one|two)\s*(?:tablets?|tabs?|capsules?|caps?|pills?|ml|drops?|puffs?|units?))\b/i;
+const AS_NEEDED = /\b(as needed|when needed|if needed|when required|sos|prn)\b/i;
+// Indian shorthand: 1-0-1 is morning and night, 1-1-1 adds afternoon
+const SLOT_PATTERN = /\b([01])-([01])-([01])\b/;
+
+const FREQUENCY_SLOTS: [RegExp, TimeSlot[]][] = [
+  [/\b(four times|qid|qds)\b/i, ['morning', 'afternoon', 'evening', 'night']],
+  [/\b(thrice|three times|tds|tid)\b/i, ['morning', 'afternoon', 'evening']],
+  [/\b(twice|two times|bd|bid)\b/i, ['morning', 'evening']],
+  [/\b(once|one time|od|daily)\b/i, ['morning']],
+];
+
+const NAMED_SLOTS: [RegExp, TimeSlot][] = [
+  [/\bmorning\b/i, 'morning'],
+  [/\b(afternoon|noon|lunch)\b/i, 'afternoon'],
+  [/\b(evening|dinner)\b/i, 'evening'],
+  [/\b(night|bedtime|bed time)\b/i, 'night'],
+];
+
+const FOOD: [RegExp, FoodTiming][] = [
+  [/\b(before (food|meals?|breakfast)|empty stomach)\b/i, 'before_food'],
+  [/\bafter (food|meals?|breakfast)\b/i, 'after_food'],
+  [/\bwith (food|meals?|milk)\b/i, 'with_food'],
+];
+
+const DURATION = /(\d+)\s*(days?|weeks?|months?)\b/i;
+const DURATION_UNIT_DAYS: Record<string, number> = { d: 1, w: 7, m: 30 };
+
+const slotsFrom = (text: string): TimeSlot[] => {
+  const shorthand = text.match(SLOT_PATTERN);
+  if (shorthand) {
+    const [, morning, afternoon, night] = shorthand;
+    return (['morning', 'afternoon', 'night'] as TimeSlot[]).filter((_slot, index) => [morning, afternoon, night][index] === '1');
+  }
+  const named = NAMED_SLOTS.filter(([pattern]) => pattern.test(text)).map(([, slot]) => slot);
+  if (named.length > 0) return named;
+  return FREQUENCY_SLOTS.find(([pattern]) => pattern.test(text))?.[1] ?? [];
+};
+
+/**
+ * Rule-based reading of one written medicine ("Paracetamol 500mg - 1 tablet
+ * twice daily after food for 5 days"). Details missing from the line are
+ * taken from the prescription's shared instructions. Used for prescriptions
+ * saved before medicines were structured, and whenever AI can't be used.
+ */
+export const parseMedicationText = (line: string, instructions: string, startDate: string): Medication => {
+  const text = line.replace(/^prescribed:\s*/i, '').trim();
+  const [namePart, ...rest] = text.split(' - ');
+  const detail = rest.join(' - ');
+  const strength = namePart.match(STRENGTH)?.[1] ?? null;
+  const name = (strength ? namePart.replace(strength, '') : namePart).replace(/\s+/g, ' ').trim();
+
+  const pick = <T>(read: (source: string) => T | null | undefined): T | null =>
+    read(text) ?? read(instructions) ?? null;
+
+  // Shared instructions often mention "SOS" for one medicine only, so only the line itself can make one as-needed
+  const asNeeded = AS_NEEDED.test(text);
+  const slots = slotsFrom(text).length > 0 ? slotsFrom(text) : slotsFrom(instructions);
+  const duration = pick((source) => source.match(DURATION));
+
+  return {
+    name: name || text,
+    strength,
+    dose: detail.match(DOSE)?.[1] ?? text.match(DOSE)?.[1] ?? '1 tablet',
+    times: asNeeded ? [] : (slots.length > 0 ? slots : ['morning' as TimeSlot]).map((slot) => TIME_SLOTS[slot]),
+    food: pick((source) => FOOD.find(([pattern]) => pattern.test(source))?.[1]) ?? 'any',
+    startDate,
+    durationDays: duration ? Number(duration[1]) * DURATION_UNIT_DAYS[duration[2][0].toLowerCase()] : null,
+    asNeeded,
+    // An as-needed dose is never missed
+    escalation: asNeeded ? null : suggestEscalation(name || text),
+  };
+};
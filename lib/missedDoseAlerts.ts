@@ -0,0 +1,125 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SMS from 'expo-sms';
+import { Prescription } from './repositories/prescriptions';
+import { addDays, doseKey, formatDoseTime, getDosesForDate, scheduledAt, toDateKey } from './medicationSchedule';
+
+// One entry in patients.emergency_contacts
+export interface EmergencyContact {
+  id: string;
+  name: string;
+  relationship: string;
+  phone: string;
+  // Chosen by the patient to be texted when a critical dose goes unmarked
+  notifyMissedDoses?: boolean;
+}
+
+export interface MissedDose {
+  key: string;
+  prescriptionId: string;
+  medicineIndex: number;
+  scheduledDate: string;
+  scheduledTime: string;
+  medicineName: string;
+}
+
+export type MissedDoseAlertResult = 'sent' | 'cancelled' | 'no_contacts' | 'unavailable';
+
+// Opening the app after a long gap shouldn't text contacts about doses that no longer matter
+const ALERT_WITHIN_HOURS = 12;
+
+const alertedKey = (patientId: string) => `missedDoseAlerts.${patientId}`;
+
+// doseKey() puts the scheduled date third
+const dateOfKey = (key: string) => key.split(':')[2];
+
+const readAlerted = async (patientId: string): Promise<string[]> => {
+  try {
+    const stored = await AsyncStorage.getItem(alertedKey(patientId));
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error reading missed dose alerts:', error);
+    return [];
+  }
+};
+
+// Remember doses the patient was already asked about, so each is raised only once
+export const markDosesAlerted = async (patientId: string, keys: string[]) => {
+  const yesterday = addDays(toDateKey(), -1);
+  const alerted = (await readAlerted(patientId)).filter((key) => dateOfKey(key) >= yesterday);
+  try {
+    await AsyncStorage.setItem(alertedKey(patientId), JSON.stringify([...new Set([...alerted, ...keys])]));
+  } catch (error) {
+    console.error('Error saving missed dose alerts:', error);
+  }
+};
+
+/**
+ * Doses of escalating medicines that are past their contact window, still
+ * unmarked and not yet raised with the patient. Only recent doses count, so
+ * the window closes again after ALERT_WITHIN_HOURS. Both yesterday's and
+ * today's doses are checked, so `loggedDoseKeys` must cover both days.
+ */
+export const findDosesToAlert = async (
+  patientId: string,
+  prescriptions: Prescription[],
+  loggedDoseKeys: Set<string>,
+  now: Date = new Date()
+): Promise<MissedDose[]> => {
+  const alerted = new Set(await readAlerted(patientId));
+  const today = toDateKey(now);
+  const earliest = now.getTime() - ALERT_WITHIN_HOURS * 60 * 60 * 1000;
+
+  return [addDays(today, -1), today].flatMap((date) =>
+    prescriptions
+      .filter((prescription) => prescription.status === 'active')
+      .flatMap((prescription) =>
+        getDosesForDate(prescription.medicines, date).flatMap(({ medicineIndex, medication, time }): MissedDose[] => {
+          if (!medication.escalation) return [];
+          const alertAt =
+            scheduledAt(date, time).getTime() + medication.escalation.alertContactsAfterMinutes * 60 * 1000;
+          const key = doseKey(prescription.id, medicineIndex, date, time);
+          if (alertAt > now.getTime() || alertAt < earliest || loggedDoseKeys.has(key) || alerted.has(key)) return [];
+          return [
+            {
+              key,
+              prescriptionId: prescription.id,
+              medicineIndex,
+              scheduledDate: date,
+              scheduledTime: time,
+              medicineName: medication.strength ? `${medication.name} ${medication.strength}` : medication.name,
+            },
+          ];
+        })
+      )
+  );
+};
+
+/**
+ * Open a text to the contacts the patient chose for missed-dose alerts.
+ * expo-sms can only prepare the message; the patient still presses send,
+ * the same as the fall-detection distress signal on the profile screen.
+ */
+export const sendMissedDoseAlert = async (
+  patientName: string,
+  doses: MissedDose[],
+  contacts: EmergencyContact[]
+): Promise<MissedDoseAlertResult> => {
+  const recipients = contacts
+    .filter((contact) => contact.notifyMissedDoses && contact.phone && contact.phone.trim() !== '')
+    .map((contact) => contact.phone.trim());
+  if (recipients.length === 0) return 'no_contacts';
+  if (!(await SMS.isAvailableAsync())) return 'unavailable';
+
+  const today = toDateKey();
+  const missed = doses
+    .map(
+      (dose) =>
+        `${dose.medicineName} (due ${dose.scheduledDate === today ? '' : 'yesterday '}${formatDoseTime(dose.scheduledTime)})`
+    )
+    .join(', ');
+  const message = `MISSED MEDICINE: ${patientName} has not taken ${missed}. Please check on them.`;
+
+  // Android always reports "unknown", so only an explicit cancel counts as not sent
+  const { result } = await SMS.sendSMSAsync(recipients, message);
+  return result === 'cancelled' ? 'cancelled' : 'sent';
+};
@@ -0,0 +1,69 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { RepositoryResult } from './repositories/types';
+
+export interface CachedResult<T> {
+  data: T | null;
+  // True when the network fetch failed and the last saved copy was used
+  fromCache: boolean;
+  savedAt: string | null;
+}
+
+interface CacheRecord<T> {
+  savedAt: string;
+  data: T;
+}
+
+// Cached per patient so switching family profiles never shows the wrong person's data
+const cacheKey = (patientId: string, name: string) => `offline.cache.${patientId}.${name}`;
+
+export const readCache = async <T>(patientId: string, name: string): Promise<CacheRecord<T> | null> => {
+  try {
+    const stored = await AsyncStorage.getItem(cacheKey(patientId, name));
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('Error reading offline cache:', error);
+    return null;
+  }
+};
+
+export const writeCache = async <T>(patientId: string, name: string, data: T) => {
+  try {
+    const record: CacheRecord<T> = { savedAt: new Date().toISOString(), data };
+    await AsyncStorage.setItem(cacheKey(patientId, name), JSON.stringify(record));
+  } catch (error) {
+    console.error('Error writing offline cache:', error);
+  }
+};
+
+/**
+ * Fetch fresh data and keep a copy on the device; when the fetch fails
+ * (usually because the patient is offline) fall back to that copy.
+ * `revive` restores values JSON can't carry, such as Dates.
+ */
+export const fetchWithCache = async <T>(
+  patientId: string,
+  name: string,
+  fetcher: () => Promise<RepositoryResult<T>>,
+  revive: (data: T) => T = (data) => data
+): Promise<CachedResult<T>> => {
+  const { data, error } = await fetcher();
+  if (!error) {
+    await writeCache(patientId, name, data);
+    return { data, fromCache: false, savedAt: null };
+  }
+
+  const cached = await readCache<T>(patientId, name);
+  return cached
+    ? { data: revive(cached.data), fromCache: true, savedAt: cached.savedAt }
+    : { data: null, fromCache: false, savedAt: null };
+};
+
+// Called on sign-out so cached health data does not outlive the session
+export const clearOfflineCache = async () => {
+  try {
+    const keys = await AsyncStorage.getAllKeys();
+    await AsyncStorage.multiRemove(keys.filter((key) => key.startsWith('offline.cache.')));
+  } catch (error) {
+    console.error('Error clearing offline cache:', error);
+  }
+};
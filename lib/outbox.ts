@@ -0,0 +1,124 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import type { CaregiverAction } from './caregivers';
+import { NewAppointmentRequest, createAppointmentRequest } from './repositories/appointmentRequests';
+import { NewHealthReading, createHealthReading } from './repositories/healthReadings';
+import { isDoseLate } from './medicationSchedule';
+import { NewDoseLog, recordDose } from './repositories/doseLogs';
+import { RepositoryError, RepositoryResult } from './repositories/types';
+
+// Writes a patient can make while offline. Payloads are stored as JSON, so
+// dates travel as ISO strings.
+export type OutboxAction =
+  | { type: 'health_reading'; reading: Omit<NewHealthReading, 'timestamp' | 'idempotencyKey'> & { timestamp: string } }
+  | { type: 'dose_logged'; dose: Omit<NewDoseLog, 'takenAt'> & { takenAt: string | null } }
+  | { type: 'appointment_request'; request: Omit<NewAppointmentRequest, 'idempotencyKey'> };
+
+export interface OutboxEntry {
+  // Doubles as the idempotency key sent with every attempt
+  id: string;
+  patientId: string;
+  action: OutboxAction;
+  // Logged once the write lands, when it was made on a dependent's behalf
+  caregiverAction?: CaregiverAction;
+  createdAt: string;
+  attempts: number;
+  lastError?: string;
+}
+
+export const caregiverActionFor = (action: OutboxAction): CaregiverAction => {
+  switch (action.type) {
+    case 'health_reading':
+      return 'reading_added';
+    case 'dose_logged':
+      return action.dose.status === 'skipped' ? 'medicine_skipped' : 'medicine_taken';
+    case 'appointment_request':
+      return 'appointment_requested';
+  }
+};
+
+/**
+ * The write for marking one scheduled dose, shared by the Today screen and
+ * reminder actions. A dose marked well after it was due is recorded as late.
+ */
+export const doseLoggedAction = (
+  dose: Omit<NewDoseLog, 'status' | 'takenAt'>,
+  outcome: 'taken' | 'skipped',
+  now: Date = new Date()
+): OutboxAction => {
+  const status =
+    outcome === 'skipped' ? 'skipped' : isDoseLate(dose.scheduledDate, dose.scheduledTime, now) ? 'late' : 'taken';
+  return {
+    type: 'dose_logged',
+    dose: { ...dose, status, takenAt: status === 'skipped' ? null : now.toISOString() },
+  };
+};
+
+// Entries that keep failing on the server (not the network) are dropped after this
+export const MAX_OUTBOX_ATTEMPTS = 5;
+
+// Per account, so a second person signing in on the device never replays someone else's writes
+const outboxKey = (accountId: string) => `offline.outbox.${accountId}`;
+
+export const createOutboxEntry = (
+  patientId: string,
+  action: OutboxAction,
+  caregiverAction?: CaregiverAction
+): OutboxEntry => ({
+  id: Crypto.randomUUID(),
+  patientId,
+  action,
+  caregiverAction,
+  createdAt: new Date().toISOString(),
+  attempts: 0,
+});
+
+export const loadOutbox = async (accountId: string): Promise<OutboxEntry[]> => {
+  try {
+    const stored = await AsyncStorage.getItem(outboxKey(accountId));
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error loading outbox:', error);
+    return [];
+  }
+};
+
+export const saveOutbox = async (accountId: string, entries: OutboxEntry[]) => {
+  try {
+    if (entries.length === 0) {
+      await AsyncStorage.removeItem(outboxKey(accountId));
+    } else {
+      await AsyncStorage.setItem(outboxKey(accountId), JSON.stringify(entries));
+    }
+  } catch (error) {
+    console.error('Error saving outbox:', error);
+  }
+};
+
+/**
+ * supabase-js reports a dropped connection as an error without a Postgres
+ * code; anything with a code was rejected by the server and won't succeed on retry.
+ */
+export const isNetworkError = (error: RepositoryError) =>
+  !error.code && /network|fetch|timed? ?out/i.test(error.message);
+
+// Perform a queued write. Resolves with the id of the row it created or updated.
+export const runOutboxEntry = async (entry: OutboxEntry): Promise<RepositoryResult<{ id?: string }>> => {
+  const { action } = entry;
+  switch (action.type) {
+    case 'health_reading':
+      return createHealthReading({
+        ...action.reading,
+        timestamp: new Date(action.reading.timestamp),
+        idempotencyKey: entry.id,
+      });
+    case 'appointment_request':
+      return createAppointmentRequest({ ...action.request, idempotencyKey: entry.id });
+    case 'dose_logged':
+      // One entry per scheduled dose, so replays update it in place
+      return recordDose({
+        ...action.dose,
+        takenAt: action.dose.takenAt ? new Date(action.dose.takenAt) : null,
+      });
+  }
+};
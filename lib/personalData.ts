@@ -0,0 +1,251 @@
+import * as FileSystem from 'expo-file-system';
+import * as Print from 'expo-print';
+import { supabase } from './supabase';
+import { AccountDeletionRequestRow } from './repositories/types';
+
+// Days between a deletion request and the purge, during which it can be cancelled
+export const DELETION_GRACE_DAYS = 30;
+
+export type DeletionStatus = 'pending' | 'cancelled' | 'completed';
+
+export interface DeletionRequest {
+  id: string;
+  status: DeletionStatus;
+  reason: string;
+  requestedAt: string;
+  scheduledFor: string;
+}
+
+// Everything we hold about one patient, as exported under the DPDP right to data portability
+export interface PersonalDataArchive {
+  exportedAt: string;
+  user: Record<string, any> | null;
+  patient: Record<string, any> | null;
+  healthReadings: Record<string, any>[];
+  prescriptions: Record<string, any>[];
+  doseLogs: Record<string, any>[];
+  appointments: Record<string, any>[];
+  appointmentRequests: Record<string, any>[];
+  chatbotMessages: Record<string, any>[];
+  sosAlerts: Record<string, any>[];
+  reports: Record<string, any>[];
+}
+
+export interface PersonalDataExport {
+  jsonUri: string;
+  pdfUri: string;
+}
+
+const unwrap = <T>(label: string, result: { data: T | null; error: { message: string } | null }): T | null => {
+  if (result.error) {
+    throw new Error(`Failed to export ${label}: ${result.error.message}`);
+  }
+  return result.data;
+};
+
+// PostgREST returns at most this many rows per request, and years of readings or doses are more
+const PAGE_SIZE = 1000;
+
+/**
+ * Every row of a table belonging to the user, read a page at a time so a
+ * long history is never cut short. Ordered by `id` after `orderColumn` so the
+ * pages don't overlap; any failed page fails the whole export.
+ */
+const fetchEveryRow = async (
+  label: string,
+  table: string,
+  ownerColumn: string,
+  ownerId: string,
+  orderColumn: string
+): Promise<Record<string, any>[]> => {
+  const rows: Record<string, any>[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const page =
+      unwrap(
+        label,
+        await supabase
+          .from(table)
+          .select('*')
+          .eq(ownerColumn, ownerId)
+          .order(orderColumn, { ascending: true })
+          .order('id', { ascending: true })
+          .range(from, from + PAGE_SIZE - 1)
+      ) || [];
+    rows.push(...page);
+    if (page.length < PAGE_SIZE) return rows;
+  }
+};
+
+export const collectPersonalData = async (patientId: string): Promise<PersonalDataArchive> => {
+  const [
+    userResult,
+    patientResult,
+    healthReadings,
+    prescriptions,
+    doseLogs,
+    appointments,
+    appointmentRequests,
+    chatbotMessages,
+    sosAlerts,
+    reports,
+  ] = await Promise.all([
+    supabase.from('users').select('*').eq('id', patientId).maybeSingle(),
+    supabase.from('patients').select('*').eq('id', patientId).maybeSingle(),
+    fetchEveryRow('health readings', 'health_readings', 'patient_id', patientId, 'timestamp'),
+    fetchEveryRow('prescriptions', 'prescriptions', 'patient_id', patientId, 'created_at'),
+    fetchEveryRow('dose history', 'dose_logs', 'patient_id', patientId, 'scheduled_date'),
+    fetchEveryRow('appointments', 'appointments', 'patient_id', patientId, 'appointment_date'),
+    fetchEveryRow('appointment requests', 'appointment_requests', 'patient_id', patientId, 'created_at'),
+    fetchEveryRow('assistant conversations', 'chatbot_messages', 'user_id', patientId, 'created_at'),
+    fetchEveryRow('SOS alerts', 'sos_alerts', 'user_id', patientId, 'alert_time'),
+    fetchEveryRow('reports', 'reports', 'patient_id', patientId, 'upload_date'),
+  ]);
+
+  return {
+    exportedAt: new Date().toISOString(),
+    user: unwrap('profile', userResult),
+    patient: unwrap('medical profile', patientResult),
+    healthReadings,
+    prescriptions,
+    doseLogs,
+    appointments,
+    appointmentRequests,
+    chatbotMessages,
+    sosAlerts,
+    reports,
+  };
+};
+
+const escapeHtml = (value: unknown) =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+
+const formatCell = (value: unknown) =>
+  escapeHtml(value !== null && typeof value === 'object' ? JSON.stringify(value) : value);
+
+// One table per dataset; columns are taken from the rows so new fields show up automatically
+const renderTable = (title: string, rows: Record<string, any>[]) => {
+  if (rows.length === 0) {
+    return `<h2>${title}</h2><p class="empty">No records</p>`;
+  }
+
+  const columns = Object.keys(rows[0]);
+  const header = columns.map((column) => `<th>${escapeHtml(column)}</th>`).join('');
+  const body = rows
+    .map((row) => `<tr>${columns.map((column) => `<td>${formatCell(row[column])}</td>`).join('')}</tr>`)
+    .join('');
+  return `<h2>${title} (${rows.length})</h2><table><thead><tr>${header}</tr></thead><tbody>${body}</tbody></table>`;
+};
+
+export const buildPersonalDataHtml = (archive: PersonalDataArchive) => `
+  <html>
+    <head>
+      <meta charset="utf-8" />
+      <style>
+        body { font-family: -apple-system, Roboto, sans-serif; color: #1F2937; padding: 24px; }
+        h1 { color: #5603BD; margin-bottom: 4px; }
+        h2 { font-size: 16px; margin-top: 28px; border-bottom: 1px solid #E5E7EB; padding-bottom: 4px; }
+        table { width: 100%; border-collapse: collapse; font-size: 9px; }
+        th, td { border: 1px solid #E5E7EB; padding: 4px; text-align: left; vertical-align: top; word-break: break-word; }
+        th { background: #F3F4F6; }
+        .meta, .empty { color: #6B7280; font-size: 12px; }
+      </style>
+    </head>
+    <body>
+      <h1>JeevanSetu – Personal Data Export</h1>
+      <p class="meta">Prepared for ${escapeHtml(archive.user?.name)} on ${new Date(archive.exportedAt).toLocaleString()}</p>
+      ${renderTable('Account', archive.user ? [archive.user] : [])}
+      ${renderTable('Medical Profile', archive.patient ? [archive.patient] : [])}
+      ${renderTable('Health Readings', archive.healthReadings)}
+      ${renderTable('Prescriptions', archive.prescriptions)}
+      ${renderTable('Dose History', archive.doseLogs)}
+      ${renderTable('Appointments', archive.appointments)}
+      ${renderTable('Appointment Requests', archive.appointmentRequests)}
+      ${renderTable('Assistant Conversations', archive.chatbotMessages)}
+      ${renderTable('SOS Alerts', archive.sosAlerts)}
+      ${renderTable('Reports', archive.reports)}
+    </body>
+  </html>
+`;
+
+/**
+ * Write the archive to disk twice: a JSON file for portability to another
+ * provider and a PDF the patient can read. Returns both local file URIs.
+ */
+export const exportPersonalData = async (patientId: string): Promise<PersonalDataExport> => {
+  const archive = await collectPersonalData(patientId);
+  const stamp = archive.exportedAt.slice(0, 10);
+
+  const jsonUri = `${FileSystem.documentDirectory}jeevansetu-data-${stamp}.json`;
+  await FileSystem.writeAsStringAsync(jsonUri, JSON.stringify(archive, null, 2));
+
+  const { uri: printedUri } = await Print.printToFileAsync({ html: buildPersonalDataHtml(archive) });
+  const pdfUri = `${FileSystem.documentDirectory}jeevansetu-data-${stamp}.pdf`;
+  await FileSystem.deleteAsync(pdfUri, { idempotent: true });
+  await FileSystem.moveAsync({ from: printedUri, to: pdfUri });
+
+  return { jsonUri, pdfUri };
+};
+
+const mapDeletionRequest = (row: AccountDeletionRequestRow): DeletionRequest => ({
+  id: row.id,
+  status: row.status,
+  reason: row.reason || '',
+  requestedAt: row.requested_at,
+  scheduledFor: row.scheduled_for,
+});
+
+export const fetchDeletionRequest = async (userId: string): Promise<DeletionRequest | null> => {
+  const { data, error } = await supabase
+    .from('account_deletion_requests')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('status', 'pending')
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching deletion request:', error);
+    return null;
+  }
+  return data ? mapDeletionRequest(data) : null;
+};
+
+/**
+ * Schedule the account (and any family profiles under it) for deletion. The
+ * `process-account-deletions` function purges it once the grace period ends.
+ */
+export const requestAccountDeletion = async (userId: string, reason: string): Promise<DeletionRequest> => {
+  const requestedAt = new Date();
+  const scheduledFor = new Date(requestedAt.getTime() + DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000);
+
+  const { data, error } = await supabase
+    .from('account_deletion_requests')
+    .insert({
+      user_id: userId,
+      reason,
+      status: 'pending',
+      requested_at: requestedAt.toISOString(),
+      scheduled_for: scheduledFor.toISOString(),
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to request account deletion: ${error.message}`);
+  }
+  return mapDeletionRequest(data);
+};
+
+export const cancelAccountDeletion = async (requestId: string) => {
+  const { error } = await supabase
+    .from('account_deletion_requests')
+    .update({ status: 'cancelled', cancelled_at: new Date().toISOString() })
+    .eq('id', requestId)
+    .eq('status', 'pending');
+
+  if (error) {
+    throw new Error(`Failed to cancel account deletion: ${error.message}`);
+  }
+};
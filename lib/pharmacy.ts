@@ -0,0 +1,209 @@
+import { supabase } from './supabase';
+import { PharmacyInventoryRow, PharmacyOrderRow, UserRow, single } from './repositories/types';
+
+export type OrderStatus = 'pending' | 'accepted' | 'ready' | 'completed' | 'rejected';
+
+export interface OrderItem {
+  name: string;
+  quantity: number;
+}
+
+export interface PharmacyOrder {
+  id: string;
+  patientName: string;
+  patientPhone: string;
+  prescriptionId: string | null;
+  items: OrderItem[];
+  totalAmount: number | null;
+  status: OrderStatus;
+  notes: string;
+  createdAt: string;
+}
+
+export interface InventoryItem {
+  id: string;
+  medicineName: string;
+  strength: string;
+  stock: number;
+  price: number;
+  lowStockThreshold: number;
+}
+
+export interface PharmacyDetails {
+  storeName: string;
+  licenseNo: string;
+  address: string;
+  openHours: string;
+  isOpen: boolean;
+}
+
+// Statuses an order can move to from its current status
+export const NEXT_ORDER_STATUSES: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['accepted', 'rejected'],
+  accepted: ['ready', 'rejected'],
+  ready: ['completed'],
+  completed: [],
+  rejected: [],
+};
+
+export const ORDER_STATUS_COLORS: Record<OrderStatus, string> = {
+  pending: '#F59E0B',
+  accepted: '#2563EB',
+  ready: '#8B5CF6',
+  completed: '#10B981',
+  rejected: '#EF4444',
+};
+
+type OrderWithPatient = PharmacyOrderRow & {
+  patient: Pick<UserRow, 'name' | 'phone'> | Pick<UserRow, 'name' | 'phone'>[] | null;
+};
+
+export const isLowStock = (item: InventoryItem) => item.stock <= item.lowStockThreshold;
+
+export const fetchPharmacyDetails = async (pharmacyId: string): Promise<PharmacyDetails | null> => {
+  const { data, error } = await supabase
+    .from('pharmacies')
+    .select('*')
+    .eq('id', pharmacyId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching pharmacy details:', error);
+    return null;
+  }
+  if (!data) return null;
+
+  return {
+    storeName: data.store_name || '',
+    licenseNo: data.license_no || '',
+    address: data.address || '',
+    openHours: data.open_hours || '',
+    isOpen: data.is_open ?? true,
+  };
+};
+
+export const updatePharmacyDetails = async (pharmacyId: string, details: PharmacyDetails) => {
+  const { error } = await supabase
+    .from('pharmacies')
+    .upsert({
+      id: pharmacyId,
+      store_name: details.storeName,
+      license_no: details.licenseNo,
+      address: details.address,
+      open_hours: details.openHours,
+      is_open: details.isOpen,
+      updated_at: new Date().toISOString(),
+    }, {
+      onConflict: 'id'
+    });
+
+  if (error) {
+    throw new Error(`Failed to save pharmacy details: ${error.message}`);
+  }
+};
+
+export const fetchPharmacyOrders = async (pharmacyId: string, statuses?: OrderStatus[]): Promise<PharmacyOrder[]> => {
+  let query = supabase
+    .from('pharmacy_orders')
+    .select(`
+      *,
+      patient:patient_id ( name, phone )
+    `)
+    .eq('pharmacy_id', pharmacyId)
+    .order('created_at', { ascending: false });
+
+  if (statuses && statuses.length > 0) {
+    query = query.in('status', statuses);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    console.error('Error fetching pharmacy orders:', error);
+    return [];
+  }
+
+  return (data || []).map((order: OrderWithPatient) => ({
+    id: order.id,
+    patientName: single(order.patient)?.name || 'Unknown Patient',
+    patientPhone: single(order.patient)?.phone || '',
+    prescriptionId: order.prescription_id,
+    items: Array.isArray(order.items) ? order.items : [],
+    totalAmount: order.total_amount,
+    status: order.status,
+    notes: order.notes || '',
+    createdAt: order.created_at,
+  }));
+};
+
+export const updateOrderStatus = async (orderId: string, status: OrderStatus) => {
+  const { error } = await supabase
+    .from('pharmacy_orders')
+    .update({ status, updated_at: new Date().toISOString() })
+    .eq('id', orderId);
+
+  if (error) {
+    throw new Error(`Failed to update order: ${error.message}`);
+  }
+};
+
+export const fetchInventory = async (pharmacyId: string): Promise<InventoryItem[]> => {
+  const { data, error } = await supabase
+    .from('pharmacy_inventory')
+    .select('*')
+    .eq('pharmacy_id', pharmacyId)
+    .order('medicine_name', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching inventory:', error);
+    return [];
+  }
+
+  return (data || []).map((item: PharmacyInventoryRow) => ({
+    id: item.id,
+    medicineName: item.medicine_name,
+    strength: item.strength || '',
+    stock: item.stock,
+    price: Number(item.price) || 0,
+    lowStockThreshold: item.low_stock_threshold,
+  }));
+};
+
+export const addInventoryItem = async (
+  pharmacyId: string,
+  item: Omit<InventoryItem, 'id'>
+) => {
+  const { error } = await supabase.from('pharmacy_inventory').insert({
+    pharmacy_id: pharmacyId,
+    medicine_name: item.medicineName,
+    strength: item.strength,
+    stock: item.stock,
+    price: item.price,
+    low_stock_threshold: item.lowStockThreshold,
+  });
+
+  if (error) {
+    throw new Error(`Failed to add medicine: ${error.message}`);
+  }
+};
+
+export const updateInventoryStock = async (itemId: string, stock: number) => {
+  const { error } = await supabase
+    .from('pharmacy_inventory')
+    .update({ stock: Math.max(0, stock), updated_at: new Date().toISOString() })
+    .eq('id', itemId);
+
+  if (error) {
+    throw new Error(`Failed to update stock: ${error.message}`);
+  }
+};
+
+export const deleteInventoryItem = async (itemId: string) => {
+  const { error } = await supabase
+    .from('pharmacy_inventory')
+    .delete()
+    .eq('id', itemId);
+
+  if (error) {
+    throw new Error(`Failed to remove medicine: ${error.message}`);
+  }
+};
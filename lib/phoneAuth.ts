@@ -0,0 +1,205 @@
+import { AuthApiError, User as SupabaseUser } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+
+// Mirror the Supabase Auth SMS settings (sms.max_frequency / sms.otp_exp)
+export const OTP_RESEND_COOLDOWN_SECONDS = 60;
+export const OTP_EXPIRY_SECONDS = 600;
+export const OTP_MAX_SENDS = 5;
+export const OTP_LENGTH = 6;
+
+export interface OtpRequestState {
+  phone: string;
+  sentAt: number;
+  expiresAt: number;
+  sendCount: number;
+}
+
+/**
+ * Normalise a mobile number to E.164. Bare 10-digit numbers are treated as
+ * Indian mobiles (+91). Returns null when the input cannot be a valid number.
+ */
+export const normalizePhoneNumber = (input: string): string | null => {
+  const trimmed = input.trim();
+  const digits = trimmed.replace(/\D/g, '');
+
+  if (trimmed.startsWith('+')) {
+    return digits.length >= 10 && digits.length <= 15 ? `+${digits}` : null;
+  }
+  if (digits.length === 10 && /^[6-9]/.test(digits)) {
+    return `+91${digits}`;
+  }
+  if (digits.length === 12 && digits.startsWith('91')) {
+    return `+${digits}`;
+  }
+  if (digits.length === 11 && digits.startsWith('0')) {
+    return `+91${digits.slice(1)}`;
+  }
+  return null;
+};
+
+export const createOtpRequest = (phone: string, now: number = Date.now()): OtpRequestState => ({
+  phone,
+  sentAt: now,
+  expiresAt: now + OTP_EXPIRY_SECONDS * 1000,
+  sendCount: 1,
+});
+
+// Seconds the user still has to wait before another code can be requested
+export const getResendWaitSeconds = (state: OtpRequestState | null, now: number = Date.now()): number => {
+  if (!state) return 0;
+  const elapsed = Math.floor((now - state.sentAt) / 1000);
+  return Math.max(0, OTP_RESEND_COOLDOWN_SECONDS - elapsed);
+};
+
+export const isOtpExpired = (state: OtpRequestState | null, now: number = Date.now()): boolean => {
+  return !state || now >= state.expiresAt;
+};
+
+/**
+ * Work out the request state for sending a code to `phone`. Throws when the
+ * resend cooldown is still running or the per-number send limit is reached.
+ */
+export const nextOtpRequest = (
+  previous: OtpRequestState | null,
+  phone: string,
+  now: number = Date.now()
+): OtpRequestState => {
+  if (!previous || previous.phone !== phone) {
+    return createOtpRequest(phone, now);
+  }
+
+  const wait = getResendWaitSeconds(previous, now);
+  if (wait > 0) {
+    throw new Error(`Please wait ${wait} seconds before requesting a new code.`);
+  }
+  if (previous.sendCount >= OTP_MAX_SENDS) {
+    throw new Error('Too many codes requested for this number. Please try again later.');
+  }
+
+  return {
+    phone,
+    sentAt: now,
+    expiresAt: now + OTP_EXPIRY_SECONDS * 1000,
+    sendCount: previous.sendCount + 1,
+  };
+};
+
+// Translate Supabase Auth OTP errors into messages a patient can act on
+export const getOtpErrorMessage = (message: string): string => {
+  if (/expired/i.test(message)) {
+    return 'This code has expired. Please request a new one.';
+  }
+  if (/invalid/i.test(message) || /token/i.test(message)) {
+    return 'Incorrect code. Please check the SMS and try again.';
+  }
+  const waitMatch = message.match(/after (\d+) seconds/i);
+  if (waitMatch) {
+    return `Please wait ${waitMatch[1]} seconds before requesting a new code.`;
+  }
+  if (/rate limit/i.test(message)) {
+    return 'Too many attempts. Please try again in a few minutes.';
+  }
+  return message;
+};
+
+/**
+ * The subset of Supabase Auth used for phone sign-in. Swap it out with
+ * setPhoneAuthClient to run the OTP screens against a local stand-in: the
+ * in-memory createLocalPhoneAuthClient below, or a Supabase CLI stack with
+ * `[auth.sms.test_otp]` numbers configured.
+ */
+export interface PhoneAuthClient {
+  signInWithOtp: typeof supabase.auth.signInWithOtp;
+  verifyOtp: typeof supabase.auth.verifyOtp;
+}
+
+let phoneAuthClient: PhoneAuthClient = supabase.auth;
+
+export const getPhoneAuthClient = () => phoneAuthClient;
+
+export const setPhoneAuthClient = (client: PhoneAuthClient) => {
+  phoneAuthClient = client;
+};
+
+export interface LocalPhoneAuthOptions {
+  // Number (E.164) -> the code it always receives, like `[auth.sms.test_otp]` in supabase/config.toml
+  testOtps: Record<string, string>;
+  // Numbers that already have an account, so a sign-in (shouldCreateUser: false) finds them
+  existingPhones?: string[];
+  now?: () => number;
+}
+
+/**
+ * An in-memory PhoneAuthClient that sends no SMS. It applies the same resend
+ * cooldown and code expiry as Supabase Auth and answers with the same errors,
+ * so the OTP screens and their tests can run with no project at all.
+ */
+export const createLocalPhoneAuthClient = ({
+  testOtps,
+  existingPhones = [],
+  now = Date.now,
+}: LocalPhoneAuthOptions): PhoneAuthClient => {
+  const accounts = new Set(existingPhones);
+  // When the current code for each number was sent
+  const sentAt = new Map<string, number>();
+
+  const fail = (message: string, status: number, code: string) => ({
+    data: { user: null, session: null },
+    error: new AuthApiError(message, status, code),
+  });
+
+  return {
+    signInWithOtp: async (credentials) => {
+      if (!('phone' in credentials) || !testOtps[credentials.phone]) {
+        return fail('Error sending confirmation OTP to provider', 500, 'sms_send_failed');
+      }
+      const { phone, options } = credentials;
+      if (options?.shouldCreateUser === false && !accounts.has(phone)) {
+        return fail('Signups not allowed for otp', 422, 'otp_disabled');
+      }
+
+      const lastSent = sentAt.get(phone);
+      if (lastSent !== undefined) {
+        const wait = OTP_RESEND_COOLDOWN_SECONDS - Math.floor((now() - lastSent) / 1000);
+        if (wait > 0) {
+          return fail(`For security purposes, you can only request this after ${wait} seconds.`, 429, 'over_sms_send_rate_limit');
+        }
+      }
+
+      sentAt.set(phone, now());
+      return { data: { user: null, session: null }, error: null };
+    },
+
+    verifyOtp: async (params) => {
+      if (!('phone' in params)) {
+        return fail('Only phone codes are supported here', 400, 'validation_failed');
+      }
+      const { phone, token } = params;
+      const sent = sentAt.get(phone);
+      if (sent === undefined || now() >= sent + OTP_EXPIRY_SECONDS * 1000) {
+        return fail('Token has expired', 403, 'otp_expired');
+      }
+      if (token !== testOtps[phone]) {
+        return fail('Invalid token', 403, 'otp_invalid');
+      }
+
+      // A code can only be used once
+      sentAt.delete(phone);
+      accounts.add(phone);
+      const timestamp = new Date(now()).toISOString();
+      const user: SupabaseUser = {
+        // Stable per number, so signing in again resolves to the same account
+        id: `00000000-0000-4000-8000-${phone.replace(/\D/g, '').slice(-12).padStart(12, '0')}`,
+        aud: 'authenticated',
+        role: 'authenticated',
+        phone,
+        app_metadata: { provider: 'phone', providers: ['phone'] },
+        user_metadata: {},
+        created_at: timestamp,
+        phone_confirmed_at: timestamp,
+        last_sign_in_at: timestamp,
+      };
+      return { data: { user, session: null }, error: null };
+    },
+  };
+};
@@ -0,0 +1,64 @@
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { AppointmentRequestRow, AppointmentRow } from './repositories/types';
+
+export type AppointmentChange =
+  | { table: 'appointment_requests'; payload: RealtimePostgresChangesPayload<AppointmentRequestRow> }
+  | { table: 'appointments'; payload: RealtimePostgresChangesPayload<AppointmentRow> };
+
+// Whose rows to watch: a patient's own, or everything addressed to a doctor
+export type AppointmentScope = { column: 'patient_id' | 'doctor_id'; id: string };
+
+/**
+ * Listen for inserts, updates and deletes on appointment requests and
+ * appointments for one patient or doctor. Both tables must be in the
+ * supabase_realtime publication; RLS still decides which rows are delivered.
+ * Returns a function that closes the subscription.
+ */
+export const subscribeToAppointmentChanges = (
+  { column, id }: AppointmentScope,
+  onChange: (change: AppointmentChange) => void
+) => {
+  const filter = `${column}=eq.${id}`;
+  const channel = supabase
+    .channel(`appointments:${column}:${id}`)
+    .on<AppointmentRequestRow>(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'appointment_requests', filter },
+      (payload) => onChange({ table: 'appointment_requests', payload })
+    )
+    .on<AppointmentRow>(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'appointments', filter },
+      (payload) => onChange({ table: 'appointments', payload })
+    )
+    .subscribe((status, error) => {
+      if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+        console.error('Appointment subscription failed:', status, error);
+      }
+    });
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
+
+// Listen for a patient's prescriptions being added, changed or stopped
+export const subscribeToPrescriptionChanges = (patientId: string, onChange: () => void) => {
+  const channel = supabase
+    .channel(`prescriptions:${patientId}`)
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'prescriptions', filter: `patient_id=eq.${patientId}` },
+      () => onChange()
+    )
+    .subscribe((status, error) => {
+      if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+        console.error('Prescription subscription failed:', status, error);
+      }
+    });
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
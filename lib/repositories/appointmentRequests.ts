@@ -0,0 +1,148 @@
+import { supabase } from '../supabase';
+import {
+  AppointmentRequestRow,
+  AppointmentRequestStatus,
+  AppointmentType,
+  Priority,
+  RepositoryResult,
+  single,
+  toEmptyResult,
+  toResult,
+} from './types';
+
+export interface AppointmentRequest {
+  id: string;
+  patient_id: string;
+  patient_name: string;
+  doctor_name: string;
+  doctor_specialty: string;
+  requested_time: string;
+  appointment_type: AppointmentType;
+  priority: Priority;
+  symptoms: string;
+  status: AppointmentRequestStatus;
+  consultation_fee: number;
+  notes: string;
+  created_at: string;
+}
+
+export interface NewAppointmentRequest {
+  patientId: string;
+  patientName: string;
+  doctorId: string;
+  requestedTime: string;
+  appointmentType: AppointmentType;
+  priority: Priority;
+  symptoms: string;
+  notes: string;
+  // Set for writes that may be replayed from the offline outbox
+  idempotencyKey?: string;
+}
+
+type AppointmentRequestWithDoctor = AppointmentRequestRow & {
+  doctor: { name: string; doctors: { specialty: string | null } | { specialty: string | null }[] | null } | null;
+};
+
+const APPOINTMENT_REQUEST_SELECT = `
+  *,
+  doctor:doctor_id (
+    name,
+    doctors (
+      specialty
+    )
+  )
+`;
+
+const mapAppointmentRequest = (row: AppointmentRequestWithDoctor): AppointmentRequest => ({
+  id: row.id,
+  patient_id: row.patient_id ?? '',
+  patient_name: row.patient_name,
+  doctor_name: row.doctor?.name || 'Unknown Doctor',
+  doctor_specialty: single(row.doctor?.doctors)?.specialty || 'General Medicine',
+  requested_time: row.requested_time,
+  appointment_type: row.appointment_type || 'in-person',
+  priority: row.priority || 'medium',
+  symptoms: row.symptoms || '',
+  status: row.status || 'pending',
+  consultation_fee: row.consultation_fee || 0,
+  notes: row.notes || '',
+  created_at: row.created_at || '',
+});
+
+export const fetchPatientAppointmentRequests = async (
+  patientId: string,
+  status: AppointmentRequestStatus = 'pending'
+): Promise<RepositoryResult<AppointmentRequest[]>> =>
+  toResult(
+    'fetching appointment requests',
+    await supabase
+      .from('appointment_requests')
+      .select(APPOINTMENT_REQUEST_SELECT)
+      .eq('patient_id', patientId)
+      .eq('status', status)
+      .order('created_at', { ascending: false }),
+    (rows: AppointmentRequestWithDoctor[]) => rows.map(mapAppointmentRequest)
+  );
+
+export const fetchDoctorAppointmentRequests = async (
+  doctorId: string,
+  status: AppointmentRequestStatus = 'pending'
+): Promise<RepositoryResult<AppointmentRequest[]>> =>
+  toResult(
+    'fetching appointment requests',
+    await supabase
+      .from('appointment_requests')
+      .select(APPOINTMENT_REQUEST_SELECT)
+      .eq('doctor_id', doctorId)
+      .eq('status', status)
+      .order('created_at', { ascending: false }),
+    (rows: AppointmentRequestWithDoctor[]) => rows.map(mapAppointmentRequest)
+  );
+
+export const createAppointmentRequest = async (
+  request: NewAppointmentRequest
+): Promise<RepositoryResult<{ id: string }>> => {
+  const row = {
+    patient_id: request.patientId,
+    doctor_id: request.doctorId,
+    patient_name: request.patientName,
+    requested_time: request.requestedTime,
+    appointment_type: request.appointmentType,
+    priority: request.priority,
+    symptoms: request.symptoms,
+    notes: request.notes,
+    status: 'pending',
+    consultation_fee: 0,
+    idempotency_key: request.idempotencyKey,
+  };
+  const query = request.idempotencyKey
+    ? supabase.from('appointment_requests').upsert(row, { onConflict: 'idempotency_key' })
+    : supabase.from('appointment_requests').insert(row);
+
+  return toResult('creating appointment request', await query.select('id').single(), (saved: { id: string }) => saved);
+};
+
+export const updateAppointmentRequestStatus = async (
+  requestId: string,
+  status: AppointmentRequestStatus
+): Promise<RepositoryResult<null>> =>
+  toEmptyResult(
+    'updating appointment request',
+    await supabase
+      .from('appointment_requests')
+      .update({ status, updated_at: new Date().toISOString() })
+      .eq('id', requestId)
+  );
+
+// Accept a request, recording the time the doctor settled on
+export const confirmAppointmentRequest = async (
+  requestId: string,
+  requestedTime: string
+): Promise<RepositoryResult<null>> =>
+  toEmptyResult(
+    'confirming appointment request',
+    await supabase
+      .from('appointment_requests')
+      .update({ status: 'confirmed', requested_time: requestedTime, updated_at: new Date().toISOString() })
+      .eq('id', requestId)
+  );
@@ -0,0 +1,131 @@
+import { supabase } from '../supabase';
+import {
+  AppointmentRow,
+  AppointmentStatus,
+  AppointmentType,
+  Priority,
+  RepositoryResult,
+  single,
+  toEmptyResult,
+  toResult,
+} from './types';
+
+export interface ConfirmedAppointment {
+  id: string;
+  patient_id: string;
+  patient_name: string;
+  doctor_name: string;
+  doctor_specialty: string;
+  appointment_date: string;
+  appointment_type: AppointmentType;
+  priority: Priority;
+  type: string;
+  status: AppointmentStatus;
+  symptoms: string;
+  notes: string;
+}
+
+export interface NewAppointment {
+  patientId: string;
+  doctorId: string;
+  appointmentDate: string;
+  appointmentType?: AppointmentType;
+  priority?: Priority;
+  symptoms?: string;
+  notes?: string;
+}
+
+type AppointmentWithPeople = AppointmentRow & {
+  doctor: { name: string; doctors: { specialty: string | null } | { specialty: string | null }[] | null } | null;
+  patient: { name: string } | null;
+};
+
+const APPOINTMENT_SELECT = `
+  *,
+  doctor:doctor_id (
+    name,
+    doctors (
+      specialty
+    )
+  ),
+  patient:patient_id (
+    name
+  )
+`;
+
+const mapAppointment = (row: AppointmentWithPeople): ConfirmedAppointment => ({
+  id: row.id,
+  patient_id: row.patient_id ?? '',
+  patient_name: row.patient?.name || 'Unknown Patient',
+  doctor_name: row.doctor?.name || 'Unknown Doctor',
+  doctor_specialty: single(row.doctor?.doctors)?.specialty || 'General Medicine',
+  appointment_date: row.appointment_date,
+  appointment_type: row.appointment_type || 'in-person',
+  priority: row.priority || 'medium',
+  type: row.type || 'Consultation',
+  status: row.status,
+  symptoms: row.symptoms || '',
+  notes: row.notes || '',
+});
+
+export const fetchPatientAppointments = async (
+  patientId: string,
+  statuses: AppointmentStatus[] = ['scheduled', 'confirmed']
+): Promise<RepositoryResult<ConfirmedAppointment[]>> =>
+  toResult(
+    'fetching appointments',
+    await supabase
+      .from('appointments')
+      .select(APPOINTMENT_SELECT)
+      .eq('patient_id', patientId)
+      .in('status', statuses)
+      .order('appointment_date', { ascending: true }),
+    (rows: AppointmentWithPeople[]) => rows.map(mapAppointment)
+  );
+
+export const fetchDoctorAppointments = async (
+  doctorId: string,
+  statuses: AppointmentStatus[] = ['scheduled', 'confirmed']
+): Promise<RepositoryResult<ConfirmedAppointment[]>> =>
+  toResult(
+    'fetching doctor appointments',
+    await supabase
+      .from('appointments')
+      .select(APPOINTMENT_SELECT)
+      .eq('doctor_id', doctorId)
+      .in('status', statuses)
+      .order('appointment_date', { ascending: true }),
+    (rows: AppointmentWithPeople[]) => rows.map(mapAppointment)
+  );
+
+export const createAppointment = async (appointment: NewAppointment): Promise<RepositoryResult<{ id: string }>> =>
+  toResult(
+    'booking appointment',
+    await supabase
+      .from('appointments')
+      .insert({
+        patient_id: appointment.patientId,
+        doctor_id: appointment.doctorId,
+        appointment_date: appointment.appointmentDate,
+        appointment_type: appointment.appointmentType,
+        priority: appointment.priority,
+        status: 'scheduled',
+        symptoms: appointment.symptoms ?? '',
+        notes: appointment.notes ?? '',
+      })
+      .select('id')
+      .single(),
+    (row: { id: string }) => row
+  );
+
+export const updateAppointmentStatus = async (
+  appointmentId: string,
+  status: AppointmentStatus
+): Promise<RepositoryResult<null>> =>
+  toEmptyResult(
+    'updating appointment',
+    await supabase
+      .from('appointments')
+      .update({ status, updated_at: new Date().toISOString() })
+      .eq('id', appointmentId)
+  );
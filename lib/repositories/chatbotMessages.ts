@@ -0,0 +1,46 @@
+import { supabase } from '../supabase';
+import { ChatMessageType, ChatbotMessageRow, RepositoryResult, toResult } from './types';
+
+export interface ChatbotExchange {
+  id: string;
+  message: string;
+  response: string;
+  messageType: ChatMessageType;
+  createdAt: string;
+}
+
+const mapExchange = (row: ChatbotMessageRow): ChatbotExchange => ({
+  id: row.id,
+  message: row.message,
+  response: row.response || '',
+  messageType: row.message_type,
+  createdAt: row.created_at,
+});
+
+export const fetchChatHistory = async (userId: string, limit = 50): Promise<RepositoryResult<ChatbotExchange[]>> =>
+  toResult(
+    'fetching chat history',
+    await supabase
+      .from('chatbot_messages')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true })
+      .limit(limit),
+    (rows: ChatbotMessageRow[]) => rows.map(mapExchange)
+  );
+
+export const saveChatExchange = async (
+  userId: string,
+  message: string,
+  response: string,
+  messageType: ChatMessageType = 'text'
+): Promise<RepositoryResult<ChatbotExchange>> =>
+  toResult(
+    'saving chat message',
+    await supabase
+      .from('chatbot_messages')
+      .insert({ user_id: userId, message, response, message_type: messageType })
+      .select('*')
+      .single(),
+    mapExchange
+  );
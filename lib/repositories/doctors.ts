@@ -0,0 +1,64 @@
+import { supabase } from '../supabase';
+import { DoctorRow, RepositoryResult, UserRow, single, toEmptyResult, toResult } from './types';
+
+// The practice details a doctor edits on their own profile
+export type DoctorUpdate = Partial<Pick<DoctorRow, 'specialty' | 'hospital'>>;
+
+// A doctor as listed to patients: the users row plus their practice details
+export interface DoctorListing {
+  id: string;
+  name: string;
+  specialty: string;
+  hospital: string;
+  location: string;
+  rating: number;
+  phone: string;
+  avatar: string;
+  isVerified: boolean;
+}
+
+type DoctorListingRow = Pick<UserRow, 'id' | 'name' | 'phone' | 'location' | 'avatar'> & {
+  doctors: Pick<DoctorRow, 'specialty' | 'hospital' | 'rating' | 'is_verified'> | Pick<DoctorRow, 'specialty' | 'hospital' | 'rating' | 'is_verified'>[] | null;
+};
+
+const mapDoctorListing = (row: DoctorListingRow): DoctorListing => {
+  const details = single(row.doctors);
+  return {
+    id: row.id,
+    name: row.name || 'Unknown',
+    specialty: details?.specialty || '',
+    hospital: details?.hospital || '',
+    location: row.location || '',
+    rating: Number(details?.rating) || 0,
+    phone: row.phone || '',
+    avatar: row.avatar || '',
+    isVerified: !!details?.is_verified,
+  };
+};
+
+export const fetchDoctorDirectory = async (limit = 100): Promise<RepositoryResult<DoctorListing[]>> =>
+  toResult(
+    'fetching doctors',
+    await supabase
+      .from('users')
+      .select('id, name, phone, location, avatar, doctors(specialty, hospital, rating, is_verified)')
+      .eq('role', 'doctor')
+      .limit(limit),
+    (rows: DoctorListingRow[]) => rows.map(mapDoctorListing)
+  );
+
+export const fetchDoctor = async (doctorId: string): Promise<RepositoryResult<DoctorRow>> =>
+  toResult(
+    'fetching doctor details',
+    await supabase.from('doctors').select('*').eq('id', doctorId).single(),
+    (row: DoctorRow) => row
+  );
+
+export const updateDoctor = async (doctorId: string, update: DoctorUpdate): Promise<RepositoryResult<null>> =>
+  toEmptyResult(
+    'updating doctor details',
+    await supabase
+      .from('doctors')
+      .update({ ...update, updated_at: new Date().toISOString() })
+      .eq('id', doctorId)
+  );
@@ -0,0 +1,128 @@
+import type { PostgrestError } from '@supabase/supabase-js';
+import { supabase } from '../supabase';
+import { DoseLogRow, DoseStatus, RepositoryResult, toResult } from './types';
+
+export interface DoseLog {
+  id: string;
+  patientId: string;
+  prescriptionId: string;
+  medicineIndex: number;
+  // The dose this entry answers for: the YYYY-MM-DD date and "HH:MM" time it was due
+  scheduledDate: string;
+  scheduledTime: string;
+  status: DoseStatus;
+  // When it was actually taken; null for skipped doses
+  takenAt: Date | null;
+}
+
+export interface NewDoseLog {
+  patientId: string;
+  prescriptionId: string;
+  medicineIndex: number;
+  scheduledDate: string;
+  scheduledTime: string;
+  status: DoseStatus;
+  takenAt: Date | null;
+}
+
+const mapDoseLog = (row: DoseLogRow): DoseLog => ({
+  id: row.id,
+  patientId: row.patient_id,
+  prescriptionId: row.prescription_id,
+  medicineIndex: row.medicine_index,
+  scheduledDate: row.scheduled_date,
+  scheduledTime: row.scheduled_time,
+  status: row.status,
+  takenAt: row.taken_at ? new Date(row.taken_at) : null,
+});
+
+// Dates don't survive the offline cache's JSON round trip
+export const reviveDoseLogs = (logs: DoseLog[]) =>
+  logs.map((log) => ({ ...log, takenAt: log.takenAt ? new Date(log.takenAt) : null }));
+
+// PostgREST returns at most this many rows per request, and 90 days of a busy schedule is more
+const PAGE_SIZE = 1000;
+
+/**
+ * Read every page of a dose log query, so a long adherence window never
+ * silently loses entries (which would then count as missed doses). The
+ * query must be ordered on a unique key for the pages not to overlap.
+ */
+const fetchAllPages = async (
+  operation: string,
+  page: (from: number, to: number) => PromiseLike<{ data: DoseLogRow[] | null; error: PostgrestError | null }>
+): Promise<RepositoryResult<DoseLog[]>> => {
+  const rows: DoseLogRow[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const response = await page(from, from + PAGE_SIZE - 1);
+    if (response.error || !response.data) {
+      return toResult(operation, response, (pageRows: DoseLogRow[]) => pageRows.map(mapDoseLog));
+    }
+    rows.push(...response.data);
+    if (response.data.length < PAGE_SIZE) break;
+  }
+  return { data: rows.map(mapDoseLog), error: null };
+};
+
+// Dose log entries for a patient between two YYYY-MM-DD dates, inclusive
+export const fetchDoseLogs = async (
+  patientId: string,
+  from: string,
+  to: string = from
+): Promise<RepositoryResult<DoseLog[]>> =>
+  fetchAllPages('loading dose history', (first, last) =>
+    supabase
+      .from('dose_logs')
+      .select('*')
+      .eq('patient_id', patientId)
+      .gte('scheduled_date', from)
+      .lte('scheduled_date', to)
+      .order('scheduled_date', { ascending: true })
+      .order('scheduled_time', { ascending: true })
+      .order('id', { ascending: true })
+      .range(first, last)
+  );
+
+// Dose log entries for the given prescriptions, e.g. the ones a doctor wrote, since a YYYY-MM-DD date
+export const fetchDoseLogsForPrescriptions = async (
+  prescriptionIds: string[],
+  from: string
+): Promise<RepositoryResult<DoseLog[]>> =>
+  fetchAllPages('loading dose history', (first, last) =>
+    supabase
+      .from('dose_logs')
+      .select('*')
+      .in('prescription_id', prescriptionIds)
+      .gte('scheduled_date', from)
+      .order('scheduled_date', { ascending: true })
+      .order('id', { ascending: true })
+      .range(first, last)
+  );
+
+/**
+ * Record what happened to one scheduled dose. There is one entry per dose, so
+ * a replay from the offline outbox, or changing a skipped dose to taken,
+ * updates it rather than adding another.
+ */
+export const recordDose = async (dose: NewDoseLog): Promise<RepositoryResult<{ id: string }>> =>
+  toResult(
+    'recording dose',
+    await supabase
+      .from('dose_logs')
+      .upsert(
+        {
+          patient_id: dose.patientId,
+          prescription_id: dose.prescriptionId,
+          medicine_index: dose.medicineIndex,
+          scheduled_date: dose.scheduledDate,
+          scheduled_time: dose.scheduledTime,
+          status: dose.status,
+          taken_at: dose.takenAt ? dose.takenAt.toISOString() : null,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'prescription_id,medicine_index,scheduled_date,scheduled_time' }
+      )
+      .select('id')
+      .single(),
+    (saved: { id: string }) => saved
+  );
@@ -0,0 +1,112 @@
+import { supabase } from '../supabase';
+import {
+  HealthReadingRow,
+  MealTiming,
+  ReadingType,
+  RepositoryResult,
+  toEmptyResult,
+  toResult,
+} from './types';
+
+export interface HealthReading {
+  id: string;
+  patientId: string;
+  type: ReadingType;
+  systolic?: number;
+  diastolic?: number;
+  glucose?: number;
+  unit: string;
+  timestamp: Date;
+  notes?: string;
+  mealTiming?: MealTiming; // For blood glucose
+}
+
+export interface NewHealthReading {
+  patientId: string;
+  type: ReadingType;
+  systolic?: number;
+  diastolic?: number;
+  glucose?: number;
+  unit: string;
+  timestamp: Date;
+  mealTiming?: MealTiming;
+  notes?: string;
+  // Set for writes that may be replayed from the offline outbox
+  idempotencyKey?: string;
+}
+
+const mapReading = (row: HealthReadingRow): HealthReading => ({
+  id: row.id,
+  patientId: row.patient_id,
+  type: row.type,
+  systolic: row.systolic ?? undefined,
+  diastolic: row.diastolic ?? undefined,
+  glucose: row.glucose ?? undefined,
+  unit: row.unit,
+  timestamp: new Date(row.timestamp),
+  notes: row.notes ?? undefined,
+  mealTiming: row.meal_timing ?? undefined,
+});
+
+// One-line summary for lists, e.g. "Blood pressure 120/80 mmHg"
+export const describeReading = (reading: HealthReading) =>
+  reading.type === 'blood_pressure'
+    ? `Blood pressure ${reading.systolic}/${reading.diastolic} ${reading.unit}`
+    : `Blood glucose ${reading.glucose} ${reading.unit}`;
+
+export const fetchHealthReadings = async (
+  patientId: string,
+  limit = 50
+): Promise<RepositoryResult<HealthReading[]>> =>
+  toResult(
+    'loading readings',
+    await supabase
+      .from('health_readings')
+      .select('*')
+      .eq('patient_id', patientId)
+      .order('timestamp', { ascending: false })
+      .limit(limit),
+    (rows: HealthReadingRow[]) => rows.map(mapReading)
+  );
+
+/**
+ * Latest readings for each of several patients, for a doctor's patient list.
+ * The limit is per patient, so one patient logging many readings can't push
+ * everyone else's off the list.
+ */
+export const fetchHealthReadingsForPatients = async (
+  patientIds: string[],
+  limitPerPatient = 20
+): Promise<RepositoryResult<HealthReading[]>> => {
+  const results = await Promise.all(patientIds.map((patientId) => fetchHealthReadings(patientId, limitPerPatient)));
+  const failed = results.find((result) => result.error);
+  if (failed?.error) return { data: null, error: failed.error };
+  return { data: results.flatMap((result) => result.data ?? []), error: null };
+};
+
+/**
+ * Save a reading. With an idempotency key, a replay of a write that already
+ * reached the server updates that row instead of adding a duplicate.
+ */
+export const createHealthReading = async (reading: NewHealthReading): Promise<RepositoryResult<{ id: string }>> => {
+  const row = {
+    patient_id: reading.patientId,
+    type: reading.type,
+    systolic: reading.systolic,
+    diastolic: reading.diastolic,
+    glucose: reading.glucose,
+    unit: reading.unit,
+    timestamp: reading.timestamp.toISOString(),
+    meal_timing: reading.mealTiming,
+    notes: reading.notes,
+    idempotency_key: reading.idempotencyKey,
+  };
+  const query = reading.idempotencyKey
+    ? supabase.from('health_readings').upsert(row, { onConflict: 'idempotency_key' })
+    : supabase.from('health_readings').insert(row);
+
+  return toResult('saving reading', await query.select('id').single(), (saved: { id: string }) => saved);
+};
+
+export const deleteHealthReading = async (readingId: string): Promise<RepositoryResult<null>> =>
+  toEmptyResult('deleting reading', await supabase.from('health_readings').delete().eq('id', readingId));
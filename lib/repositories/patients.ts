@@ -0,0 +1,41 @@
+import { supabase } from '../supabase';
+import { PatientRow, RepositoryResult, toEmptyResult, toResult } from './types';
+
+export type PatientUpdate = Partial<Omit<PatientRow, 'id' | 'created_at' | 'updated_at'>>;
+
+export const fetchPatient = async (patientId: string): Promise<RepositoryResult<PatientRow>> =>
+  toResult(
+    'fetching patient profile',
+    await supabase.from('patients').select('*').eq('id', patientId).single(),
+    (row: PatientRow) => row
+  );
+
+export const fetchPatients = async (patientIds: string[]): Promise<RepositoryResult<PatientRow[]>> =>
+  toResult(
+    'fetching patient profiles',
+    await supabase.from('patients').select('*').in('id', patientIds),
+    (rows: PatientRow[]) => rows
+  );
+
+// An empty profile for a patient who signed up before profiles were created at sign-up
+export const createPatient = async (patientId: string): Promise<RepositoryResult<PatientRow>> =>
+  toResult(
+    'creating patient profile',
+    await supabase.from('patients').insert({ id: patientId }).select().single(),
+    (row: PatientRow) => row
+  );
+
+export const updatePatient = async (patientId: string, update: PatientUpdate): Promise<RepositoryResult<null>> =>
+  toEmptyResult(
+    'updating patient profile',
+    await supabase
+      .from('patients')
+      .update({ ...update, updated_at: new Date().toISOString() })
+      .eq('id', patientId)
+  );
+
+// Whole years since the date of birth, or undefined when it isn't recorded
+export const ageFromDob = (dob: string | null): number | undefined => {
+  if (!dob) return undefined;
+  return Math.floor((Date.now() - new Date(dob).getTime()) / (365.25 * 24 * 60 * 60 * 1000));
+};
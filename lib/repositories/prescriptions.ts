@@ -0,0 +1,159 @@
+import { Medication, parseMedicationText } from '../medicationSchedule';
+import { supabase } from '../supabase';
+import {
+  PrescriptionMedicineRow,
+  PrescriptionRow,
+  PrescriptionStatus,
+  RepositoryResult,
+  single,
+  toEmptyResult,
+  toResult,
+} from './types';
+
+export interface Prescription {
+  id: string;
+  patientId: string;
+  patientName: string;
+  doctorId: string;
+  doctorName: string;
+  doctorSpecialty: string;
+  date: string;
+  medicines: Medication[];
+  instructions: string;
+  status: PrescriptionStatus;
+}
+
+export interface NewPrescription {
+  patientId: string;
+  doctorId: string;
+  appointmentId?: string;
+  medicines: Medication[];
+  instructions: string;
+}
+
+type PrescriptionWithPeople = PrescriptionRow & {
+  doctor: { name: string; doctors: { specialty: string | null } | { specialty: string | null }[] | null } | null;
+  patient: { name: string } | null;
+};
+
+// The one prescriptions join: who prescribed it, their specialty, and for whom
+const PRESCRIPTION_SELECT = `
+  *,
+  doctor:doctor_id (
+    name,
+    doctors (
+      specialty
+    )
+  ),
+  patient:patient_id (
+    name
+  )
+`;
+
+// Older prescriptions never said how long to take them; patients were shown a week, so keep that
+const LEGACY_DURATION_DAYS = 7;
+
+const mapMedicine = (entry: PrescriptionMedicineRow | string, row: PrescriptionRow): Medication => {
+  if (typeof entry === 'string') {
+    const medication = parseMedicationText(entry, row.instructions || '', row.created_at.split('T')[0]);
+    // Nobody agreed to alerts for these, so don't start texting contacts about them
+    return { ...medication, durationDays: medication.durationDays ?? LEGACY_DURATION_DAYS, escalation: null };
+  }
+  return {
+    name: entry.name,
+    strength: entry.strength,
+    dose: entry.dose,
+    times: entry.times,
+    food: entry.food,
+    startDate: entry.start_date,
+    durationDays: entry.duration_days,
+    asNeeded: entry.as_needed,
+    escalation: entry.escalation
+      ? {
+          remindAfterMinutes: entry.escalation.remind_after_minutes,
+          alertContactsAfterMinutes: entry.escalation.alert_contacts_after_minutes,
+        }
+      : null,
+  };
+};
+
+const toMedicineRow = (medication: Medication): PrescriptionMedicineRow => ({
+  name: medication.name,
+  strength: medication.strength,
+  dose: medication.dose,
+  times: medication.times,
+  food: medication.food,
+  start_date: medication.startDate,
+  duration_days: medication.durationDays,
+  as_needed: medication.asNeeded,
+  escalation: medication.escalation
+    ? {
+        remind_after_minutes: medication.escalation.remindAfterMinutes,
+        alert_contacts_after_minutes: medication.escalation.alertContactsAfterMinutes,
+      }
+    : null,
+});
+
+const mapPrescription = (row: PrescriptionWithPeople): Prescription => ({
+  id: row.id,
+  patientId: row.patient_id || '',
+  patientName: row.patient?.name || 'Unknown Patient',
+  doctorId: row.doctor_id || '',
+  doctorName: row.doctor?.name || 'Unknown Doctor',
+  doctorSpecialty: single(row.doctor?.doctors)?.specialty || 'General',
+  date: row.created_at,
+  medicines: Array.isArray(row.medicines) ? row.medicines.map((entry) => mapMedicine(entry, row)) : [],
+  instructions: row.instructions || '',
+  status: row.status,
+});
+
+export const fetchPatientPrescriptions = async (
+  patientId: string,
+  options: { status?: PrescriptionStatus; limit?: number } = {}
+): Promise<RepositoryResult<Prescription[]>> => {
+  let query = supabase
+    .from('prescriptions')
+    .select(PRESCRIPTION_SELECT)
+    .eq('patient_id', patientId)
+    .order('created_at', { ascending: false });
+
+  if (options.status) {
+    query = query.eq('status', options.status);
+  }
+  if (options.limit) {
+    query = query.limit(options.limit);
+  }
+
+  return toResult('fetching prescriptions', await query, (rows: PrescriptionWithPeople[]) => rows.map(mapPrescription));
+};
+
+// Prescriptions this doctor wrote, optionally only for the given patients
+export const fetchDoctorPrescriptions = async (
+  doctorId: string,
+  patientIds?: string[]
+): Promise<RepositoryResult<Prescription[]>> => {
+  let query = supabase
+    .from('prescriptions')
+    .select(PRESCRIPTION_SELECT)
+    .eq('doctor_id', doctorId)
+    .order('created_at', { ascending: false });
+
+  if (patientIds) {
+    query = query.in('patient_id', patientIds);
+  }
+
+  return toResult('fetching prescriptions', await query, (rows: PrescriptionWithPeople[]) => rows.map(mapPrescription));
+};
+
+export const createPrescription = async (prescription: NewPrescription): Promise<RepositoryResult<null>> =>
+  toEmptyResult(
+    'saving prescription',
+    await supabase.from('prescriptions').insert({
+      patient_id: prescription.patientId,
+      doctor_id: prescription.doctorId,
+      appointment_id: prescription.appointmentId ?? null,
+      medicines: prescription.medicines.map(toMedicineRow),
+      instructions: prescription.instructions,
+      status: 'active',
+    })
+  );
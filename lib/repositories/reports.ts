@@ -0,0 +1,65 @@
+import { supabase } from '../supabase';
+import { ReportRow, ReportStatus, RepositoryResult, single, toEmptyResult, toResult } from './types';
+
+export type ReportWithPatient = ReportRow & {
+  patient?: { id: string; name: string };
+};
+
+type ReportWithPatientRow = ReportRow & {
+  patient: { id: string; name: string } | { id: string; name: string }[] | null;
+};
+
+/**
+ * Reports uploaded to this doctor, limited to the given patients (those whose
+ * consent currently covers reports) and optionally to one status.
+ */
+export const fetchDoctorReports = async (
+  doctorId: string,
+  patientIds: string[],
+  status?: ReportStatus
+): Promise<RepositoryResult<ReportWithPatient[]>> => {
+  let query = supabase
+    .from('reports')
+    .select(`
+      *,
+      patient:users!patient_id(
+        id,
+        name
+      )
+    `)
+    .eq('doctor_id', doctorId)
+    .in('patient_id', patientIds)
+    .order('upload_date', { ascending: false });
+
+  if (status) {
+    query = query.eq('status', status);
+  }
+
+  return toResult('fetching reports', await query, (rows: ReportWithPatientRow[]) =>
+    rows.map((row) => ({ ...row, patient: single(row.patient) ?? undefined }))
+  );
+};
+
+export const fetchPatientReports = async (patientId: string): Promise<RepositoryResult<ReportRow[]>> =>
+  toResult(
+    'fetching reports',
+    await supabase
+      .from('reports')
+      .select('*')
+      .eq('patient_id', patientId)
+      .order('upload_date', { ascending: false }),
+    (rows: ReportRow[]) => rows
+  );
+
+export const updateReportStatus = async (reportId: string, status: ReportStatus): Promise<RepositoryResult<null>> =>
+  toEmptyResult(
+    'updating report status',
+    await supabase
+      .from('reports')
+      .update({
+        status,
+        reviewed_date: status === 'reviewed' ? new Date().toISOString() : null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', reportId)
+  );
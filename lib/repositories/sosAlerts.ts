@@ -0,0 +1,52 @@
+import { supabase } from '../supabase';
+import { RepositoryResult, SosAlertRow, SosStatus, toEmptyResult, toResult } from './types';
+
+export interface SosAlert {
+  id: string;
+  userId: string;
+  latitude: number | null;
+  longitude: number | null;
+  alertTime: string;
+  status: SosStatus;
+}
+
+const mapAlert = (row: SosAlertRow): SosAlert => ({
+  id: row.id,
+  userId: row.user_id || '',
+  latitude: row.latitude,
+  longitude: row.longitude,
+  alertTime: row.alert_time,
+  status: row.status,
+});
+
+export const fetchSosAlerts = async (userId: string): Promise<RepositoryResult<SosAlert[]>> =>
+  toResult(
+    'fetching SOS alerts',
+    await supabase
+      .from('sos_alerts')
+      .select('*')
+      .eq('user_id', userId)
+      .order('alert_time', { ascending: false }),
+    (rows: SosAlertRow[]) => rows.map(mapAlert)
+  );
+
+export const createSosAlert = async (
+  userId: string,
+  location: { latitude: number; longitude: number } | null
+): Promise<RepositoryResult<SosAlert>> =>
+  toResult(
+    'raising SOS alert',
+    await supabase
+      .from('sos_alerts')
+      .insert({
+        user_id: userId,
+        latitude: location?.latitude ?? null,
+        longitude: location?.longitude ?? null,
+      })
+      .select('*')
+      .single(),
+    mapAlert
+  );
+
+export const updateSosAlertStatus = async (alertId: string, status: SosStatus): Promise<RepositoryResult<null>> =>
+  toEmptyResult('updating SOS alert', await supabase.from('sos_alerts').update({ status }).eq('id', alertId));
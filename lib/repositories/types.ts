@@ -0,0 +1,331 @@
+import type { PostgrestError } from '@supabase/supabase-js';
+
+// Row shapes for the tables in myschemea.sql. Columns are snake_case as stored;
+// the repositories map them onto the camelCase models the screens render.
+
+export type UserRoleColumn = 'doctor' | 'patient' | 'pharmacy' | 'admin';
+export type Priority = 'high' | 'medium' | 'low';
+export type AppointmentType = 'video' | 'in-person';
+export type AppointmentStatus = 'scheduled' | 'confirmed' | 'completed' | 'cancelled';
+export type AppointmentRequestStatus = 'pending' | 'confirmed' | 'rejected';
+export type PrescriptionStatus = 'active' | 'completed' | 'cancelled';
+export type DoseStatus = 'taken' | 'late' | 'skipped';
+export type ReadingType = 'blood_pressure' | 'blood_glucose' | 'other';
+export type MealTiming = 'before_meal' | 'after_meal';
+export type ReportStatus = 'pending' | 'reviewed' | 'urgent';
+export type SosStatus = 'pending' | 'notified' | 'resolved';
+export type ChatMessageType = 'text' | 'voice';
+
+export interface UserRow {
+  id: string;
+  email: string | null;
+  role: UserRoleColumn;
+  name: string;
+  avatar: string | null;
+  phone: string | null;
+  location: string | null;
+  account_id: string | null;
+  relationship: string | null;
+  ai_opt_out: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PatientRow {
+  id: string;
+  emergency_contacts: unknown[] | null;
+  blood_grp: string | null;
+  dob: string | null;
+  gender: 'male' | 'female' | 'other' | 'prefer_not_to_say' | null;
+  height_cm: number | null;
+  weight_kg: number | null;
+  allergies: string[] | null;
+  chronic_conditions: string[] | null;
+  primary_physician: string | null;
+  profile_completed: boolean | null;
+  medical_history_completed: boolean | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DoctorRow {
+  id: string;
+  specialty: string | null;
+  hospital: string | null;
+  rating: number | null;
+  registration_no: string | null;
+  council_name: string | null;
+  year_of_registration: string | null;
+  is_verified: boolean | null;
+  verification_status: 'pending' | 'approved' | 'rejected';
+  verified_by: string | null;
+  verified_at: string | null;
+  verification_notes: string | null;
+  submitted_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AppointmentRow {
+  id: string;
+  patient_id: string | null;
+  doctor_id: string | null;
+  appointment_date: string;
+  status: AppointmentStatus;
+  symptoms: string | null;
+  notes: string | null;
+  priority: Priority | null;
+  type: string | null;
+  appointment_type: AppointmentType | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AppointmentRequestRow {
+  id: string;
+  patient_id: string | null;
+  doctor_id: string | null;
+  patient_name: string;
+  requested_time: string;
+  appointment_type: AppointmentType | null;
+  priority: Priority | null;
+  symptoms: string | null;
+  status: AppointmentRequestStatus | null;
+  consultation_fee: number | null;
+  notes: string | null;
+  idempotency_key: string | null;
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+// One entry of prescriptions.medicines. Prescriptions saved before medicines
+// were structured hold plain strings ("prescribed: Paracetamol 500mg - 1 tablet").
+export interface PrescriptionMedicineRow {
+  name: string;
+  strength: string | null;
+  dose: string;
+  times: string[];
+  food: 'before_food' | 'with_food' | 'after_food' | 'any';
+  start_date: string;
+  duration_days: number | null;
+  as_needed: boolean;
+  // Absent on medicines saved before missed-dose escalation existed
+  escalation?: { remind_after_minutes: number; alert_contacts_after_minutes: number } | null;
+}
+
+export interface PrescriptionRow {
+  id: string;
+  patient_id: string | null;
+  doctor_id: string | null;
+  appointment_id: string | null;
+  medicines: (PrescriptionMedicineRow | string)[];
+  instructions: string | null;
+  status: PrescriptionStatus;
+  // Superseded by dose_logs; kept for prescriptions marked before doses were logged
+  taken_on: string[] | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DoseLogRow {
+  id: string;
+  patient_id: string;
+  prescription_id: string;
+  medicine_index: number;
+  scheduled_date: string;
+  scheduled_time: string;
+  status: DoseStatus;
+  taken_at: string | null;
+  recorded_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface HealthReadingRow {
+  id: string;
+  patient_id: string;
+  type: ReadingType;
+  systolic: number | null;
+  diastolic: number | null;
+  glucose: number | null;
+  unit: string;
+  timestamp: string;
+  meal_timing: MealTiming | null;
+  notes: string | null;
+  idempotency_key: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ChatbotMessageRow {
+  id: string;
+  user_id: string | null;
+  message: string;
+  response: string | null;
+  message_type: ChatMessageType;
+  created_at: string;
+}
+
+export interface SosAlertRow {
+  id: string;
+  user_id: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  alert_time: string;
+  status: SosStatus;
+}
+
+export interface ReportRow {
+  id: string;
+  patient_id: string;
+  doctor_id: string | null;
+  report_type: string;
+  file_path: string;
+  file_size: string | null;
+  thumbnail_url: string | null;
+  status: ReportStatus;
+  upload_date: string;
+  reviewed_date: string | null;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CaregiverLinkRow {
+  id: string;
+  caregiver_id: string;
+  patient_id: string;
+  relationship: string | null;
+  can_view_readings: boolean;
+  can_mark_medicines: boolean;
+  can_book_appointments: boolean;
+  status: 'active' | 'revoked';
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DoctorAccessConsentRow {
+  id: string;
+  patient_id: string;
+  doctor_id: string;
+  can_view_readings: boolean;
+  can_view_reports: boolean;
+  can_view_prescriptions: boolean;
+  can_view_profile: boolean;
+  status: 'active' | 'revoked';
+  expires_at: string;
+  revoked_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AccessAuditEventRow {
+  id: string;
+  actor_id: string;
+  patient_id: string;
+  action: 'viewed_history' | 'viewed_readings' | 'viewed_report' | 'downloaded_report';
+  resource_type: 'prescriptions' | 'readings' | 'report';
+  resource_id: string | null;
+  resource_label: string | null;
+  created_at: string;
+}
+
+export interface PharmacyOrderRow {
+  id: string;
+  pharmacy_id: string;
+  patient_id: string;
+  prescription_id: string | null;
+  items: { name: string; quantity: number }[];
+  total_amount: number | null;
+  status: 'pending' | 'accepted' | 'ready' | 'completed' | 'rejected';
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PharmacyInventoryRow {
+  id: string;
+  pharmacy_id: string;
+  medicine_name: string;
+  strength: string | null;
+  stock: number;
+  // numeric columns can arrive as strings
+  price: number | string;
+  low_stock_threshold: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface UserSessionRow {
+  id: string;
+  user_id: string;
+  device_id: string;
+  device_name: string | null;
+  platform: string | null;
+  created_at: string;
+  last_active_at: string;
+}
+
+export interface AccountDeletionRequestRow {
+  id: string;
+  user_id: string;
+  reason: string | null;
+  status: 'pending' | 'cancelled' | 'completed';
+  requested_at: string;
+  scheduled_for: string;
+  cancelled_at: string | null;
+  completed_at: string | null;
+}
+
+export interface RepositoryError {
+  // What the repository was doing, e.g. "fetching prescriptions"
+  operation: string;
+  message: string;
+  code?: string;
+}
+
+// Same { data, error } shape as a supabase-js response, so call sites read alike
+export type RepositoryResult<T> =
+  | { data: T; error: null }
+  | { data: null; error: RepositoryError };
+
+/**
+ * Turn a supabase-js response into a RepositoryResult, logging failures in
+ * one place so every screen reports errors the same way.
+ */
+export const toResult = <Row, T>(
+  operation: string,
+  response: { data: Row | null; error: PostgrestError | null },
+  map: (data: Row) => T
+): RepositoryResult<T> => {
+  if (response.error) {
+    console.error(`Error ${operation}:`, response.error);
+    return {
+      data: null,
+      error: { operation, message: response.error.message, code: response.error.code },
+    };
+  }
+  if (response.data === null) {
+    return { data: null, error: { operation, message: 'No data returned' } };
+  }
+  return { data: map(response.data), error: null };
+};
+
+// Embedded one-to-one relations come back as an object or a one-element array
+export const single = <T>(relation: T | T[] | null | undefined): T | null =>
+  (Array.isArray(relation) ? relation[0] : relation) ?? null;
+
+// For writes that return nothing: success is simply the absence of an error
+export const toEmptyResult = (
+  operation: string,
+  response: { error: PostgrestError | null }
+): RepositoryResult<null> => {
+  if (response.error) {
+    console.error(`Error ${operation}:`, response.error);
+    return {
+      data: null,
+      error: { operation, message: response.error.message, code: response.error.code },
+    };
+  }
+  return { data: null, error: null };
+};
@@ -0,0 +1,20 @@
+import { supabase } from '../supabase';
+import { RepositoryResult, UserRow, toEmptyResult, toResult } from './types';
+
+export type UserUpdate = Partial<Pick<UserRow, 'name' | 'email' | 'phone' | 'location' | 'avatar'>>;
+
+export const fetchUser = async (userId: string): Promise<RepositoryResult<UserRow>> =>
+  toResult(
+    'fetching user',
+    await supabase.from('users').select('*').eq('id', userId).single(),
+    (row: UserRow) => row
+  );
+
+export const updateUser = async (userId: string, update: UserUpdate): Promise<RepositoryResult<null>> =>
+  toEmptyResult(
+    'updating user',
+    await supabase
+      .from('users')
+      .update({ ...update, updated_at: new Date().toISOString() })
+      .eq('id', userId)
+  );
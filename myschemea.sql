@@ -1,6 +1,46 @@
 -- WARNING: This schema is for context only and is not meant to be run.
 -- Table order and constraints may not be valid for execution.
 
+CREATE TABLE public.access_audit_events (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  actor_id uuid NOT NULL,
+  patient_id uuid NOT NULL,
+  action text NOT NULL CHECK (action = ANY (ARRAY['viewed_history'::text, 'viewed_readings'::text, 'viewed_report'::text, 'downloaded_report'::text])),
+  resource_type text NOT NULL CHECK (resource_type = ANY (ARRAY['prescriptions'::text, 'readings'::text, 'report'::text])),
+  resource_id uuid,
+  resource_label text,
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  CONSTRAINT access_audit_events_pkey PRIMARY KEY (id),
+  CONSTRAINT access_audit_events_actor_id_fkey FOREIGN KEY (actor_id) REFERENCES public.users(id),
+  CONSTRAINT access_audit_events_patient_id_fkey FOREIGN KEY (patient_id) REFERENCES public.users(id)
+);
+CREATE TABLE public.account_deletion_requests (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  reason text,
+  status text NOT NULL DEFAULT 'pending'::text CHECK (status = ANY (ARRAY['pending'::text, 'cancelled'::text, 'completed'::text])),
+  requested_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  scheduled_for timestamp with time zone NOT NULL,
+  cancelled_at timestamp with time zone,
+  completed_at timestamp with time zone,
+  CONSTRAINT account_deletion_requests_pkey PRIMARY KEY (id),
+  CONSTRAINT account_deletion_requests_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.users(id)
+);
+CREATE TABLE public.ai_usage_events (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  task text NOT NULL CHECK (task = ANY (ARRAY['read_device_photo'::text, 'transcribe_prescription'::text, 'parse_prescription_text'::text, 'chat'::text])),
+  model text,
+  status text NOT NULL CHECK (status = ANY (ARRAY['ok'::text, 'error'::text, 'rate_limited'::text])),
+  prompt_chars integer NOT NULL DEFAULT 0,
+  attachment_bytes integer NOT NULL DEFAULT 0,
+  response_chars integer NOT NULL DEFAULT 0,
+  latency_ms integer,
+  error text,
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  CONSTRAINT ai_usage_events_pkey PRIMARY KEY (id),
+  CONSTRAINT ai_usage_events_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.users(id)
+);
 CREATE TABLE public.appointment_requests (
   id uuid NOT NULL DEFAULT uuid_generate_v4(),
   patient_id uuid,
@@ -15,7 +55,9 @@ CREATE TABLE public.appointment_requests (
   updated_at timestamp with time zone DEFAULT now(),
   consultation_fee numeric DEFAULT 0,
   notes text DEFAULT ''::text,
+  idempotency_key uuid,
   CONSTRAINT appointment_requests_pkey PRIMARY KEY (id),
+  CONSTRAINT appointment_requests_idempotency_key_key UNIQUE (idempotency_key),
   CONSTRAINT appointment_requests_patient_id_fkey FOREIGN KEY (patient_id) REFERENCES public.users(id),
   CONSTRAINT appointment_requests_doctor_id_fkey FOREIGN KEY (doctor_id) REFERENCES public.users(id)
 );
@@ -36,6 +78,33 @@ CREATE TABLE public.appointments (
   CONSTRAINT appointments_patient_id_fkey FOREIGN KEY (patient_id) REFERENCES public.users(id),
   CONSTRAINT appointments_doctor_id_fkey FOREIGN KEY (doctor_id) REFERENCES public.users(id)
 );
+CREATE TABLE public.caregiver_actions (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  caregiver_id uuid NOT NULL,
+  patient_id uuid NOT NULL,
+  action text NOT NULL CHECK (action = ANY (ARRAY['reading_added'::text, 'reading_deleted'::text, 'medicine_taken'::text, 'medicine_skipped'::text, 'appointment_requested'::text, 'appointment_booked'::text])),
+  resource_id uuid,
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  CONSTRAINT caregiver_actions_pkey PRIMARY KEY (id),
+  CONSTRAINT caregiver_actions_caregiver_id_fkey FOREIGN KEY (caregiver_id) REFERENCES public.users(id),
+  CONSTRAINT caregiver_actions_patient_id_fkey FOREIGN KEY (patient_id) REFERENCES public.users(id)
+);
+CREATE TABLE public.caregiver_links (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  caregiver_id uuid NOT NULL,
+  patient_id uuid NOT NULL,
+  relationship text,
+  can_view_readings boolean NOT NULL DEFAULT true,
+  can_mark_medicines boolean NOT NULL DEFAULT false,
+  can_book_appointments boolean NOT NULL DEFAULT false,
+  status text NOT NULL DEFAULT 'active'::text CHECK (status = ANY (ARRAY['active'::text, 'revoked'::text])),
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  updated_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  CONSTRAINT caregiver_links_pkey PRIMARY KEY (id),
+  CONSTRAINT caregiver_links_caregiver_id_patient_id_key UNIQUE (caregiver_id, patient_id),
+  CONSTRAINT caregiver_links_caregiver_id_fkey FOREIGN KEY (caregiver_id) REFERENCES public.users(id),
+  CONSTRAINT caregiver_links_patient_id_fkey FOREIGN KEY (patient_id) REFERENCES public.users(id)
+);
 CREATE TABLE public.chatbot_messages (
   id uuid NOT NULL DEFAULT gen_random_uuid(),
   user_id uuid,
@@ -46,6 +115,35 @@ CREATE TABLE public.chatbot_messages (
   CONSTRAINT chatbot_messages_pkey PRIMARY KEY (id),
   CONSTRAINT chatbot_messages_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.users(id)
 );
+CREATE TABLE public.doctor_access_consents (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  patient_id uuid NOT NULL,
+  doctor_id uuid NOT NULL,
+  can_view_readings boolean NOT NULL DEFAULT false,
+  can_view_reports boolean NOT NULL DEFAULT false,
+  can_view_prescriptions boolean NOT NULL DEFAULT false,
+  can_view_profile boolean NOT NULL DEFAULT false,
+  status text NOT NULL DEFAULT 'active'::text CHECK (status = ANY (ARRAY['active'::text, 'revoked'::text])),
+  expires_at timestamp with time zone NOT NULL,
+  revoked_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  updated_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  CONSTRAINT doctor_access_consents_pkey PRIMARY KEY (id),
+  CONSTRAINT doctor_access_consents_patient_id_doctor_id_key UNIQUE (patient_id, doctor_id),
+  CONSTRAINT doctor_access_consents_patient_id_fkey FOREIGN KEY (patient_id) REFERENCES public.users(id),
+  CONSTRAINT doctor_access_consents_doctor_id_fkey FOREIGN KEY (doctor_id) REFERENCES public.users(id)
+);
+CREATE TABLE public.doctor_verification_reviews (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  doctor_id uuid NOT NULL,
+  reviewer_id uuid NOT NULL,
+  decision text NOT NULL CHECK (decision = ANY (ARRAY['approved'::text, 'rejected'::text])),
+  reason text,
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  CONSTRAINT doctor_verification_reviews_pkey PRIMARY KEY (id),
+  CONSTRAINT doctor_verification_reviews_doctor_id_fkey FOREIGN KEY (doctor_id) REFERENCES public.doctors(id),
+  CONSTRAINT doctor_verification_reviews_reviewer_id_fkey FOREIGN KEY (reviewer_id) REFERENCES public.users(id)
+);
 CREATE TABLE public.doctors (
   id uuid NOT NULL,
   created_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
@@ -57,8 +155,32 @@ CREATE TABLE public.doctors (
   council_name text,
   year_of_registration text,
   is_verified boolean DEFAULT false,
+  verification_status text NOT NULL DEFAULT 'pending'::text CHECK (verification_status = ANY (ARRAY['pending'::text, 'approved'::text, 'rejected'::text])),
+  verified_by uuid,
+  verified_at timestamp with time zone,
+  verification_notes text,
+  submitted_at timestamp with time zone,
   CONSTRAINT doctors_pkey PRIMARY KEY (id),
-  CONSTRAINT doctors_id_fkey FOREIGN KEY (id) REFERENCES public.users(id)
+  CONSTRAINT doctors_id_fkey FOREIGN KEY (id) REFERENCES public.users(id),
+  CONSTRAINT doctors_verified_by_fkey FOREIGN KEY (verified_by) REFERENCES public.users(id)
+);
+CREATE TABLE public.dose_logs (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  patient_id uuid NOT NULL,
+  prescription_id uuid NOT NULL,
+  medicine_index integer NOT NULL,
+  scheduled_date date NOT NULL,
+  scheduled_time text NOT NULL,
+  status text NOT NULL CHECK (status = ANY (ARRAY['taken'::text, 'late'::text, 'skipped'::text])),
+  taken_at timestamp with time zone,
+  recorded_by uuid DEFAULT auth.uid(),
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  updated_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  CONSTRAINT dose_logs_pkey PRIMARY KEY (id),
+  CONSTRAINT dose_logs_scheduled_dose_key UNIQUE (prescription_id, medicine_index, scheduled_date, scheduled_time),
+  CONSTRAINT dose_logs_patient_id_fkey FOREIGN KEY (patient_id) REFERENCES public.users(id),
+  CONSTRAINT dose_logs_prescription_id_fkey FOREIGN KEY (prescription_id) REFERENCES public.prescriptions(id),
+  CONSTRAINT dose_logs_recorded_by_fkey FOREIGN KEY (recorded_by) REFERENCES public.users(id)
 );
 CREATE TABLE public.health_readings (
   id uuid NOT NULL DEFAULT gen_random_uuid(),
@@ -73,7 +195,9 @@ CREATE TABLE public.health_readings (
   notes text,
   created_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
   updated_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  idempotency_key uuid,
   CONSTRAINT health_readings_pkey PRIMARY KEY (id),
+  CONSTRAINT health_readings_idempotency_key_key UNIQUE (idempotency_key),
   CONSTRAINT health_readings_patient_id_fkey FOREIGN KEY (patient_id) REFERENCES public.users(id)
 );
 CREATE TABLE public.patients (
@@ -94,6 +218,47 @@ CREATE TABLE public.patients (
   CONSTRAINT patients_pkey PRIMARY KEY (id),
   CONSTRAINT patients_id_fkey FOREIGN KEY (id) REFERENCES public.users(id)
 );
+CREATE TABLE public.pharmacies (
+  id uuid NOT NULL,
+  store_name text,
+  license_no text,
+  address text,
+  open_hours text,
+  is_open boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  updated_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  CONSTRAINT pharmacies_pkey PRIMARY KEY (id),
+  CONSTRAINT pharmacies_id_fkey FOREIGN KEY (id) REFERENCES public.users(id)
+);
+CREATE TABLE public.pharmacy_inventory (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  pharmacy_id uuid NOT NULL,
+  medicine_name text NOT NULL,
+  strength text,
+  stock integer NOT NULL DEFAULT 0 CHECK (stock >= 0),
+  price numeric NOT NULL DEFAULT 0,
+  low_stock_threshold integer NOT NULL DEFAULT 10,
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  updated_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  CONSTRAINT pharmacy_inventory_pkey PRIMARY KEY (id),
+  CONSTRAINT pharmacy_inventory_pharmacy_id_fkey FOREIGN KEY (pharmacy_id) REFERENCES public.pharmacies(id)
+);
+CREATE TABLE public.pharmacy_orders (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  pharmacy_id uuid NOT NULL,
+  patient_id uuid NOT NULL,
+  prescription_id uuid,
+  items jsonb NOT NULL DEFAULT '[]'::jsonb,
+  total_amount numeric,
+  status text NOT NULL DEFAULT 'pending'::text CHECK (status = ANY (ARRAY['pending'::text, 'accepted'::text, 'ready'::text, 'completed'::text, 'rejected'::text])),
+  notes text,
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  updated_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  CONSTRAINT pharmacy_orders_pkey PRIMARY KEY (id),
+  CONSTRAINT pharmacy_orders_pharmacy_id_fkey FOREIGN KEY (pharmacy_id) REFERENCES public.pharmacies(id),
+  CONSTRAINT pharmacy_orders_patient_id_fkey FOREIGN KEY (patient_id) REFERENCES public.users(id),
+  CONSTRAINT pharmacy_orders_prescription_id_fkey FOREIGN KEY (prescription_id) REFERENCES public.prescriptions(id)
+);
 CREATE TABLE public.prescriptions (
   id uuid NOT NULL DEFAULT gen_random_uuid(),
   patient_id uuid,
@@ -110,6 +275,24 @@ CREATE TABLE public.prescriptions (
   CONSTRAINT prescriptions_doctor_id_fkey FOREIGN KEY (doctor_id) REFERENCES public.users(id),
   CONSTRAINT prescriptions_appointment_id_fkey FOREIGN KEY (appointment_id) REFERENCES public.appointments(id)
 );
+CREATE TABLE public.reports (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  patient_id uuid NOT NULL,
+  doctor_id uuid,
+  report_type text NOT NULL,
+  file_path text NOT NULL,
+  file_size text,
+  thumbnail_url text,
+  status text NOT NULL DEFAULT 'pending'::text CHECK (status = ANY (ARRAY['pending'::text, 'reviewed'::text, 'urgent'::text])),
+  upload_date timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  reviewed_date timestamp with time zone,
+  notes text,
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  updated_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  CONSTRAINT reports_pkey PRIMARY KEY (id),
+  CONSTRAINT reports_patient_id_fkey FOREIGN KEY (patient_id) REFERENCES public.users(id),
+  CONSTRAINT reports_doctor_id_fkey FOREIGN KEY (doctor_id) REFERENCES public.users(id)
+);
 CREATE TABLE public.sos_alerts (
   id uuid NOT NULL DEFAULT gen_random_uuid(),
   user_id uuid,
@@ -120,16 +303,243 @@ CREATE TABLE public.sos_alerts (
   CONSTRAINT sos_alerts_pkey PRIMARY KEY (id),
   CONSTRAINT sos_alerts_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.users(id)
 );
+CREATE TABLE public.user_sessions (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  device_id text NOT NULL,
+  device_name text,
+  platform text,
+  created_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  last_active_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  CONSTRAINT user_sessions_pkey PRIMARY KEY (id),
+  CONSTRAINT user_sessions_user_id_device_id_key UNIQUE (user_id, device_id),
+  CONSTRAINT user_sessions_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.users(id)
+);
 CREATE TABLE public.users (
-  id uuid NOT NULL,
-  email text NOT NULL,
-  role text NOT NULL DEFAULT 'not set'::text CHECK (role = ANY (ARRAY['doctor'::text, 'patient'::text])),
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  email text,
+  role text NOT NULL DEFAULT 'not set'::text CHECK (role = ANY (ARRAY['doctor'::text, 'patient'::text, 'pharmacy'::text, 'admin'::text])),
   name text NOT NULL,
   avatar text,
   phone text,
   location text,
   created_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
   updated_at timestamp with time zone NOT NULL DEFAULT timezone('utc'::text, now()),
+  account_id uuid,
+  relationship text,
+  ai_opt_out boolean NOT NULL DEFAULT false,
   CONSTRAINT users_pkey PRIMARY KEY (id),
-  CONSTRAINT users_id_fkey FOREIGN KEY (id) REFERENCES auth.users(id)
-);
\ No newline at end of file
+  CONSTRAINT users_account_id_fkey FOREIGN KEY (account_id) REFERENCES public.users(id)
+);
+
+-- Row level security for a patient's record. Each table lists everyone who
+-- may touch it: the patient, the account holding a family member's profile,
+-- linked caregivers, and doctors only while the patient has an active,
+-- unexpired consent covering the category. The app's own consent filters are
+-- a convenience on top of this.
+CREATE FUNCTION public.is_doctor() RETURNS boolean
+  LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'doctor');
+$$;
+-- The patient themselves, or the login that holds their family profile
+CREATE FUNCTION public.acts_for_patient(target_patient_id uuid) RETURNS boolean
+  LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT target_patient_id = auth.uid()
+    OR EXISTS (SELECT 1 FROM public.users WHERE id = target_patient_id AND account_id = auth.uid());
+$$;
+-- An active caregiver link; a null permission asks only whether one exists
+CREATE FUNCTION public.is_caregiver_for(target_patient_id uuid, permission text) RETURNS boolean
+  LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.caregiver_links link
+    WHERE link.caregiver_id = auth.uid()
+      AND link.patient_id = target_patient_id
+      AND link.status = 'active'
+      AND CASE permission
+        WHEN 'view_readings' THEN link.can_view_readings
+        WHEN 'mark_medicines' THEN link.can_mark_medicines
+        WHEN 'book_appointments' THEN link.can_book_appointments
+        ELSE permission IS NULL
+      END
+  );
+$$;
+CREATE FUNCTION public.has_doctor_consent(target_patient_id uuid, category text) RETURNS boolean
+  LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.doctor_access_consents consent
+    WHERE consent.doctor_id = auth.uid()
+      AND consent.patient_id = target_patient_id
+      AND consent.status = 'active'
+      AND consent.expires_at > now()
+      AND CASE category
+        WHEN 'readings' THEN consent.can_view_readings
+        WHEN 'reports' THEN consent.can_view_reports
+        WHEN 'prescriptions' THEN consent.can_view_prescriptions
+        ELSE false
+      END
+  );
+$$;
+
+ALTER TABLE public.health_readings ENABLE ROW LEVEL SECURITY;
+CREATE POLICY health_readings_select ON public.health_readings FOR SELECT TO authenticated
+  USING (
+    public.acts_for_patient(patient_id)
+    OR public.is_caregiver_for(patient_id, 'view_readings')
+    OR public.has_doctor_consent(patient_id, 'readings')
+  );
+-- Caregivers who can see readings may also log them for the patient
+CREATE POLICY health_readings_insert ON public.health_readings FOR INSERT TO authenticated
+  WITH CHECK (public.acts_for_patient(patient_id) OR public.is_caregiver_for(patient_id, 'view_readings'));
+-- Needed for the idempotent upsert of a replayed offline reading
+CREATE POLICY health_readings_update ON public.health_readings FOR UPDATE TO authenticated
+  USING (public.acts_for_patient(patient_id) OR public.is_caregiver_for(patient_id, 'view_readings'))
+  WITH CHECK (public.acts_for_patient(patient_id) OR public.is_caregiver_for(patient_id, 'view_readings'));
+CREATE POLICY health_readings_delete ON public.health_readings FOR DELETE TO authenticated
+  USING (public.acts_for_patient(patient_id) OR public.is_caregiver_for(patient_id, 'view_readings'));
+
+ALTER TABLE public.reports ENABLE ROW LEVEL SECURITY;
+CREATE POLICY reports_select ON public.reports FOR SELECT TO authenticated
+  USING (public.acts_for_patient(patient_id) OR public.has_doctor_consent(patient_id, 'reports'));
+CREATE POLICY reports_insert ON public.reports FOR INSERT TO authenticated
+  WITH CHECK (public.acts_for_patient(patient_id));
+-- The doctor a report was sent to marks it reviewed or urgent while consent lasts
+CREATE POLICY reports_update ON public.reports FOR UPDATE TO authenticated
+  USING (
+    public.acts_for_patient(patient_id)
+    OR (doctor_id = auth.uid() AND public.has_doctor_consent(patient_id, 'reports'))
+  )
+  WITH CHECK (
+    public.acts_for_patient(patient_id)
+    OR (doctor_id = auth.uid() AND public.has_doctor_consent(patient_id, 'reports'))
+  );
+CREATE POLICY reports_delete ON public.reports FOR DELETE TO authenticated
+  USING (public.acts_for_patient(patient_id));
+
+ALTER TABLE public.prescriptions ENABLE ROW LEVEL SECURITY;
+-- Any linked caregiver sees the medicine schedule; pharmacies see prescriptions they were sent
+CREATE POLICY prescriptions_select ON public.prescriptions FOR SELECT TO authenticated
+  USING (
+    public.acts_for_patient(patient_id)
+    OR public.is_caregiver_for(patient_id, NULL)
+    OR public.has_doctor_consent(patient_id, 'prescriptions')
+    OR EXISTS (
+      SELECT 1 FROM public.pharmacy_orders orders
+      WHERE orders.prescription_id = prescriptions.id AND orders.pharmacy_id = auth.uid()
+    )
+  );
+-- A doctor writes prescriptions in their own name, e.g. after an appointment
+CREATE POLICY prescriptions_insert ON public.prescriptions FOR INSERT TO authenticated
+  WITH CHECK (public.is_doctor() AND doctor_id = auth.uid());
+CREATE POLICY prescriptions_update ON public.prescriptions FOR UPDATE TO authenticated
+  USING (doctor_id = auth.uid())
+  WITH CHECK (doctor_id = auth.uid());
+
+-- Only the patient (or the account holding their profile) grants, changes or
+-- revokes consent; the doctor may only read the consents granted to them
+ALTER TABLE public.doctor_access_consents ENABLE ROW LEVEL SECURITY;
+CREATE POLICY doctor_access_consents_select ON public.doctor_access_consents FOR SELECT TO authenticated
+  USING (public.acts_for_patient(patient_id) OR doctor_id = auth.uid());
+CREATE POLICY doctor_access_consents_insert ON public.doctor_access_consents FOR INSERT TO authenticated
+  WITH CHECK (public.acts_for_patient(patient_id));
+CREATE POLICY doctor_access_consents_update ON public.doctor_access_consents FOR UPDATE TO authenticated
+  USING (public.acts_for_patient(patient_id))
+  WITH CHECK (public.acts_for_patient(patient_id));
+
+-- Only the patient (or the account holding their profile) adds a caregiver or
+-- changes what they may do; caregivers can see the links that name them
+ALTER TABLE public.caregiver_links ENABLE ROW LEVEL SECURITY;
+CREATE POLICY caregiver_links_select ON public.caregiver_links FOR SELECT TO authenticated
+  USING (public.acts_for_patient(patient_id) OR caregiver_id = auth.uid());
+CREATE POLICY caregiver_links_insert ON public.caregiver_links FOR INSERT TO authenticated
+  WITH CHECK (public.acts_for_patient(patient_id));
+CREATE POLICY caregiver_links_update ON public.caregiver_links FOR UPDATE TO authenticated
+  USING (public.acts_for_patient(patient_id))
+  WITH CHECK (public.acts_for_patient(patient_id));
+
+-- The attribution log is append-only: a caregiver records their own actions
+-- for a patient they are linked to, and no one edits or deletes entries
+ALTER TABLE public.caregiver_actions ENABLE ROW LEVEL SECURITY;
+CREATE POLICY caregiver_actions_select ON public.caregiver_actions FOR SELECT TO authenticated
+  USING (public.acts_for_patient(patient_id) OR caregiver_id = auth.uid());
+CREATE POLICY caregiver_actions_insert ON public.caregiver_actions FOR INSERT TO authenticated
+  WITH CHECK (caregiver_id = auth.uid() AND public.is_caregiver_for(patient_id, NULL));
+
+-- The access log is append-only: a user records only their own views, the
+-- patient (or the account holding their profile) reads them, and no one can
+-- edit or delete an entry
+ALTER TABLE public.access_audit_events ENABLE ROW LEVEL SECURITY;
+CREATE POLICY access_audit_events_select ON public.access_audit_events FOR SELECT TO authenticated
+  USING (public.acts_for_patient(patient_id));
+CREATE POLICY access_audit_events_insert ON public.access_audit_events FOR INSERT TO authenticated
+  WITH CHECK (actor_id = auth.uid());
+
+-- Verification decisions go through this function rather than a client
+-- update, so only an admin can approve or reject a doctor and every decision
+-- lands in the review log with it
+CREATE FUNCTION public.review_doctor_application(target_doctor_id uuid, decision text, reason text) RETURNS void
+  LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only an admin can review doctor registrations' USING ERRCODE = '42501';
+  END IF;
+  IF decision NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'Unknown decision %', decision USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.doctors
+  SET is_verified = decision = 'approved',
+      verification_status = decision,
+      verified_by = auth.uid(),
+      verified_at = now(),
+      verification_notes = reason,
+      updated_at = now()
+  WHERE id = target_doctor_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No doctor registration %', target_doctor_id USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.doctor_verification_reviews (doctor_id, reviewer_id, decision, reason)
+  VALUES (target_doctor_id, auth.uid(), decision, reason);
+END;
+$$;
+REVOKE EXECUTE ON FUNCTION public.review_doctor_application(uuid, text, text) FROM public, anon;
+
+-- Written only by review_doctor_application; admins and the doctor concerned can read it
+ALTER TABLE public.doctor_verification_reviews ENABLE ROW LEVEL SECURITY;
+CREATE POLICY doctor_verification_reviews_select ON public.doctor_verification_reviews FOR SELECT TO authenticated
+  USING (doctor_id = auth.uid() OR EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin'));
+
+-- Doctors are listed to every signed-in user. A doctor may edit only their own
+-- practice and registration fields and (re)submit for review; the verification
+-- outcome columns are written by review_doctor_application alone.
+ALTER TABLE public.doctors ENABLE ROW LEVEL SECURITY;
+CREATE POLICY doctors_select ON public.doctors FOR SELECT TO authenticated USING (true);
+CREATE POLICY doctors_insert ON public.doctors FOR INSERT TO authenticated
+  WITH CHECK (id = auth.uid() AND public.is_doctor());
+CREATE POLICY doctors_update ON public.doctors FOR UPDATE TO authenticated
+  USING (id = auth.uid())
+  WITH CHECK (id = auth.uid());
+REVOKE INSERT, UPDATE ON public.doctors FROM authenticated;
+GRANT INSERT (id, specialty, hospital, registration_no, council_name, year_of_registration, verification_status, submitted_at, updated_at)
+  ON public.doctors TO authenticated;
+GRANT UPDATE (specialty, hospital, registration_no, council_name, year_of_registration, verification_status, submitted_at, updated_at)
+  ON public.doctors TO authenticated;
+-- A doctor can only move their own status back to pending, which clears any earlier decision
+CREATE FUNCTION public.guard_doctor_verification() RETURNS trigger
+  LANGUAGE plpgsql AS $$
+BEGIN
+  IF current_user = 'authenticated'
+    AND (TG_OP = 'INSERT' OR NEW.verification_status IS DISTINCT FROM OLD.verification_status) THEN
+    IF NEW.verification_status <> 'pending' THEN
+      RAISE EXCEPTION 'Only an admin can approve or reject a doctor registration' USING ERRCODE = '42501';
+    END IF;
+    NEW.is_verified := false;
+    NEW.verified_by := NULL;
+    NEW.verified_at := NULL;
+    NEW.verification_notes := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+CREATE TRIGGER guard_doctor_verification BEFORE INSERT OR UPDATE ON public.doctors
+  FOR EACH ROW EXECUTE FUNCTION public.guard_doctor_verification();
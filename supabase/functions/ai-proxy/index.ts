@@ -0,0 +1,198 @@
+// Every AI feature in the app calls this function instead of Gemini directly, so
+// the Gemini key stays a server secret (`supabase secrets set GEMINI_API_KEY=...`).
+// Callers must be signed in; each request is rate limited and logged per user.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+type AiTask =
+  | 'read_device_photo'
+  | 'transcribe_prescription'
+  | 'parse_prescription_text'
+  | 'chat';
+
+interface ProxyRequest {
+  task: AiTask;
+  prompt: string;
+  attachments?: { mimeType: string; data: string }[];
+  // Whose data the prompt is about, when that isn't the caller
+  patientId?: string;
+}
+
+// Audio transcription needs the newer model; everything else runs on the cheaper one
+const MODEL_FOR_TASK: Record<AiTask, string> = {
+  read_device_photo: 'gemini-1.5-flash',
+  transcribe_prescription: 'gemini-2.0-flash',
+  parse_prescription_text: 'gemini-2.0-flash',
+  chat: 'gemini-1.5-flash',
+};
+
+const PER_MINUTE_LIMIT = Number(Deno.env.get('AI_RATE_LIMIT_PER_MINUTE') ?? 10);
+const DAILY_QUOTA = Number(Deno.env.get('AI_DAILY_QUOTA') ?? 200);
+const MAX_PROMPT_CHARS = 20_000;
+// Base64 of a phone photo or a short voice note; anything larger is refused before it costs anything
+const MAX_ATTACHMENT_BYTES = 8 * 1024 * 1024;
+const ALLOWED_MIME_TYPES = ['image/jpeg', 'image/png', 'audio/mpeg', 'audio/mp4', 'audio/m4a', 'audio/wav'];
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' },
+  });
+
+const validateRequest = (body: Partial<ProxyRequest>): string | null => {
+  if (!body.task || !(body.task in MODEL_FOR_TASK)) return 'Unknown AI task';
+  if (typeof body.prompt !== 'string' || !body.prompt.trim()) return 'Prompt is required';
+  if (body.prompt.length > MAX_PROMPT_CHARS) return 'Prompt is too long';
+
+  const attachments = body.attachments ?? [];
+  if (!Array.isArray(attachments)) return 'Attachments must be a list';
+  for (const attachment of attachments) {
+    if (!ALLOWED_MIME_TYPES.includes(attachment?.mimeType)) return 'Unsupported attachment type';
+    if (typeof attachment.data !== 'string') return 'Attachment data must be base64';
+  }
+  const attachmentBytes = attachments.reduce((total, attachment) => total + attachment.data.length, 0);
+  if (attachmentBytes > MAX_ATTACHMENT_BYTES) return 'Attachment is too large';
+  return null;
+};
+
+const callGemini = async (model: string, { prompt, attachments = [] }: ProxyRequest) => {
+  const response = await fetch(
+    `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': Deno.env.get('GEMINI_API_KEY')!,
+      },
+      body: JSON.stringify({
+        contents: [
+          {
+            role: 'user',
+            parts: [{ text: prompt }, ...attachments.map((attachment) => ({ inlineData: attachment }))],
+          },
+        ],
+      }),
+    }
+  );
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result?.error?.message || `Gemini returned ${response.status}`);
+  }
+  const parts: { text?: string }[] = result?.candidates?.[0]?.content?.parts ?? [];
+  return parts.map((part) => part.text ?? '').join('');
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: CORS_HEADERS });
+  }
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) {
+    return json({ error: 'Sign in to use AI features' }, 401);
+  }
+
+  const admin = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  );
+
+  // The anon key is also a valid JWT, so resolve the token to a real user rather than trusting it
+  const { data: { user }, error: authError } = await admin.auth.getUser(token);
+  if (authError || !user) {
+    return json({ error: 'Sign in to use AI features' }, 401);
+  }
+
+  let body: Partial<ProxyRequest>;
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: 'Request body must be JSON' }, 400);
+  }
+  const invalid = validateRequest(body);
+  if (invalid) {
+    return json({ error: invalid }, 400);
+  }
+  const request = body as ProxyRequest;
+  const model = MODEL_FOR_TASK[request.task];
+
+  // The app checks this too, but an opt-out has to hold even for an old or modified client
+  const subjectIds = [...new Set([user.id, request.patientId].filter((id): id is string => !!id))];
+  const { data: optedOut } = await admin
+    .from('users')
+    .select('id')
+    .in('id', subjectIds)
+    .eq('ai_opt_out', true);
+  if (optedOut && optedOut.length > 0) {
+    return json({ error: 'AI processing is turned off for this patient', code: 'ai_opted_out' }, 403);
+  }
+
+  const usage = {
+    user_id: user.id,
+    task: request.task,
+    model,
+    prompt_chars: request.prompt.length,
+    attachment_bytes: (request.attachments ?? []).reduce((total, attachment) => total + attachment.data.length, 0),
+  };
+
+  const now = Date.now();
+  const startOfDay = new Date();
+  startOfDay.setUTCHours(0, 0, 0, 0);
+  // Every attempt counts, failed and refused ones included, so a bad or hostile
+  // client can't keep calling Gemini by making its requests fail
+  const [minuteResult, dayResult] = await Promise.all([
+    admin
+      .from('ai_usage_events')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', user.id)
+      .gte('created_at', new Date(now - 60 * 1000).toISOString()),
+    admin
+      .from('ai_usage_events')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', user.id)
+      .gte('created_at', startOfDay.toISOString()),
+  ]);
+  // Without the counts the limit can't be enforced, so refuse rather than fail open
+  if (minuteResult.error || dayResult.error || minuteResult.count === null || dayResult.count === null) {
+    console.error('AI usage count failed for', user.id, minuteResult.error ?? dayResult.error);
+    return json({ error: 'The AI service is unavailable right now' }, 503);
+  }
+  const lastMinute = minuteResult.count;
+  const today = dayResult.count;
+
+  if (today >= DAILY_QUOTA || lastMinute >= PER_MINUTE_LIMIT) {
+    const error = today >= DAILY_QUOTA
+      ? 'Daily AI limit reached. It resets at midnight UTC.'
+      : 'Too many AI requests. Please wait a minute and try again.';
+    await admin.from('ai_usage_events').insert({ ...usage, status: 'rate_limited', error });
+    return json({ error, code: 'rate_limited' }, 429);
+  }
+
+  try {
+    const text = await callGemini(model, request);
+    await admin.from('ai_usage_events').insert({
+      ...usage,
+      status: 'ok',
+      response_chars: text.length,
+      latency_ms: Date.now() - now,
+    });
+    return json({ text });
+  } catch (geminiError) {
+    console.error('AI request failed for', user.id, request.task, geminiError);
+    await admin.from('ai_usage_events').insert({
+      ...usage,
+      status: 'error',
+      latency_ms: Date.now() - now,
+      error: String(geminiError),
+    });
+    return json({ error: 'The AI service is unavailable right now' }, 502);
+  }
+});
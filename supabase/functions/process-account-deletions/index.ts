@@ -0,0 +1,138 @@
+// Scheduled daily (Supabase cron -> HTTP) to carry out account deletions whose
+// grace period has ended. Runs with the service role so it can remove auth users,
+// so the cron job must present CRON_SECRET (or the service role key) as its bearer token.
+import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+const REPORTS_BUCKET = 'medical-reports';
+
+// Rows that only describe the patient are removed outright
+const OWNED_TABLES: { table: string; column: string }[] = [
+  { table: 'health_readings', column: 'patient_id' },
+  { table: 'dose_logs', column: 'patient_id' },
+  { table: 'appointment_requests', column: 'patient_id' },
+  { table: 'chatbot_messages', column: 'user_id' },
+  { table: 'sos_alerts', column: 'user_id' },
+  { table: 'caregiver_actions', column: 'patient_id' },
+  { table: 'caregiver_actions', column: 'caregiver_id' },
+  { table: 'caregiver_links', column: 'patient_id' },
+  { table: 'caregiver_links', column: 'caregiver_id' },
+  { table: 'user_sessions', column: 'user_id' },
+  { table: 'doctor_access_consents', column: 'patient_id' },
+  { table: 'access_audit_events', column: 'patient_id' },
+  { table: 'ai_usage_events', column: 'user_id' },
+];
+
+// reports.file_path holds either the object path or, for older uploads, its full public URL
+const toObjectPath = (filePath: string) => {
+  if (!/^https?:\/\//.test(filePath)) return filePath.replace(/^\/+/, '');
+  const { pathname } = new URL(filePath);
+  const marker = `/${REPORTS_BUCKET}/`;
+  const start = pathname.indexOf(marker);
+  return start === -1 ? null : decodeURIComponent(pathname.slice(start + marker.length));
+};
+
+// Any failure throws, which leaves the deletion pending so the next run retries it
+const purgePatient = async (admin: SupabaseClient, patientId: string) => {
+  // Report files first, while the rows still say where they are
+  const { data: reports, error: reportsError } = await admin
+    .from('reports')
+    .select('file_path')
+    .eq('patient_id', patientId);
+  if (reportsError) throw new Error(`reports: ${reportsError.message}`);
+
+  const filePaths: string[] = (reports || []).map((report) => report.file_path).filter(Boolean);
+  const paths = filePaths.map(toObjectPath);
+  const unreadable = filePaths.filter((_filePath, index) => !paths[index]);
+  if (unreadable.length > 0) throw new Error(`reports: cannot find the stored file for ${unreadable.join(', ')}`);
+  if (paths.length > 0) {
+    const { error: storageError } = await admin.storage.from(REPORTS_BUCKET).remove(paths as string[]);
+    if (storageError) throw new Error(`storage: ${storageError.message}`);
+  }
+  const { error: deleteReportsError } = await admin.from('reports').delete().eq('patient_id', patientId);
+  if (deleteReportsError) throw new Error(`reports: ${deleteReportsError.message}`);
+
+  for (const { table, column } of OWNED_TABLES) {
+    const { error } = await admin.from(table).delete().eq(column, patientId);
+    if (error) throw new Error(`${table}: ${error.message}`);
+  }
+
+  const { error: patientError } = await admin.from('patients').delete().eq('id', patientId);
+  if (patientError) throw new Error(`patients: ${patientError.message}`);
+
+  // Appointments and prescriptions are the treating doctor's clinical record, so they
+  // stay but now point at an anonymised user row
+  const { error } = await admin
+    .from('users')
+    .update({
+      name: 'Deleted user',
+      email: null,
+      phone: null,
+      avatar: null,
+      location: null,
+      relationship: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', patientId);
+  if (error) throw new Error(`users: ${error.message}`);
+};
+
+// Only the scheduler may start a purge; anyone else who finds the URL gets a 401
+const isAuthorizedCaller = (req: Request) => {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) return false;
+  const cronSecret = Deno.env.get('CRON_SECRET');
+  return (!!cronSecret && token === cronSecret) || token === Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+};
+
+Deno.serve(async (req) => {
+  if (!isAuthorizedCaller(req)) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), { status: 401 });
+  }
+
+  const admin = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  );
+
+  const { data: dueRequests, error } = await admin
+    .from('account_deletion_requests')
+    .select('id, user_id')
+    .eq('status', 'pending')
+    .lte('scheduled_for', new Date().toISOString());
+
+  if (error) {
+    return new Response(JSON.stringify({ error: error.message }), { status: 500 });
+  }
+
+  const results: { userId: string; ok: boolean; error?: string }[] = [];
+  for (const request of dueRequests || []) {
+    try {
+      const { data: family, error: familyError } = await admin
+        .from('users')
+        .select('id')
+        .eq('account_id', request.user_id);
+      if (familyError) throw new Error(`users: ${familyError.message}`);
+      for (const member of family || []) {
+        await purgePatient(admin, member.id);
+      }
+      await purgePatient(admin, request.user_id);
+
+      const { error: authError } = await admin.auth.admin.deleteUser(request.user_id);
+      if (authError && authError.status !== 404) throw new Error(`auth: ${authError.message}`);
+
+      const { error: completeError } = await admin
+        .from('account_deletion_requests')
+        .update({ status: 'completed', completed_at: new Date().toISOString() })
+        .eq('id', request.id);
+      if (completeError) throw new Error(`account_deletion_requests: ${completeError.message}`);
+      results.push({ userId: request.user_id, ok: true });
+    } catch (purgeError) {
+      console.error('Account deletion failed for', request.user_id, purgeError);
+      results.push({ userId: request.user_id, ok: false, error: String(purgeError) });
+    }
+  }
+
+  return new Response(JSON.stringify({ processed: results }), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+});